@@ -19,6 +19,40 @@ interface ResponseTime {
   durationMs: number;
 }
 
+interface DeadLetterDepth {
+  entity: string;
+  subscription: string | null;
+  depth: number | null;
+}
+
+interface OrderHistoryEvent {
+  id: number;
+  eventType: string;
+  status?: string;
+  data: any;
+  createdAt: string;
+}
+
+interface Discrepancy {
+  category: string;
+  orderId: string;
+  reservationId?: string;
+  orderStatus: string | null;
+  reservationStatus: string | null;
+  detail: string;
+  repair?: { success: boolean; message: string };
+}
+
+interface ConsistencyReport {
+  completedAt: string;
+  ordersChecked: number;
+  reservationsChecked: number;
+  counts: Record<string, number>;
+  discrepancies: Discrepancy[];
+  repaired: number;
+  error?: string;
+}
+
 interface ChaosStatus {
   gremlinEnabled: boolean;
   schrödingerEnabled: boolean;
@@ -36,12 +70,19 @@ function App() {
   });
   const [events, setEvents] = useState<Event[]>([]);
   const [responseTimes, setResponseTimes] = useState<ResponseTime[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterDepth[]>([]);
+  const [consistency, setConsistency] = useState<ConsistencyReport | null>(null);
+  const [auditRunning, setAuditRunning] = useState(false);
   const [chaosStatus, setChaosStatus] = useState<ChaosStatus>({
     gremlinEnabled: false,
     schrödingerEnabled: false,
   });
   
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [orderTimeline, setOrderTimeline] = useState<OrderHistoryEvent[]>([]);
+  
   const wsRef = useRef<WebSocket | null>(null);
+  const selectedOrderRef = useRef<string | null>(null);
 
   // Calculate rolling 30-second average response time
   const { avgResponseTime, isAlertActive, recentCount } = useMemo(() => {
@@ -87,6 +128,8 @@ function App() {
           setServices(message.data.services || {});
           setEvents(message.data.events || []);
           setResponseTimes(message.data.responseTimes || []);
+          setDeadLetters(message.data.deadLetters || []);
+          setConsistency(message.data.consistency || null);
           break;
         case 'serviceHealth':
           setServices((prev) => ({
@@ -102,6 +145,10 @@ function App() {
             { timestamp: message.timestamp, ...message.data },
             ...prev.slice(0, 49),
           ]);
+          // Keep the selected order's timeline current
+          if (selectedOrderRef.current && message.data?.data?.orderId === selectedOrderRef.current) {
+            fetchOrderTimeline(selectedOrderRef.current);
+          }
           break;
         case 'responseTime':
           setResponseTimes((prev) => [
@@ -109,6 +156,12 @@ function App() {
             ...prev.slice(0, 99),
           ]);
           break;
+        case 'deadLetters':
+          setDeadLetters(message.data || []);
+          break;
+        case 'consistencyReport':
+          setConsistency(message.data);
+          break;
       }
     };
     
@@ -163,6 +216,46 @@ function App() {
     }
   };
 
+  const fetchOrderTimeline = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/events`);
+      const data = await response.json();
+      
+      if (data.success) {
+        setOrderTimeline(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch order timeline:', error);
+    }
+  };
+
+  const selectOrder = (orderId: string) => {
+    selectedOrderRef.current = orderId;
+    setSelectedOrderId(orderId);
+    setOrderTimeline([]);
+    fetchOrderTimeline(orderId);
+  };
+
+  const runAudit = async (repair: boolean) => {
+    setAuditRunning(true);
+    try {
+      const response = await fetch('/api/audit/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ repair: repair ? 'all' : [] }),
+      });
+      const data = await response.json();
+      
+      if (data.data) {
+        setConsistency(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to run consistency audit:', error);
+    } finally {
+      setAuditRunning(false);
+    }
+  };
+
   const fetchChaosStatus = async () => {
     try {
       const response = await fetch('/api/chaos/status');
@@ -221,6 +314,37 @@ function App() {
     return new Date(timestamp).toLocaleTimeString();
   };
 
+  const formatEventDetail = (event: Event) => {
+    const data = event.data || {};
+    if (data.productId && data.quantityChange !== undefined) {
+      const change = `${data.quantityChange > 0 ? '+' : ''}${data.quantityChange}`;
+      return `${change} × ${data.productId} → ${data.newStock} (${data.reasonCode}, ${data.actorId})`;
+    }
+    if (data.productId && data.fromLocationId) {
+      return `${data.quantity} × ${data.productId}: ${data.fromLocationId} → ${data.toLocationId} (${data.actorId})`;
+    }
+    if (data.productId && data.quantity !== undefined) {
+      return `${data.quantity} × ${data.productId}${data.reason ? ` (${data.reason})` : ''}`;
+    }
+    return data.orderId ? `Order ${String(data.orderId).slice(0, 8)}...` : '';
+  };
+
+  // A confirmation after pending_verification came from the recovery path
+  const timelineLabel = (event: OrderHistoryEvent, earlier: OrderHistoryEvent[]) => {
+    if (event.eventType === 'OrderCreated') return 'created';
+    if (event.eventType === 'VerificationAttempted') return `verification attempt ${event.data?.attempt ?? ''}`;
+    if (event.eventType === 'CompensationApplied') return 'late reservation released';
+    if (event.status === 'confirmed' && earlier.some((e) => e.status === 'pending_verification')) {
+      return 'confirmed via recovery';
+    }
+    return event.status || event.eventType;
+  };
+
+  const getDeadLetterClass = (depth: number | null) => {
+    if (depth === null) return 'unknown';
+    return depth > 0 ? 'unhealthy' : 'healthy';
+  };
+
   const getBarHeight = (durationMs: number) => {
     // Scale: 0-100ms = 10-30%, 100-500ms = 30-60%, 500-2000ms = 60-90%, >2000ms = 90-100%
     if (durationMs < 100) return Math.max(10, (durationMs / 100) * 30);
@@ -279,6 +403,30 @@ function App() {
           </div>
         </div>
 
+        {/* Dead-Letter Queues */}
+        <div className="card">
+          <h2>Dead-Letter Queues</h2>
+          <div className="services">
+            {deadLetters.length === 0 ? (
+              <p style={{ color: '#64748b', textAlign: 'center', padding: '20px' }}>
+                No message bus data yet
+              </p>
+            ) : (
+              deadLetters.map((dlq) => (
+                <div key={`${dlq.entity}/${dlq.subscription}`} className="service">
+                  <span className="service-name">
+                    {dlq.entity}
+                    {dlq.subscription && <span className="dlq-subscription"> / {dlq.subscription}</span>}
+                  </span>
+                  <span className={`service-status ${getDeadLetterClass(dlq.depth)}`}>
+                    {dlq.depth === null ? 'n/a' : dlq.depth}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
         {/* Chaos Engineering */}
         <div className="card">
           <h2>Chaos Engineering</h2>
@@ -314,6 +462,63 @@ function App() {
           </div>
         </div>
 
+        {/* Consistency Audit */}
+        <div className="card">
+          <h2>Consistency Audit</h2>
+          <div className="audit-actions">
+            <button className="toggle-btn disable" disabled={auditRunning} onClick={() => runAudit(false)}>
+              {auditRunning ? 'Running...' : 'Run audit'}
+            </button>
+            <button className="toggle-btn enable" disabled={auditRunning} onClick={() => runAudit(true)}>
+              Run &amp; repair
+            </button>
+          </div>
+          {!consistency ? (
+            <p style={{ color: '#64748b', textAlign: 'center', padding: '20px' }}>
+              No audit has run yet
+            </p>
+          ) : consistency.error ? (
+            <div className="audit-summary unhealthy">
+              {formatTime(consistency.completedAt)}: audit failed - {consistency.error}
+            </div>
+          ) : (
+            <>
+              <div className="audit-summary">
+                {formatTime(consistency.completedAt)}: {consistency.ordersChecked} orders,{' '}
+                {consistency.reservationsChecked} reservations, {consistency.repaired} repaired
+              </div>
+              <div className="services">
+                {Object.entries(consistency.counts).map(([category, count]) => (
+                  <div key={category} className="service">
+                    <span className="service-name">{category.replace(/_/g, ' ')}</span>
+                    <span className={`service-status ${count > 0 ? 'unhealthy' : 'healthy'}`}>{count}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="events-list audit-discrepancies">
+                {consistency.discrepancies.map((d) => (
+                  <div
+                    key={`${d.category}/${d.orderId}/${d.reservationId}`}
+                    className="event selectable"
+                    onClick={() => selectOrder(d.orderId)}
+                  >
+                    <div className="event-header">
+                      <span className="event-type">{d.category.replace(/_/g, ' ')}</span>
+                      {d.repair && (
+                        <span className={`service-status ${d.repair.success ? 'healthy' : 'unhealthy'}`}>
+                          {d.repair.success ? 'repaired' : 'repair failed'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="event-service">Order {d.orderId.slice(0, 8)}...</div>
+                    <div className="event-detail">{d.repair && !d.repair.success ? d.repair.message : d.detail}</div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Response Times */}
         <div className="card">
           <h2>Response Times (Last 30)</h2>
@@ -353,17 +558,49 @@ function App() {
               </p>
             ) : (
               events.map((event, i) => (
-                <div key={i} className={`event ${event.service}`}>
+                <div
+                  key={i}
+                  className={`event ${event.service}${event.data?.orderId ? ' selectable' : ''}`}
+                  onClick={() => event.data?.orderId && selectOrder(String(event.data.orderId))}
+                >
                   <div className="event-header">
                     <span className="event-type">{event.eventType}</span>
                     <span className="event-time">{formatTime(event.timestamp)}</span>
                   </div>
                   <div className="event-service">{event.service}</div>
+                  {formatEventDetail(event) && (
+                    <div className="event-detail">{formatEventDetail(event)}</div>
+                  )}
                 </div>
               ))
             )}
           </div>
         </div>
+
+        {/* Order Timeline */}
+        <div className="card">
+          <h2>Order Timeline</h2>
+          {!selectedOrderId ? (
+            <p style={{ color: '#64748b', textAlign: 'center', padding: '20px' }}>
+              Select an order event to see its timeline
+            </p>
+          ) : (
+            <div className="events-list">
+              <div className="timeline-order">Order {selectedOrderId.slice(0, 8)}...</div>
+              {orderTimeline.map((event, i) => (
+                <div key={event.id} className={`event timeline-event ${event.status || ''}`}>
+                  <div className="event-header">
+                    <span className="event-type">{timelineLabel(event, orderTimeline.slice(0, i))}</span>
+                    <span className="event-time">{formatTime(event.createdAt)}</span>
+                  </div>
+                  {event.data?.errorMessage && (
+                    <div className="event-detail">{event.data.errorMessage}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,240 @@
+import { findDiscrepancies, groupHandles, OrderSnapshot, ReservationLine } from '../consistencyAuditor';
+
+jest.mock('../websocket', () => ({
+  broadcastMetric: jest.fn(),
+}));
+
+// Past the default AUDIT_GRACE_PERIOD_MS of two minutes
+const SETTLED = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+const RECENT = new Date().toISOString();
+
+function line(overrides: Partial<ReservationLine> & { id: string; orderId: string }): ReservationLine {
+  return { batchId: null, status: 'active', updatedAt: SETTLED, ...overrides };
+}
+
+function order(overrides: Partial<OrderSnapshot> & { id: string }): OrderSnapshot {
+  return { status: 'confirmed', updatedAt: SETTLED, ...overrides };
+}
+
+/**
+ * Answer the two export endpoints from in-memory orders and reservation
+ * lines, one record per page so paging is exercised too.
+ */
+function serveExports(orders: OrderSnapshot[], lines: ReservationLine[]): jest.Mock {
+  const fetchMock = jest.fn(async (url: string) => {
+    const { pathname, searchParams } = new URL(url);
+    const list = (name: string) => (searchParams.get(name) || '').split(',').filter(Boolean);
+
+    let records: Array<OrderSnapshot | ReservationLine>;
+    if (pathname === '/admin/export/orders') {
+      records = orders.filter(o =>
+        (!searchParams.has('status') || o.status === searchParams.get('status')) &&
+        (!searchParams.has('ids') || list('ids').includes(o.id))
+      );
+    } else {
+      records = lines.filter(l =>
+        (!searchParams.has('status') || l.status === searchParams.get('status')) &&
+        (!searchParams.has('orderIds') || list('orderIds').includes(l.orderId))
+      );
+    }
+
+    const after = searchParams.get('after');
+    const start = after ? records.findIndex(record => record.id === after) + 1 : 0;
+    const page = records.slice(start, start + 1);
+
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        success: true,
+        data: page,
+        nextAfter: start + 1 < records.length ? page[0].id : null,
+      }),
+    };
+  });
+
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe('groupHandles', () => {
+  it('keeps a single reservation as its own handle', () => {
+    const handles = groupHandles([line({ id: 'RES-1', orderId: 'ORD-1' })]);
+
+    expect([...handles.values()]).toEqual([
+      { id: 'RES-1', orderId: 'ORD-1', status: 'active', updatedAt: Date.parse(SETTLED) },
+    ]);
+  });
+
+  it('groups the lines of a batch under the batch handle, latest change first', () => {
+    const handles = groupHandles([
+      line({ id: 'L-1', orderId: 'ORD-1', batchId: 'BATCH-1' }),
+      line({ id: 'L-2', orderId: 'ORD-1', batchId: 'BATCH-1', updatedAt: RECENT }),
+    ]);
+
+    expect(handles.size).toBe(1);
+    expect(handles.get('BATCH-1')).toEqual({
+      id: 'BATCH-1',
+      orderId: 'ORD-1',
+      status: 'active',
+      updatedAt: Date.parse(RECENT),
+    });
+  });
+
+  it('marks a batch whose lines disagree as partial', () => {
+    const handles = groupHandles([
+      line({ id: 'L-1', orderId: 'ORD-1', batchId: 'BATCH-1', status: 'committed' }),
+      line({ id: 'L-2', orderId: 'ORD-1', batchId: 'BATCH-1', status: 'released' }),
+      line({ id: 'L-3', orderId: 'ORD-1', batchId: 'BATCH-1', status: 'committed' }),
+    ]);
+
+    expect(handles.get('BATCH-1')!.status).toBe('partial');
+  });
+});
+
+describe('findDiscrepancies', () => {
+  const realFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('finds nothing when orders and reservations agree', async () => {
+    serveExports(
+      [order({ id: 'ORD-1', reservationId: 'BATCH-1' })],
+      [
+        line({ id: 'L-1', orderId: 'ORD-1', batchId: 'BATCH-1' }),
+        line({ id: 'L-2', orderId: 'ORD-1', batchId: 'BATCH-1' }),
+      ]
+    );
+
+    const result = await findDiscrepancies();
+
+    expect(result.found).toEqual([]);
+    expect(result.ordersChecked).toBe(1);
+    expect(result.reservationsChecked).toBe(2);
+  });
+
+  it('reports an active reservation whose order does not exist as orphaned', async () => {
+    serveExports([], [line({ id: 'RES-1', orderId: 'ORD-gone' })]);
+
+    expect((await findDiscrepancies()).found).toEqual([
+      expect.objectContaining({
+        category: 'orphaned_reservation',
+        orderId: 'ORD-gone',
+        reservationId: 'RES-1',
+        orderStatus: null,
+        detail: 'Order does not exist',
+      }),
+    ]);
+  });
+
+  it.each(['failed', 'cancelled', 'expired'])('reports an active reservation of an order that is %s as orphaned', async status => {
+    serveExports([order({ id: 'ORD-1', status })], [line({ id: 'RES-1', orderId: 'ORD-1' })]);
+
+    expect((await findDiscrepancies()).found).toEqual([
+      expect.objectContaining({ category: 'orphaned_reservation', orderStatus: status, detail: `Order is ${status}` }),
+    ]);
+  });
+
+  it('reports an active reservation of an order holding another one as orphaned', async () => {
+    serveExports(
+      [order({ id: 'ORD-1', reservationId: 'RES-2' })],
+      [line({ id: 'RES-1', orderId: 'ORD-1' }), line({ id: 'RES-2', orderId: 'ORD-1' })]
+    );
+
+    expect((await findDiscrepancies()).found).toEqual([
+      expect.objectContaining({
+        category: 'orphaned_reservation',
+        reservationId: 'RES-1',
+        detail: 'Order holds reservation RES-2 instead',
+      }),
+    ]);
+  });
+
+  it('reports a shipped order whose reservation is still active', async () => {
+    serveExports(
+      [order({ id: 'ORD-1', status: 'shipped', reservationId: 'RES-1' })],
+      [line({ id: 'RES-1', orderId: 'ORD-1' })]
+    );
+
+    expect((await findDiscrepancies()).found).toEqual([
+      expect.objectContaining({ category: 'shipped_not_committed', orderId: 'ORD-1', reservationId: 'RES-1' }),
+    ]);
+  });
+
+  it('reports a confirmed order whose reservation was released or never existed', async () => {
+    serveExports(
+      [
+        order({ id: 'ORD-1', reservationId: 'RES-1' }),
+        order({ id: 'ORD-2', reservationId: 'RES-missing' }),
+      ],
+      [line({ id: 'RES-1', orderId: 'ORD-1', status: 'released' })]
+    );
+
+    expect((await findDiscrepancies()).found).toEqual([
+      expect.objectContaining({
+        category: 'confirmed_without_reservation',
+        orderId: 'ORD-1',
+        reservationStatus: 'released',
+        detail: 'Reservation is released',
+      }),
+      expect.objectContaining({
+        category: 'confirmed_without_reservation',
+        orderId: 'ORD-2',
+        reservationStatus: null,
+        detail: 'Reservation does not exist',
+      }),
+    ]);
+  });
+
+  it('reports a confirmed order whose reservation is committed', async () => {
+    serveExports(
+      [order({ id: 'ORD-1', reservationId: 'RES-1' })],
+      [line({ id: 'RES-1', orderId: 'ORD-1', status: 'committed' })]
+    );
+
+    expect((await findDiscrepancies()).found).toEqual([
+      expect.objectContaining({ category: 'committed_not_shipped', orderId: 'ORD-1', reservationStatus: 'committed' }),
+    ]);
+  });
+
+  it('skips reservations and orders changed within the grace period', async () => {
+    serveExports(
+      [
+        order({ id: 'ORD-1', status: 'failed' }),
+        order({ id: 'ORD-2', status: 'failed', updatedAt: RECENT }),
+        order({ id: 'ORD-3', reservationId: 'RES-released', updatedAt: RECENT }),
+      ],
+      [
+        line({ id: 'RES-1', orderId: 'ORD-1', updatedAt: RECENT }),
+        line({ id: 'RES-2', orderId: 'ORD-2' }),
+        line({ id: 'RES-released', orderId: 'ORD-3', status: 'released' }),
+      ]
+    );
+
+    expect((await findDiscrepancies()).found).toEqual([]);
+  });
+
+  it.each(['pending', 'pending_verification', 'backordered'])('leaves the reservation of a %s order to its own path', async status => {
+    serveExports([order({ id: 'ORD-1', status })], [line({ id: 'RES-1', orderId: 'ORD-1' })]);
+
+    expect((await findDiscrepancies()).found).toEqual([]);
+  });
+
+  it('fails when an export is refused', async () => {
+    const fetchMock = jest.fn(async () => ({
+      ok: false,
+      status: 401,
+      json: async () => ({ success: false, error: 'Admin authentication required' }),
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(findDiscrepancies()).rejects.toThrow('Admin authentication required');
+  });
+});
@@ -0,0 +1,433 @@
+import { Gauge } from 'prom-client';
+import { broadcastMetric } from './websocket';
+
+/**
+ * Consistency Auditor
+ * Compares orders in Order Service with reservations in Inventory Service
+ * through their export APIs (never across databases) and reports where the
+ * two disagree. Each category of discrepancy has a repair, applied through
+ * the owning service's admin API when the category is listed in
+ * AUDIT_AUTO_REPAIR or requested for a manual run.
+ *
+ * Orders and reservations changed within AUDIT_GRACE_PERIOD_MS are left out:
+ * they may be mid-flight (an order being shipped, a late event on its way).
+ */
+
+export type DiscrepancyCategory =
+  // Confirmed order whose reservation is released or missing
+  | 'confirmed_without_reservation'
+  // Confirmed order whose reservation is already committed
+  | 'committed_not_shipped'
+  // Active reservation whose order is missing, terminal or holds another reservation
+  | 'orphaned_reservation'
+  // Shipped order whose reservation is still active
+  | 'shipped_not_committed';
+
+export const DISCREPANCY_CATEGORIES: DiscrepancyCategory[] = [
+  'confirmed_without_reservation',
+  'committed_not_shipped',
+  'orphaned_reservation',
+  'shipped_not_committed',
+];
+
+export interface RepairResult {
+  success: boolean;
+  message: string;
+}
+
+export interface Discrepancy {
+  category: DiscrepancyCategory;
+  orderId: string;
+  // Reservation id or batch handle
+  reservationId?: string;
+  // null when the order (or reservation) does not exist
+  orderStatus: string | null;
+  reservationStatus: string | null;
+  detail: string;
+  repair?: RepairResult;
+}
+
+export interface ConsistencyReport {
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  ordersChecked: number;
+  reservationsChecked: number;
+  counts: Record<DiscrepancyCategory, number>;
+  discrepancies: Discrepancy[];
+  repaired: number;
+  // Set when the audit could not complete; the other fields are then empty
+  error?: string;
+}
+
+export interface OrderSnapshot {
+  id: string;
+  status: string;
+  reservationId?: string;
+  updatedAt: string;
+}
+
+export interface ReservationLine {
+  id: string;
+  orderId: string;
+  batchId: string | null;
+  status: 'active' | 'released' | 'committed';
+  updatedAt: string;
+}
+
+// Shape of the services' JSON responses
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  nextAfter?: string | null;
+  error?: string;
+}
+
+// All lines of one reservation: a single line or a batch
+export interface ReservationHandle {
+  id: string;
+  orderId: string;
+  status: 'active' | 'released' | 'committed' | 'partial';
+  updatedAt: number;
+}
+
+const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://order-service:3001';
+const INVENTORY_SERVICE_URL = process.env.INVENTORY_SERVICE_URL || 'http://inventory-service:3002';
+// The export and repair endpoints are admin routes in both services
+const ADMIN_HEADERS: Record<string, string> = process.env.ADMIN_API_TOKEN
+  ? { Authorization: `Bearer ${process.env.ADMIN_API_TOKEN}` }
+  : {};
+
+const INTERVAL_MS = parseInt(process.env.AUDIT_INTERVAL_MS || '300000', 10);
+const GRACE_PERIOD_MS = parseInt(process.env.AUDIT_GRACE_PERIOD_MS || '120000', 10);
+// Comma-separated categories, or 'all'
+const AUTO_REPAIR = parseRepairList(process.env.AUDIT_AUTO_REPAIR || '');
+
+// Ids per export request when looking records up by id
+const LOOKUP_CHUNK_SIZE = 100;
+// Discrepancies kept in a report; the counts cover all of them
+const MAX_REPORTED = 200;
+
+const AUDIT_SOURCE = 'consistency-audit';
+const TERMINAL_ORDER_STATUSES = ['failed', 'cancelled', 'expired'];
+// The verification path or the backorder waitlist still decides these orders
+const IN_FLIGHT_ORDER_STATUSES = ['pending', 'pending_verification', 'backordered'];
+
+const discrepanciesGauge = new Gauge({
+  name: 'consistency_discrepancies',
+  help: 'Discrepancies found by the last consistency audit, by category',
+  labelNames: ['category'],
+});
+
+let auditTimer: NodeJS.Timeout | null = null;
+let running: Promise<ConsistencyReport> | null = null;
+let lastReport: ConsistencyReport | null = null;
+
+/**
+ * Read a repair list ('all' or comma-separated categories), ignoring
+ * unknown categories.
+ */
+export function parseRepairList(value: string | string[]): DiscrepancyCategory[] {
+  const items = (Array.isArray(value) ? value : value.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+  if (items.includes('all')) {
+    return [...DISCREPANCY_CATEGORIES];
+  }
+  return DISCREPANCY_CATEGORIES.filter(category => items.includes(category));
+}
+
+export function startConsistencyAuditor(): void {
+  if (auditTimer || INTERVAL_MS <= 0) {
+    return;
+  }
+
+  auditTimer = setInterval(() => {
+    runConsistencyAudit(AUTO_REPAIR).catch((error) => {
+      console.error('[Audit] Consistency audit failed:', error);
+    });
+  }, INTERVAL_MS);
+
+  const repairs = AUTO_REPAIR.length > 0 ? AUTO_REPAIR.join(', ') : 'none';
+  console.log(`[Audit] Consistency auditor started (interval ${INTERVAL_MS}ms, auto-repair: ${repairs})`);
+}
+
+export function stopConsistencyAuditor(): void {
+  if (auditTimer) {
+    clearInterval(auditTimer);
+    auditTimer = null;
+    console.log('[Audit] Consistency auditor stopped');
+  }
+}
+
+export function getLastConsistencyReport(): ConsistencyReport | null {
+  return lastReport;
+}
+
+export function isConsistencyAuditRunning(): boolean {
+  return running !== null;
+}
+
+/**
+ * Run one audit, repairing discrepancies in the given categories. A run
+ * already in progress is joined rather than started twice.
+ */
+export function runConsistencyAudit(repair: DiscrepancyCategory[] = []): Promise<ConsistencyReport> {
+  if (!running) {
+    running = audit(repair).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+async function audit(repair: DiscrepancyCategory[]): Promise<ConsistencyReport> {
+  const started = Date.now();
+  let report: ConsistencyReport;
+
+  try {
+    const { ordersChecked, reservationsChecked, found } = await findDiscrepancies();
+
+    let repaired = 0;
+    for (const discrepancy of found) {
+      if (repair.includes(discrepancy.category)) {
+        discrepancy.repair = await repairDiscrepancy(discrepancy);
+        if (discrepancy.repair.success) {
+          repaired++;
+        }
+      }
+    }
+
+    const counts = Object.fromEntries(
+      DISCREPANCY_CATEGORIES.map(category => [category, found.filter(d => d.category === category).length])
+    ) as Record<DiscrepancyCategory, number>;
+
+    report = {
+      startedAt: new Date(started).toISOString(),
+      completedAt: new Date().toISOString(),
+      durationMs: Date.now() - started,
+      ordersChecked,
+      reservationsChecked,
+      counts,
+      discrepancies: found.slice(0, MAX_REPORTED),
+      repaired,
+    };
+
+    for (const category of DISCREPANCY_CATEGORIES) {
+      discrepanciesGauge.set({ category }, counts[category]);
+    }
+
+    console.log(`[Audit] ${found.length} discrepancies in ${ordersChecked} orders / ${reservationsChecked} reservations, ${repaired} repaired`);
+  } catch (error) {
+    console.error('[Audit] Consistency audit could not complete:', (error as Error).message);
+    report = {
+      startedAt: new Date(started).toISOString(),
+      completedAt: new Date().toISOString(),
+      durationMs: Date.now() - started,
+      ordersChecked: 0,
+      reservationsChecked: 0,
+      counts: Object.fromEntries(DISCREPANCY_CATEGORIES.map(category => [category, 0])) as Record<DiscrepancyCategory, number>,
+      discrepancies: [],
+      repaired: 0,
+      error: (error as Error).message,
+    };
+  }
+
+  lastReport = report;
+  broadcastMetric('consistencyReport', report);
+  return report;
+}
+
+/**
+ * Compare settled orders with active reservations and the reservations of
+ * confirmed orders that hold none.
+ */
+export async function findDiscrepancies(): Promise<{
+  ordersChecked: number;
+  reservationsChecked: number;
+  found: Discrepancy[];
+}> {
+  const settledBefore = Date.now() - GRACE_PERIOD_MS;
+
+  const [activeLines, confirmedOrders] = await Promise.all([
+    exportAll<ReservationLine>(`${INVENTORY_SERVICE_URL}/admin/export/reservations`, { status: 'active' }),
+    exportAll<OrderSnapshot>(`${ORDER_SERVICE_URL}/admin/export/orders`, { status: 'confirmed' }),
+  ]);
+
+  const activeHandles = groupHandles(activeLines);
+  const orders = new Map(confirmedOrders.map(order => [order.id, order]));
+
+  // Orders behind active reservations that are not confirmed
+  const unknownOrderIds = unique(Array.from(activeHandles.values(), handle => handle.orderId))
+    .filter(orderId => !orders.has(orderId));
+  for (const order of await lookUp<OrderSnapshot>(`${ORDER_SERVICE_URL}/admin/export/orders`, 'ids', unknownOrderIds)) {
+    orders.set(order.id, order);
+  }
+
+  // Every reservation line of confirmed orders not holding an active one
+  const unheldOrderIds = confirmedOrders
+    .filter(order => !order.reservationId || !activeHandles.has(order.reservationId))
+    .map(order => order.id);
+  const otherLines = await lookUp<ReservationLine>(
+    `${INVENTORY_SERVICE_URL}/admin/export/reservations`, 'orderIds', unheldOrderIds
+  );
+  const otherHandles = groupHandles(otherLines);
+
+  const found: Discrepancy[] = [];
+
+  for (const handle of activeHandles.values()) {
+    if (handle.updatedAt > settledBefore) {
+      continue;
+    }
+
+    const order = orders.get(handle.orderId);
+    const base = { orderId: handle.orderId, reservationId: handle.id, reservationStatus: handle.status };
+
+    if (!order) {
+      found.push({ ...base, category: 'orphaned_reservation', orderStatus: null, detail: 'Order does not exist' });
+    } else if (Date.parse(order.updatedAt) > settledBefore || IN_FLIGHT_ORDER_STATUSES.includes(order.status)) {
+      continue;
+    } else if (TERMINAL_ORDER_STATUSES.includes(order.status)) {
+      found.push({ ...base, category: 'orphaned_reservation', orderStatus: order.status, detail: `Order is ${order.status}` });
+    } else if (order.reservationId !== handle.id) {
+      found.push({
+        ...base,
+        category: 'orphaned_reservation',
+        orderStatus: order.status,
+        detail: `Order holds reservation ${order.reservationId || '(none)'} instead`,
+      });
+    } else if (order.status === 'shipped') {
+      found.push({ ...base, category: 'shipped_not_committed', orderStatus: order.status, detail: 'Order shipped but stock not committed' });
+    }
+  }
+
+  for (const order of confirmedOrders) {
+    if (Date.parse(order.updatedAt) > settledBefore || (order.reservationId && activeHandles.has(order.reservationId))) {
+      continue;
+    }
+
+    const handle = order.reservationId ? otherHandles.get(order.reservationId) : undefined;
+    const base = { orderId: order.id, reservationId: order.reservationId, orderStatus: order.status };
+
+    if (handle?.status === 'committed') {
+      found.push({ ...base, category: 'committed_not_shipped', reservationStatus: 'committed', detail: 'Stock committed but order not shipped' });
+    } else {
+      found.push({
+        ...base,
+        category: 'confirmed_without_reservation',
+        reservationStatus: handle?.status || null,
+        detail: handle ? `Reservation is ${handle.status}` : 'Reservation does not exist',
+      });
+    }
+  }
+
+  return {
+    ordersChecked: orders.size,
+    reservationsChecked: activeLines.length + otherLines.length,
+    found,
+  };
+}
+
+async function repairDiscrepancy(discrepancy: Discrepancy): Promise<RepairResult> {
+  const { category, orderId, reservationId } = discrepancy;
+
+  try {
+    switch (category) {
+      case 'orphaned_reservation':
+        return await post(`${INVENTORY_SERVICE_URL}/admin/reservations/${encodeURIComponent(reservationId!)}/release`, {
+          orderId,
+          reason: `${AUDIT_SOURCE}: ${discrepancy.detail}`,
+        });
+      case 'shipped_not_committed':
+        return await post(`${INVENTORY_SERVICE_URL}/admin/reservations/${encodeURIComponent(reservationId!)}/commit`, {
+          orderId,
+        });
+      case 'confirmed_without_reservation':
+        return await post(`${ORDER_SERVICE_URL}/admin/orders/${encodeURIComponent(orderId)}/transition`, {
+          status: 'cancelled',
+          reason: `Reservation no longer held (${discrepancy.detail.toLowerCase()})`,
+          source: AUDIT_SOURCE,
+        });
+      case 'committed_not_shipped':
+        return await post(`${ORDER_SERVICE_URL}/admin/orders/${encodeURIComponent(orderId)}/transition`, {
+          status: 'shipped',
+          reason: 'Stock already committed',
+          source: AUDIT_SOURCE,
+        });
+    }
+  } catch (error) {
+    return { success: false, message: (error as Error).message };
+  }
+}
+
+async function post(url: string, body: unknown): Promise<RepairResult> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...ADMIN_HEADERS },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json() as ApiResponse<unknown>;
+
+  return response.ok && result.success
+    ? { success: true, message: 'Repaired' }
+    : { success: false, message: result.error || `HTTP ${response.status}` };
+}
+
+/**
+ * Follow an export endpoint's nextAfter until the last page.
+ */
+async function exportAll<T>(url: string, params: Record<string, string>): Promise<T[]> {
+  const records: T[] = [];
+  let after: string | null = null;
+
+  do {
+    const query = new URLSearchParams(after ? { ...params, after } : params);
+    const response = await fetch(`${url}?${query}`, { headers: ADMIN_HEADERS });
+    const result = await response.json() as ApiResponse<T[]>;
+
+    if (!response.ok || !result.success) {
+      throw new Error(`${url}: ${result.error || `HTTP ${response.status}`}`);
+    }
+
+    records.push(...result.data);
+    after = result.nextAfter ?? null;
+  } while (after);
+
+  return records;
+}
+
+async function lookUp<T>(url: string, param: string, ids: string[]): Promise<T[]> {
+  const records: T[] = [];
+  for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+    records.push(...await exportAll<T>(url, { [param]: ids.slice(i, i + LOOKUP_CHUNK_SIZE).join(',') }));
+  }
+  return records;
+}
+
+/**
+ * Group reservation lines by batch (a single line is its own handle). A
+ * handle whose lines disagree on status is 'partial'.
+ */
+export function groupHandles(lines: ReservationLine[]): Map<string, ReservationHandle> {
+  const handles = new Map<string, ReservationHandle>();
+
+  for (const line of lines) {
+    const id = line.batchId || line.id;
+    const updatedAt = Date.parse(line.updatedAt);
+    const handle = handles.get(id);
+
+    if (!handle) {
+      handles.set(id, { id, orderId: line.orderId, status: line.status, updatedAt });
+    } else {
+      handle.status = handle.status === line.status ? handle.status : 'partial';
+      handle.updatedAt = Math.max(handle.updatedAt, updatedAt);
+    }
+  }
+
+  return handles;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
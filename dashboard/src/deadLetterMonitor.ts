@@ -0,0 +1,76 @@
+import { getMessageBus } from '../../shared/bus';
+import { broadcastMetric } from './websocket';
+
+/**
+ * Dead-Letter Monitor
+ * Polls the dead-letter depth of every subscription and queue in the
+ * namespace and pushes it to dashboard clients.
+ */
+
+export interface DeadLetterDepth {
+  entity: string;
+  subscription: string | null;
+  depth: number | null; // null when the depth could not be read
+}
+
+// Mirrors the topology in message-bus/init.sql
+const DEAD_LETTER_ENTITIES: Array<{ entity: string; subscription: string | null }> = [
+  { entity: 'inventory-events', subscription: 'order-service-sub' },
+  { entity: 'inventory-events', subscription: 'dashboard-sub' },
+  { entity: 'order-events', subscription: 'dashboard-sub' },
+  { entity: 'system-metrics', subscription: 'dashboard-sub' },
+  { entity: 'verify-orders', subscription: null },
+];
+
+const INTERVAL_MS = parseInt(process.env.DLQ_POLL_INTERVAL_MS || '15000', 10);
+
+let monitorTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+export function startDeadLetterMonitor(): void {
+  if (monitorTimer || !getMessageBus()) {
+    return;
+  }
+
+  monitorTimer = setInterval(() => {
+    pollDeadLetters().catch((error) => {
+      console.error('[DLQ] Poll failed:', error);
+    });
+  }, INTERVAL_MS);
+  pollDeadLetters().catch(() => undefined);
+
+  console.log(`[DLQ] Dead-letter monitor started (interval ${INTERVAL_MS}ms)`);
+}
+
+export function stopDeadLetterMonitor(): void {
+  if (monitorTimer) {
+    clearInterval(monitorTimer);
+    monitorTimer = null;
+    console.log('[DLQ] Dead-letter monitor stopped');
+  }
+}
+
+async function pollDeadLetters(): Promise<void> {
+  const bus = getMessageBus();
+  if (polling || !bus) {
+    return;
+  }
+
+  polling = true;
+  try {
+    const depths: DeadLetterDepth[] = [];
+
+    for (const { entity, subscription } of DEAD_LETTER_ENTITIES) {
+      try {
+        depths.push({ entity, subscription, depth: await bus.countDeadLetters(entity, subscription) });
+      } catch (error) {
+        console.error(`[DLQ] Could not read depth of ${entity}/${subscription || 'queue'}:`, (error as Error).message);
+        depths.push({ entity, subscription, depth: null });
+      }
+    }
+
+    broadcastMetric('deadLetters', depths);
+  } finally {
+    polling = false;
+  }
+}
@@ -1,31 +1,41 @@
-import { ServiceBusClient, ServiceBusReceiver, ProcessErrorArgs, ServiceBusReceivedMessage } from '@azure/service-bus';
+import { initMessageBus, closeMessageBus, BusSubscription, DeadLetterError, ReceivedBusMessage } from '../../shared/bus';
+import { parseEvent, isSupportedEventType } from '../../shared/contracts';
 import { broadcastMetric } from './websocket';
 
-const connectionString = process.env.AZURE_SERVICE_BUS_CONNECTION_STRING || '';
+let metricsReceiver: BusSubscription | null = null;
+let inventoryReceiver: BusSubscription | null = null;
+let orderReceiver: BusSubscription | null = null;
 
-let serviceBusClient: ServiceBusClient | null = null;
-let metricsReceiver: ServiceBusReceiver | null = null;
-let inventoryReceiver: ServiceBusReceiver | null = null;
-let orderReceiver: ServiceBusReceiver | null = null;
-
-export async function startMetricsConsumer(): Promise<void> {
-  if (!connectionString) {
-    console.log('[ASB] No connection string, metrics consumer disabled');
-    return;
+/**
+ * Validate and upcast a received event. Event types this build does not know
+ * are shown as they are; invalid known ones are dead-lettered.
+ */
+function readEvent(message: ReceivedBusMessage, entity: string): { eventType: string; data: any } {
+  if (!isSupportedEventType(message.body?.eventType)) {
+    return message.body;
   }
   
   try {
-    serviceBusClient = new ServiceBusClient(connectionString);
+    return parseEvent(message.body);
+  } catch (error) {
+    console.error(`[ASB] Dead-lettering invalid message on ${entity}: ${(error as Error).message}`);
+    throw new DeadLetterError('ContractViolation', (error as Error).message);
+  }
+}
+
+export async function startMetricsConsumer(): Promise<void> {
+  try {
+    const bus = await initMessageBus();
     
-    // Subscribe to system-metrics topic
-    metricsReceiver = serviceBusClient.createReceiver(
-      'system-metrics',
-      'dashboard-sub'
-    );
+    if (!bus) {
+      console.log('[ASB] No message bus configured, metrics consumer disabled');
+      return;
+    }
     
-    metricsReceiver.subscribe({
-      processMessage: async (message: ServiceBusReceivedMessage) => {
-        const event = message.body;
+    // Subscribe to system-metrics topic
+    metricsReceiver = bus.subscribe('system-metrics', 'dashboard-sub', {
+      processMessage: async (message: ReceivedBusMessage) => {
+        const event = readEvent(message, 'system-metrics');
         console.log(`[ASB] Received metric: ${event.eventType}`);
         
         if (event.eventType === 'ResponseTime') {
@@ -34,20 +44,15 @@ export async function startMetricsConsumer(): Promise<void> {
           broadcastMetric('serviceHealth', event.data);
         }
       },
-      processError: async (args: ProcessErrorArgs) => {
-        console.error('[ASB] Metrics error:', args.error);
+      processError: async (error: Error) => {
+        console.error('[ASB] Metrics error:', error);
       },
     });
     
     // Subscribe to inventory-events topic
-    inventoryReceiver = serviceBusClient.createReceiver(
-      'inventory-events',
-      'dashboard-sub'
-    );
-    
-    inventoryReceiver.subscribe({
-      processMessage: async (message: ServiceBusReceivedMessage) => {
-        const event = message.body;
+    inventoryReceiver = bus.subscribe('inventory-events', 'dashboard-sub', {
+      processMessage: async (message: ReceivedBusMessage) => {
+        const event = readEvent(message, 'inventory-events');
         console.log(`[ASB] Received inventory event: ${event.eventType}`);
         
         broadcastMetric('event', {
@@ -56,20 +61,15 @@ export async function startMetricsConsumer(): Promise<void> {
           data: event.data,
         });
       },
-      processError: async (args: ProcessErrorArgs) => {
-        console.error('[ASB] Inventory events error:', args.error);
+      processError: async (error: Error) => {
+        console.error('[ASB] Inventory events error:', error);
       },
     });
     
     // Subscribe to order-events topic
-    orderReceiver = serviceBusClient.createReceiver(
-      'order-events',
-      'dashboard-sub'
-    );
-    
-    orderReceiver.subscribe({
-      processMessage: async (message: ServiceBusReceivedMessage) => {
-        const event = message.body;
+    orderReceiver = bus.subscribe('order-events', 'dashboard-sub', {
+      processMessage: async (message: ReceivedBusMessage) => {
+        const event = readEvent(message, 'order-events');
         console.log(`[ASB] Received order event: ${event.eventType}`);
         
         broadcastMetric('event', {
@@ -78,8 +78,8 @@ export async function startMetricsConsumer(): Promise<void> {
           data: event.data,
         });
       },
-      processError: async (args: ProcessErrorArgs) => {
-        console.error('[ASB] Order events error:', args.error);
+      processError: async (error: Error) => {
+        console.error('[ASB] Order events error:', error);
       },
     });
     
@@ -93,6 +93,6 @@ export async function stopMetricsConsumer(): Promise<void> {
   if (metricsReceiver) await metricsReceiver.close();
   if (inventoryReceiver) await inventoryReceiver.close();
   if (orderReceiver) await orderReceiver.close();
-  if (serviceBusClient) await serviceBusClient.close();
+  await closeMessageBus();
   console.log('[ASB] All consumers stopped');
 }
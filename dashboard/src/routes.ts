@@ -1,5 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { getMetricsStore, getConnectedClients } from './websocket';
+import {
+  getLastConsistencyReport,
+  isConsistencyAuditRunning,
+  parseRepairList,
+  runConsistencyAudit,
+} from './consistencyAuditor';
 
 const router = Router();
 
@@ -33,6 +39,66 @@ router.get('/metrics', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /dlq
+ * Dead-letter depth per subscription / queue (last poll)
+ */
+router.get('/dlq', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: getMetricsStore().deadLetters,
+  });
+});
+
+/**
+ * GET /orders/:id/events
+ * Proxy an order's timeline from Order Service
+ */
+router.get('/orders/:id/events', async (req: Request, res: Response) => {
+  try {
+    const response = await fetch(`${ORDER_SERVICE_URL}/orders/${encodeURIComponent(req.params.id)}/events`);
+    const result = await response.json();
+    res.status(response.status).json(result);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /audit
+ * Last order / inventory consistency report
+ */
+router.get('/audit', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: getLastConsistencyReport(),
+    running: isConsistencyAuditRunning(),
+  });
+});
+
+/**
+ * POST /audit/run
+ * Run a consistency audit now. repair: 'all' or a list of categories to repair
+ */
+router.post('/audit/run', async (req: Request, res: Response) => {
+  try {
+    const report = await runConsistencyAudit(parseRepairList(req.body?.repair || []));
+    res.status(report.error ? 502 : 200).json({
+      success: !report.error,
+      data: report,
+      error: report.error,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
 /**
  * GET /services/health
  * Check health of all services
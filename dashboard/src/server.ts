@@ -4,7 +4,15 @@ import http from 'http';
 import path from 'path';
 import { initWebSocket } from './websocket';
 import { startMetricsConsumer, stopMetricsConsumer } from './metricsConsumer';
+import { startDeadLetterMonitor, stopDeadLetterMonitor } from './deadLetterMonitor';
+import { startConsistencyAuditor, stopConsistencyAuditor } from './consistencyAuditor';
 import routes from './routes';
+import { initTracing, shutdownTracing, tracingMiddleware } from '../../shared/tracing';
+import { initMetrics, metricsHandler, metricsMiddleware } from '../../shared/metrics';
+
+// Initialize tracing first
+initTracing('dashboard');
+initMetrics('dashboard');
 
 const app = express();
 const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3003', 10);
@@ -12,17 +20,24 @@ const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3003', 10);
 // Middleware
 app.use(cors());
 app.use(express.json());
+app.use(tracingMiddleware);
+app.use(metricsMiddleware);
+
+// Prometheus scrape endpoint
+app.get('/metrics', metricsHandler);
 
 // API routes
 app.use('/api', routes);
 
-// Serve static frontend in production
-app.use(express.static(path.join(__dirname, '../frontend/dist')));
+// Serve static frontend in production. Resolved from the package root (npm
+// scripts run there) since the compiled server sits deeper than src/.
+const FRONTEND_DIST = path.resolve('frontend/dist');
+app.use(express.static(FRONTEND_DIST));
 
 // SPA fallback
 app.get('*', (req, res) => {
   if (!req.path.startsWith('/api')) {
-    res.sendFile(path.join(__dirname, '../frontend/dist/index.html'));
+    res.sendFile(path.join(FRONTEND_DIST, 'index.html'));
   }
 });
 
@@ -41,6 +56,8 @@ async function main() {
     // Start ASB metrics consumer
     console.log('[ASB] Starting metrics consumer...');
     await startMetricsConsumer();
+    startDeadLetterMonitor();
+    startConsistencyAuditor();
     
     // Start HTTP server
     server.listen(HTTP_PORT, () => {
@@ -56,7 +73,10 @@ async function main() {
     // Graceful shutdown
     const shutdown = async () => {
       console.log('\n[Shutdown] Received shutdown signal...');
+      stopDeadLetterMonitor();
+      stopConsistencyAuditor();
       await stopMetricsConsumer();
+      await shutdownTracing();
       server.close(() => {
         console.log('[Shutdown] Server stopped');
         process.exit(0);
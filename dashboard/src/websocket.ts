@@ -1,9 +1,21 @@
 import WebSocket, { WebSocketServer } from 'ws';
 import { Server } from 'http';
+import { Gauge } from 'prom-client';
+import type { DeadLetterDepth } from './deadLetterMonitor';
+import type { ConsistencyReport } from './consistencyAuditor';
+import { getTraceParent } from '../../shared/tracing';
 
 let wss: WebSocketServer | null = null;
 const clients = new Set<WebSocket>();
 
+new Gauge({
+  name: 'websocket_clients',
+  help: 'Connected WebSocket clients',
+  collect() {
+    this.set(clients.size);
+  },
+});
+
 // Metrics storage (in-memory for simplicity)
 interface ServiceMetrics {
   status: 'healthy' | 'unhealthy' | 'unknown';
@@ -26,6 +38,8 @@ interface MetricsStore {
     operation: string;
     durationMs: number;
   }>;
+  deadLetters: DeadLetterDepth[];
+  consistency: ConsistencyReport | null;
 }
 
 const metricsStore: MetricsStore = {
@@ -35,6 +49,8 @@ const metricsStore: MetricsStore = {
   },
   events: [],
   responseTimes: [],
+  deadLetters: [],
+  consistency: null,
 };
 
 export function initWebSocket(server: Server): void {
@@ -92,6 +108,10 @@ export function broadcastMetric(type: string, data: any): void {
     if (metricsStore.events.length > 50) {
       metricsStore.events = metricsStore.events.slice(-50);
     }
+  } else if (type === 'deadLetters') {
+    metricsStore.deadLetters = data;
+  } else if (type === 'consistencyReport') {
+    metricsStore.consistency = data;
   }
   
   // Broadcast to all clients
@@ -99,6 +119,7 @@ export function broadcastMetric(type: string, data: any): void {
     type,
     data,
     timestamp: new Date().toISOString(),
+    traceparent: getTraceParent(),
   });
   
   clients.forEach((client) => {
@@ -4,20 +4,41 @@ interface Product {
   id: string;
   name: string;
   stock: number;
+  reservedStock?: number;
   lowStockThreshold: number;
+  // Units that may be ordered beyond stock and wait for it
+  backorderLimit?: number;
+}
+
+interface StockLevel {
+  productId: string;
+  availableStock: number;
+  reservedStock: number;
+}
+
+interface OrderItem {
+  productId: string;
+  quantity: number;
 }
 
 interface Order {
   id: string;
   customerId: string;
-  productId: string;
-  quantity: number;
+  items: OrderItem[];
   status: string;
   createdAt: string;
   reservationId?: string;
   errorMessage?: string;
 }
 
+interface OrderHistoryEvent {
+  id: number;
+  eventType: string;
+  status?: string;
+  data: any;
+  createdAt: string;
+}
+
 interface Notification {
   id: string;
   message: string;
@@ -25,16 +46,24 @@ interface Notification {
 }
 
 const ORDER_API = '/api';
+const CUSTOMER_ID = 'demo-user';
+
+const canBackorder = (product: Product) => (product.backorderLimit || 0) > 0;
 
 function App() {
   const [products, setProducts] = useState<Product[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [cart, setCart] = useState<Record<string, number>>({});
+  const [checkingOut, setCheckingOut] = useState(false);
   const [loading, setLoading] = useState<Record<string, boolean>>({});
   const [connected, setConnected] = useState(false);
   const [notification, setNotification] = useState<Notification | null>(null);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [timelines, setTimelines] = useState<Record<string, OrderHistoryEvent[]>>({});
   
   const wsRef = useRef<WebSocket | null>(null);
+  const expandedOrderRef = useRef<string | null>(null);
 
   const showNotification = useCallback((message: string, type: Notification['type']) => {
     const id = Date.now().toString();
@@ -69,12 +98,32 @@ function App() {
         // Show notification
         if (message.status === 'confirmed') {
           showNotification(`Order ${message.orderId.slice(0, 8)}... confirmed!`, 'success');
+        } else if (message.status === 'backordered') {
+          showNotification(`Order ${message.orderId.slice(0, 8)}... backordered`, 'info');
         } else if (message.status === 'failed') {
           showNotification(`Order ${message.orderId.slice(0, 8)}... failed`, 'error');
+        } else if (message.status === 'expired') {
+          showNotification(`Order ${message.orderId.slice(0, 8)}... expired`, 'info');
+        } else if (message.status === 'shipped') {
+          showNotification(`Order ${message.orderId.slice(0, 8)}... shipped`, 'success');
+        }
+        
+        // Keep an open timeline current
+        if (expandedOrderRef.current === message.orderId) {
+          fetchTimeline(message.orderId);
         }
         
         // Refresh products to get updated stock
         fetchProducts();
+      } else if (message.type === 'stockUpdate') {
+        // Restock, write-off or cycle count in the warehouse
+        setProducts((prev) =>
+          prev.map((product) =>
+            product.id === message.data.productId
+              ? { ...product, stock: message.data.availableStock }
+              : product
+          )
+        );
       }
     };
     
@@ -107,15 +156,44 @@ function App() {
           }
         });
         setQuantities((prev) => ({ ...prev, ...initQty }));
+        
+        fetchStockLevels();
       }
     } catch (error) {
       console.error('Failed to fetch products:', error);
     }
   };
 
+  const fetchStockLevels = async () => {
+    try {
+      // One bulk call for every product instead of one per SKU
+      const response = await fetch(`${ORDER_API}/products/stock`);
+      if (response.ok) {
+        const data = await response.json();
+        const levels: Record<string, StockLevel> = {};
+        (data.data || []).forEach((level: StockLevel) => {
+          levels[level.productId] = level;
+        });
+        setProducts((prev) =>
+          prev.map((product) =>
+            levels[product.id]
+              ? {
+                  ...product,
+                  stock: levels[product.id].availableStock,
+                  reservedStock: levels[product.id].reservedStock,
+                }
+              : product
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Failed to fetch stock levels:', error);
+    }
+  };
+
   const fetchOrders = async () => {
     try {
-      const response = await fetch(`${ORDER_API}/orders?limit=20`);
+      const response = await fetch(`${ORDER_API}/orders?customerId=${CUSTOMER_ID}&limit=20`);
       if (response.ok) {
         const data = await response.json();
         setOrders(data.data || []);
@@ -125,6 +203,27 @@ function App() {
     }
   };
 
+  const fetchTimeline = async (orderId: string) => {
+    try {
+      const response = await fetch(`${ORDER_API}/orders/${orderId}/events`);
+      if (response.ok) {
+        const data = await response.json();
+        setTimelines((prev) => ({ ...prev, [orderId]: data.data || [] }));
+      }
+    } catch (error) {
+      console.error('Failed to fetch order timeline:', error);
+    }
+  };
+
+  const toggleTimeline = (orderId: string) => {
+    const next = expandedOrderId === orderId ? null : orderId;
+    expandedOrderRef.current = next;
+    setExpandedOrderId(next);
+    if (next) {
+      fetchTimeline(next);
+    }
+  };
+
   useEffect(() => {
     fetchProducts();
     fetchOrders();
@@ -144,24 +243,14 @@ function App() {
     }));
   };
 
-  const handleOrder = async (product: Product) => {
-    const quantity = quantities[product.id] || 1;
-    
-    if (quantity > product.stock) {
-      showNotification('Not enough stock available', 'error');
-      return;
-    }
-    
-    setLoading((prev) => ({ ...prev, [product.id]: true }));
-    
+  const submitOrder = async (items: OrderItem[]): Promise<boolean> => {
     try {
       const response = await fetch(`${ORDER_API}/orders`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          customerId: 'demo-user',
-          productId: product.id,
-          quantity,
+          customerId: CUSTOMER_ID,
+          items,
         }),
       });
       
@@ -171,35 +260,87 @@ function App() {
         // Add order to list
         setOrders((prev) => [data.data, ...prev]);
         
-        // Reset quantity
-        setQuantities((prev) => ({ ...prev, [product.id]: 1 }));
-        
         // Show appropriate notification
         if (data.verificationRequired) {
           showNotification('Order submitted - verifying...', 'info');
+        } else if (data.backordered) {
+          showNotification('Order backordered - it will be confirmed when stock arrives', 'info');
         } else if (data.data.status === 'confirmed') {
           showNotification('Order confirmed!', 'success');
         }
         
         // Refresh products
         fetchProducts();
-      } else {
-        showNotification(data.error || 'Order failed', 'error');
-        if (data.data) {
-          setOrders((prev) => [data.data, ...prev]);
-        }
+        return true;
+      }
+      
+      showNotification(data.error || 'Order failed', 'error');
+      if (data.data) {
+        setOrders((prev) => [data.data, ...prev]);
       }
     } catch (error) {
       showNotification('Failed to place order', 'error');
-    } finally {
-      setLoading((prev) => ({ ...prev, [product.id]: false }));
     }
+    return false;
+  };
+
+  const handleOrder = async (product: Product) => {
+    const quantity = quantities[product.id] || 1;
+    
+    if (quantity > product.stock && !canBackorder(product)) {
+      showNotification('Not enough stock available', 'error');
+      return;
+    }
+    
+    setLoading((prev) => ({ ...prev, [product.id]: true }));
+    
+    if (await submitOrder([{ productId: product.id, quantity }])) {
+      // Reset quantity
+      setQuantities((prev) => ({ ...prev, [product.id]: 1 }));
+    }
+    
+    setLoading((prev) => ({ ...prev, [product.id]: false }));
+  };
+
+  const handleAddToCart = (product: Product) => {
+    const quantity = quantities[product.id] || 1;
+    setCart((prev) => ({ ...prev, [product.id]: (prev[product.id] || 0) + quantity }));
+    setQuantities((prev) => ({ ...prev, [product.id]: 1 }));
+  };
+
+  const handleCheckout = async () => {
+    const items = Object.entries(cart).map(([productId, quantity]) => ({ productId, quantity }));
+    if (items.length === 0) {
+      return;
+    }
+    
+    setCheckingOut(true);
+    
+    if (await submitOrder(items)) {
+      setCart({});
+    }
+    
+    setCheckingOut(false);
   };
 
+  const productName = (productId: string) =>
+    products.find((p) => p.id === productId)?.name || productId;
+
   const formatTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleString();
   };
 
+  // A confirmation after pending_verification came from the recovery path
+  const timelineLabel = (event: OrderHistoryEvent, earlier: OrderHistoryEvent[]) => {
+    if (event.eventType === 'OrderCreated') return 'created';
+    if (event.eventType === 'VerificationAttempted') return `verification attempt ${event.data?.attempt ?? ''}`;
+    if (event.eventType === 'CompensationApplied') return 'late reservation released';
+    if (event.status === 'confirmed' && earlier.some((e) => e.status === 'pending_verification')) {
+      return 'confirmed via recovery';
+    }
+    return event.status || event.eventType;
+  };
+
   return (
     <div className="app">
       <header>
@@ -225,6 +366,7 @@ function App() {
                     <h3>{product.name}</h3>
                     <span className={`product-stock ${product.stock <= product.lowStockThreshold ? 'low' : ''}`}>
                       {product.stock} in stock
+                      {product.reservedStock ? ` · ${product.reservedStock} reserved` : ''}
                     </span>
                   </div>
                   <div className="quantity-control">
@@ -234,15 +376,42 @@ function App() {
                     <button
                       className="order-btn"
                       onClick={() => handleOrder(product)}
-                      disabled={loading[product.id] || product.stock === 0}
+                      disabled={loading[product.id] || (product.stock === 0 && !canBackorder(product))}
                     >
-                      {loading[product.id] ? <span className="loading" /> : 'Order'}
+                      {loading[product.id]
+                        ? <span className="loading" />
+                        : (quantities[product.id] || 1) > product.stock ? 'Backorder' : 'Order'}
+                    </button>
+                    <button
+                      className="cart-btn"
+                      onClick={() => handleAddToCart(product)}
+                      disabled={product.stock === 0 && !canBackorder(product)}
+                    >
+                      + Cart
                     </button>
                   </div>
                 </div>
               ))
             )}
           </div>
+          
+          {Object.keys(cart).length > 0 && (
+            <div className="cart">
+              <h3>🛍️ Cart</h3>
+              {Object.entries(cart).map(([productId, quantity]) => (
+                <div key={productId} className="cart-line">
+                  <span>{productName(productId)}</span>
+                  <span>× {quantity}</span>
+                </div>
+              ))}
+              <div className="cart-actions">
+                <button className="cart-clear" onClick={() => setCart({})}>Clear</button>
+                <button className="order-btn" onClick={handleCheckout} disabled={checkingOut}>
+                  {checkingOut ? <span className="loading" /> : 'Checkout'}
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Orders */}
@@ -259,10 +428,32 @@ function App() {
                     <span className={`order-status ${order.status}`}>{order.status}</span>
                   </div>
                   <div className="order-details">
-                    <span className="order-product">Product: {order.productId.slice(0, 8)}...</span>
-                    <span className="order-quantity"> × {order.quantity}</span>
+                    {order.items.map((item) => (
+                      <div key={item.productId}>
+                        <span className="order-product">{productName(item.productId)}</span>
+                        <span className="order-quantity"> × {item.quantity}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="order-footer">
+                    <span className="order-time">{formatTime(order.createdAt)}</span>
+                    <button className="timeline-toggle" onClick={() => toggleTimeline(order.id)}>
+                      {expandedOrderId === order.id ? 'Hide history' : 'History'}
+                    </button>
                   </div>
-                  <div className="order-time">{formatTime(order.createdAt)}</div>
+                  {expandedOrderId === order.id && timelines[order.id] && (
+                    <ol className="timeline">
+                      {timelines[order.id].map((event, i, events) => (
+                        <li key={event.id} className={`timeline-event ${event.status || ''}`}>
+                          <span className="timeline-label">{timelineLabel(event, events.slice(0, i))}</span>
+                          <span className="timeline-time">{formatTime(event.createdAt)}</span>
+                          {event.data?.errorMessage && (
+                            <div className="timeline-detail">{event.data.errorMessage}</div>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
               ))
             )}
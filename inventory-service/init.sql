@@ -7,13 +7,41 @@ CREATE TABLE IF NOT EXISTS products (
     name VARCHAR(255) NOT NULL,
     description TEXT,
     price DECIMAL(10, 2) NOT NULL DEFAULT 0,
-    stock INT NOT NULL DEFAULT 0,
+    stock INT NOT NULL DEFAULT 0, -- available across all locations; the sum of product_locations.stock
     low_stock_threshold INT NOT NULL DEFAULT 10,
+    backorder_limit INT NOT NULL DEFAULT 0 CHECK (backorder_limit >= 0), -- units that may wait on the backorder waitlist beyond stock; 0 disables backorders
+    archived_at TIMESTAMP WITH TIME ZONE, -- archived products are hidden from the catalog and cannot be reserved
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
--- Reservations table (for tracking stock reservations)
+-- Stock locations (warehouses / fulfilment centres)
+CREATE TABLE IF NOT EXISTS locations (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    priority INT NOT NULL DEFAULT 100, -- lower is allocated first
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Available stock per product and location; a missing row means none
+CREATE TABLE IF NOT EXISTS product_locations (
+    product_id VARCHAR(50) NOT NULL REFERENCES products(id),
+    location_id VARCHAR(50) NOT NULL REFERENCES locations(id),
+    stock INT NOT NULL DEFAULT 0 CHECK (stock >= 0),
+    PRIMARY KEY (product_id, location_id)
+);
+
+-- Reservation batches (multi-line orders reserved all-or-nothing)
+CREATE TABLE IF NOT EXISTS reservation_batches (
+    id VARCHAR(50) PRIMARY KEY,
+    order_id VARCHAR(50) NOT NULL,
+    idempotency_key VARCHAR(100) UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_batches_order_id ON reservation_batches(order_id);
+
+-- Reservations table (for tracking stock reservations, one row per product line)
 CREATE TABLE IF NOT EXISTS reservations (
     id VARCHAR(50) PRIMARY KEY,
     order_id VARCHAR(50) NOT NULL,
@@ -21,6 +49,9 @@ CREATE TABLE IF NOT EXISTS reservations (
     quantity INT NOT NULL,
     status VARCHAR(20) NOT NULL DEFAULT 'active', -- active, released, committed
     idempotency_key VARCHAR(100) UNIQUE,
+    batch_id VARCHAR(50) REFERENCES reservation_batches(id),
+    location_id VARCHAR(50) REFERENCES locations(id), -- where the units were drawn from
+    expires_at TIMESTAMP WITH TIME ZONE, -- active reservations past this are auto-released
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -29,30 +60,106 @@ CREATE TABLE IF NOT EXISTS reservations (
 CREATE INDEX IF NOT EXISTS idx_reservations_order_id ON reservations(order_id);
 CREATE INDEX IF NOT EXISTS idx_reservations_product_id ON reservations(product_id);
 CREATE INDEX IF NOT EXISTS idx_reservations_idempotency_key ON reservations(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_reservations_batch_id ON reservations(batch_id);
+CREATE INDEX IF NOT EXISTS idx_reservations_expires_at ON reservations(expires_at) WHERE status = 'active';
+
+-- Backorder waitlist: orders accepted while out of stock, filled in arrival order
+CREATE TABLE IF NOT EXISTS backorders (
+    id VARCHAR(50) PRIMARY KEY,
+    order_id VARCHAR(50) NOT NULL,
+    position BIGSERIAL, -- arrival order
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting', -- waiting, filled, cancelled
+    idempotency_key VARCHAR(100) UNIQUE,
+    reservation_id VARCHAR(50) REFERENCES reservation_batches(id), -- batch handle once filled
+    ttl_seconds INT, -- hold time of the reservation made when filled
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_backorders_order_id ON backorders(order_id);
+CREATE INDEX IF NOT EXISTS idx_backorders_waiting ON backorders(position) WHERE status = 'waiting';
+
+CREATE TABLE IF NOT EXISTS backorder_lines (
+    backorder_id VARCHAR(50) NOT NULL REFERENCES backorders(id),
+    product_id VARCHAR(50) NOT NULL REFERENCES products(id),
+    quantity INT NOT NULL,
+    PRIMARY KEY (backorder_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backorder_lines_product_id ON backorder_lines(product_id);
 
 -- Audit log for stock changes
 CREATE TABLE IF NOT EXISTS stock_audit_log (
     id SERIAL PRIMARY KEY,
     product_id VARCHAR(50) NOT NULL REFERENCES products(id),
-    operation VARCHAR(20) NOT NULL, -- reserve, release, adjust
-    quantity_change INT NOT NULL,
+    operation VARCHAR(20) NOT NULL, -- reserve, release, commit, restock, adjust, transfer
+    quantity_change INT NOT NULL, -- stock figures are the product's total
     previous_stock INT NOT NULL,
     new_stock INT NOT NULL,
+    location_id VARCHAR(50),
+    location_change INT NOT NULL DEFAULT 0, -- change at location_id
     order_id VARCHAR(50),
     reservation_id VARCHAR(50),
     reason TEXT,
+    reason_code VARCHAR(50), -- set on restock and adjust rows made by staff
+    actor_id VARCHAR(100),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE INDEX IF NOT EXISTS idx_stock_audit_log_product_id ON stock_audit_log(product_id, created_at);
+
+-- Inbox table for idempotent message consumption
+CREATE TABLE IF NOT EXISTS inbox (
+    consumer VARCHAR(100) NOT NULL,
+    message_id VARCHAR(100) NOT NULL,
+    event_type VARCHAR(100),
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (consumer, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_processed_at ON inbox(processed_at);
+
+-- Outbox table for events written in the same transaction as a reservation
+CREATE TABLE IF NOT EXISTS outbox (
+    id SERIAL PRIMARY KEY,
+    event_type VARCHAR(100) NOT NULL,
+    event_data JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    retry_count INTEGER DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    trace_context JSONB -- W3C traceparent/tracestate of the writing request
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_unprocessed ON outbox(created_at) WHERE processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt ON outbox(next_attempt_at) WHERE processed_at IS NULL;
+
 -- Insert sample products
-INSERT INTO products (id, name, description, price, stock, low_stock_threshold) VALUES
-    ('SKU-001', 'Gaming Console X', 'Next-gen gaming console with 4K support', 499.99, 50, 10),
-    ('SKU-002', 'Wireless Controller', 'Ergonomic wireless gaming controller', 69.99, 200, 20),
-    ('SKU-003', 'Gaming Headset Pro', 'Surround sound gaming headset', 149.99, 100, 15),
-    ('SKU-004', 'Gaming Monitor 27"', '144Hz 1ms response gaming monitor', 399.99, 30, 5),
-    ('SKU-005', 'Mechanical Keyboard', 'RGB mechanical gaming keyboard', 129.99, 75, 10)
+INSERT INTO products (id, name, description, price, stock, low_stock_threshold, backorder_limit) VALUES
+    ('SKU-001', 'Gaming Console X', 'Next-gen gaming console with 4K support', 499.99, 50, 10, 100),
+    ('SKU-002', 'Wireless Controller', 'Ergonomic wireless gaming controller', 69.99, 200, 20, 0),
+    ('SKU-003', 'Gaming Headset Pro', 'Surround sound gaming headset', 149.99, 100, 15, 0),
+    ('SKU-004', 'Gaming Monitor 27"', '144Hz 1ms response gaming monitor', 399.99, 30, 5, 0),
+    ('SKU-005', 'Mechanical Keyboard', 'RGB mechanical gaming keyboard', 129.99, 75, 10, 0)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO locations (id, name, priority) VALUES
+    ('main', 'Main Warehouse', 10),
+    ('east', 'East Fulfilment Centre', 20)
 ON CONFLICT (id) DO NOTHING;
 
+-- Seeded stock starts in the main warehouse
+INSERT INTO product_locations (product_id, location_id, stock)
+SELECT id, 'main', stock FROM products
+ON CONFLICT (product_id, location_id) DO NOTHING;
+
+-- Opening balance, so the ledger of a seeded product adds up to its stock
+INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, location_change, reason)
+SELECT id, 'adjust', stock, 0, stock, 'main', stock, 'Opening balance'
+FROM products
+WHERE stock <> 0 AND NOT EXISTS (SELECT 1 FROM stock_audit_log WHERE stock_audit_log.product_id = products.id);
+
 -- Function to update timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -74,3 +181,9 @@ CREATE TRIGGER update_reservations_updated_at
     BEFORE UPDATE ON reservations
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_backorders_updated_at ON backorders;
+CREATE TRIGGER update_backorders_updated_at
+    BEFORE UPDATE ON backorders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
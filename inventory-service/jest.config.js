@@ -0,0 +1,7 @@
+// Unit tests live in __tests__ folders under src; shared/ resolves its packages from this service
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  modulePaths: ['<rootDir>/node_modules'],
+};
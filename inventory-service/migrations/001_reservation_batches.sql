@@ -0,0 +1,22 @@
+-- Multi-line orders: a batch groups the reservation lines of one order,
+-- reserved all-or-nothing. Existing reservations keep a NULL batch_id and
+-- are still addressed by their own id. init.sql only runs on an empty
+-- database; apply this to databases created before reservation batches.
+-- Safe to run more than once.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS reservation_batches (
+    id VARCHAR(50) PRIMARY KEY,
+    order_id VARCHAR(50) NOT NULL,
+    idempotency_key VARCHAR(100) UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_batches_order_id ON reservation_batches(order_id);
+
+ALTER TABLE reservations ADD COLUMN IF NOT EXISTS batch_id VARCHAR(50) REFERENCES reservation_batches(id);
+
+CREATE INDEX IF NOT EXISTS idx_reservations_batch_id ON reservations(batch_id);
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Reservation TTL: active reservations past expires_at are released by the
+-- expiry scheduler. Existing reservations get no expiry and are left to
+-- their orders. init.sql only runs on an empty database; apply this to
+-- databases created before reservation expiry. Safe to run more than once.
+
+BEGIN;
+
+ALTER TABLE reservations ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_expires_at ON reservations(expires_at) WHERE status = 'active';
+
+COMMIT;
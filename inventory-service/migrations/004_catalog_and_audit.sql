@@ -0,0 +1,16 @@
+-- Catalog admin and audited stock changes: products can be archived, and
+-- restock / adjust rows record why and by whom. init.sql only runs on an
+-- empty database; apply this to databases created before the catalog admin
+-- API. Safe to run more than once.
+
+BEGIN;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE stock_audit_log
+    ADD COLUMN IF NOT EXISTS reason_code VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS actor_id VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_stock_audit_log_product_id ON stock_audit_log(product_id, created_at);
+
+COMMIT;
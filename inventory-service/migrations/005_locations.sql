@@ -0,0 +1,53 @@
+-- Stock per location: each product's existing stock moves into the main
+-- warehouse, active reservations are drawn from there, and an opening
+-- balance row makes the ledger add up to the stock the product had when it
+-- was migrated. Products that already have a location are left alone.
+-- init.sql only runs on an empty database; apply this to databases created
+-- before locations. Safe to run more than once.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS locations (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    priority INT NOT NULL DEFAULT 100,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS product_locations (
+    product_id VARCHAR(50) NOT NULL REFERENCES products(id),
+    location_id VARCHAR(50) NOT NULL REFERENCES locations(id),
+    stock INT NOT NULL DEFAULT 0 CHECK (stock >= 0),
+    PRIMARY KEY (product_id, location_id)
+);
+
+ALTER TABLE reservations ADD COLUMN IF NOT EXISTS location_id VARCHAR(50) REFERENCES locations(id);
+
+ALTER TABLE stock_audit_log
+    ADD COLUMN IF NOT EXISTS location_id VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS location_change INT NOT NULL DEFAULT 0;
+
+INSERT INTO locations (id, name, priority) VALUES
+    ('main', 'Main Warehouse', 10),
+    ('east', 'East Fulfilment Centre', 20)
+ON CONFLICT (id) DO NOTHING;
+
+-- Held units go back to the location they will be released into
+UPDATE reservations SET location_id = 'main'
+WHERE location_id IS NULL AND status = 'active';
+
+WITH seeded AS (
+    INSERT INTO product_locations (product_id, location_id, stock)
+    SELECT p.id, 'main', p.stock FROM products p
+    WHERE NOT EXISTS (SELECT 1 FROM product_locations pl WHERE pl.product_id = p.id)
+    RETURNING product_id, stock
+)
+INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, location_change, reason)
+SELECT s.product_id, 'adjust', s.stock - COALESCE(l.total, 0), COALESCE(l.total, 0), s.stock, 'main', s.stock, 'Opening balance'
+FROM seeded s
+LEFT JOIN (
+    SELECT product_id, SUM(quantity_change)::int AS total FROM stock_audit_log GROUP BY product_id
+) l ON l.product_id = s.product_id
+WHERE s.stock <> 0 OR COALESCE(l.total, 0) <> 0;
+
+COMMIT;
@@ -0,0 +1,40 @@
+-- Backorder waitlist: orders accepted while out of stock, filled in arrival
+-- order. Existing products keep backorders disabled (backorder_limit 0).
+-- init.sql only runs on an empty database; apply this to databases created
+-- before backorders. Safe to run more than once.
+
+BEGIN;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS backorder_limit INT NOT NULL DEFAULT 0 CHECK (backorder_limit >= 0);
+
+CREATE TABLE IF NOT EXISTS backorders (
+    id VARCHAR(50) PRIMARY KEY,
+    order_id VARCHAR(50) NOT NULL,
+    position BIGSERIAL,
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+    idempotency_key VARCHAR(100) UNIQUE,
+    reservation_id VARCHAR(50) REFERENCES reservation_batches(id),
+    ttl_seconds INT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_backorders_order_id ON backorders(order_id);
+CREATE INDEX IF NOT EXISTS idx_backorders_waiting ON backorders(position) WHERE status = 'waiting';
+
+CREATE TABLE IF NOT EXISTS backorder_lines (
+    backorder_id VARCHAR(50) NOT NULL REFERENCES backorders(id),
+    product_id VARCHAR(50) NOT NULL REFERENCES products(id),
+    quantity INT NOT NULL,
+    PRIMARY KEY (backorder_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backorder_lines_product_id ON backorder_lines(product_id);
+
+DROP TRIGGER IF EXISTS update_backorders_updated_at ON backorders;
+CREATE TRIGGER update_backorders_updated_at
+    BEFORE UPDATE ON backorders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
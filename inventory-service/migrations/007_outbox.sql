@@ -0,0 +1,23 @@
+-- Transactional outbox: events written in the same transaction as the
+-- stock change they describe, published by the outbox relay. init.sql only
+-- runs on an empty database; apply this to databases created before the
+-- inventory outbox. Safe to run more than once.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS outbox (
+    id SERIAL PRIMARY KEY,
+    event_type VARCHAR(100) NOT NULL,
+    event_data JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    retry_count INTEGER DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    trace_context JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_unprocessed ON outbox(created_at) WHERE processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt ON outbox(next_attempt_at) WHERE processed_at IS NULL;
+
+COMMIT;
@@ -1,143 +1,98 @@
-import { ServiceBusClient, ServiceBusReceiver, ProcessErrorArgs } from '@azure/service-bus';
-import { v4 as uuidv4 } from 'uuid';
+import { initMessageBus, BusSubscription, DeadLetterError, ReceivedBusMessage } from '../../../shared/bus';
+import { parseEvent, InventoryEvent, OrderLine, OrderVerifiedEvent, VerifyOrderMessage } from '../../../shared/contracts';
 import * as stockRepository from '../domain/stockRepository';
-import { publishInventoryEvent, generateEventId } from '../publishers/inventoryPublisher';
+import * as inboxRepository from '../domain/inboxRepository';
+import { generateEventId } from '../publishers/inventoryPublisher';
 import { trackException, trackEvent } from '../telemetry';
 
-let serviceBusClient: ServiceBusClient | null = null;
-let verifyOrderReceiver: ServiceBusReceiver | null = null;
+export const VERIFY_ORDERS_QUEUE = 'verify-orders';
 
-interface VerifyOrderMessage {
-  eventType: 'VerifyOrder';
-  eventId: string;
-  timestamp: string;
-  data: {
-    orderId: string;
-    productId: string;
-    quantity: number;
-    idempotencyKey: string;
-    originalRequestTime: string;
-  };
-}
+const CONSUMER_NAME = VERIFY_ORDERS_QUEUE;
+
+let verifyOrderReceiver: BusSubscription | null = null;
 
 export async function startVerifyOrderConsumer(): Promise<void> {
-  const connectionString = process.env.AZURE_SERVICE_BUS_CONNECTION_STRING;
-  
-  if (!connectionString || connectionString.includes('your-namespace') || connectionString === '') {
-    console.log('[ASB Consumer] No valid connection string, running in offline mode');
-    return;
-  }
-  
   try {
-    serviceBusClient = new ServiceBusClient(connectionString);
+    const bus = await initMessageBus();
     
-    const queueName = 'verify-orders';
-    verifyOrderReceiver = serviceBusClient.createReceiver(queueName);
+    if (!bus) {
+      console.log('[ASB Consumer] No message bus configured, running in offline mode');
+      return;
+    }
     
-    // Subscribe to messages
-    verifyOrderReceiver.subscribe({
+    verifyOrderReceiver = bus.subscribe(VERIFY_ORDERS_QUEUE, null, {
       processMessage: handleVerifyOrderMessage,
       processError: handleError,
     });
     
-    console.log(`[ASB Consumer] Listening on queue: ${queueName}`);
+    console.log(`[ASB Consumer] Listening on queue: ${VERIFY_ORDERS_QUEUE}`);
   } catch (error) {
     console.error('[ASB Consumer] Failed to initialize:', error);
     trackException(error as Error, { context: 'asb_consumer_init' });
   }
 }
 
-async function handleVerifyOrderMessage(message: any): Promise<void> {
-  const body = message.body as VerifyOrderMessage;
-  const { orderId, productId, quantity, idempotencyKey } = body.data;
+/**
+ * Validate the message against the VerifyOrder contract (single-line messages
+ * are upcast to items). Anything else can never succeed and is dead-lettered.
+ */
+function parseVerifyOrderMessage(message: ReceivedBusMessage): VerifyOrderMessage {
+  try {
+    const event = parseEvent(message.body);
+    if (event.eventType !== 'VerifyOrder') {
+      throw new Error(`Unexpected ${event.eventType} on ${VERIFY_ORDERS_QUEUE}`);
+    }
+    return event;
+  } catch (error) {
+    console.error(`[ASB Consumer] Dead-lettering invalid message: ${(error as Error).message}`);
+    trackEvent('InvalidMessageDeadLettered', { eventType: String(message.body?.eventType), consumer: CONSUMER_NAME });
+    throw new DeadLetterError('ContractViolation', (error as Error).message);
+  }
+}
+
+async function handleVerifyOrderMessage(message: ReceivedBusMessage): Promise<void> {
+  const body = parseVerifyOrderMessage(message);
+  const { orderId, idempotencyKey, items } = body.data;
   
   console.log(`[ASB Consumer] Received VerifyOrder for order: ${orderId}`);
   trackEvent('VerifyOrderReceived', { orderId });
   
+  const inbox: inboxRepository.InboxMessage = {
+    consumer: CONSUMER_NAME,
+    messageId: body.eventId,
+    eventType: body.eventType,
+  };
+  
   try {
-    // Check if reservation already exists (idempotent check)
-    const existing = await stockRepository.findReservationByOrderId(orderId);
+    if (await inboxRepository.isMessageProcessed(inbox)) {
+      console.log(`[ASB Consumer] Duplicate VerifyOrder ${body.eventId} for order ${orderId}, already processed`);
+      trackEvent('DuplicateMessageSkipped', { eventType: body.eventType, messageId: body.eventId });
+      return;
+    }
     
-    if (existing) {
-      // Reservation exists - order was successfully processed before crash
-      console.log(`[ASB Consumer] Order ${orderId} already has reservation ${existing.id}`);
-      
-      await publishInventoryEvent({
-        eventType: 'OrderVerified',
-        eventId: generateEventId(),
-        timestamp: new Date().toISOString(),
-        data: {
-          orderId,
-          productId,
-          quantity,
-          status: 'confirmed',
-          recoveredFromCrash: true,
-          reservationId: existing.id,
-        },
-      });
-      
+    // Idempotent: returns the existing reservation or attempts a new one.
+    // The inbox record and outcome events commit with any reservation made.
+    const result = await stockRepository.verifyOrderReservation(orderId, items, idempotencyKey, {
+      inboxMessage: inbox,
+      outboxEvents: (outcome) => buildOutcomeEvents(orderId, items, outcome),
+    });
+    
+    if (result.backordered) {
+      console.log(`[ASB Consumer] Order ${orderId} is backordered`);
+      trackEvent('OrderVerifiedBackordered', { orderId });
+    } else if (result.recoveredFromCrash) {
+      console.log(`[ASB Consumer] Order ${orderId} already has reservation ${result.reservationId}`);
       trackEvent('OrderVerifiedFromCrash', {
         orderId,
-        reservationId: existing.id,
+        reservationId: result.reservationId!,
       });
+    } else if (result.verified) {
+      console.log(`[ASB Consumer] No reservation found for order ${orderId}, created ${result.reservationId}`);
     } else {
-      // No reservation - try to create one
-      console.log(`[ASB Consumer] No reservation found for order ${orderId}, creating...`);
-      
-      const result = await stockRepository.reserveStock(
+      trackEvent('OrderVerificationFailed', {
         orderId,
-        productId,
-        quantity,
-        `verify-${idempotencyKey}` // Use idempotency key
-      );
-      
-      if (result.success) {
-        await publishInventoryEvent({
-          eventType: 'OrderVerified',
-          eventId: generateEventId(),
-          timestamp: new Date().toISOString(),
-          data: {
-            orderId,
-            productId,
-            quantity,
-            status: 'confirmed',
-            recoveredFromCrash: false,
-            reservationId: result.reservationId,
-          },
-        });
-        
-        // Also publish the stock reserved event
-        await publishInventoryEvent({
-          eventType: 'StockReserved',
-          eventId: generateEventId(),
-          timestamp: new Date().toISOString(),
-          data: {
-            orderId,
-            productId,
-            quantity,
-            remainingStock: result.remainingStock!,
-            reservationId: result.reservationId!,
-          },
-        });
-      } else {
-        await publishInventoryEvent({
-          eventType: 'OrderVerified',
-          eventId: generateEventId(),
-          timestamp: new Date().toISOString(),
-          data: {
-            orderId,
-            productId,
-            quantity,
-            status: 'not_found',
-            recoveredFromCrash: false,
-          },
-        });
-        
-        trackEvent('OrderVerificationFailed', {
-          orderId,
-          reason: result.message,
-        });
-      }
+        reason: result.message,
+      });
     }
   } catch (error) {
     console.error(`[ASB Consumer] Error processing VerifyOrder for ${orderId}:`, error);
@@ -149,18 +104,65 @@ async function handleVerifyOrderMessage(message: any): Promise<void> {
   }
 }
 
-async function handleError(args: ProcessErrorArgs): Promise<void> {
-  console.error('[ASB Consumer] Error:', args.error);
-  trackException(args.error, {
+/**
+ * The OrderVerified outcome, plus StockReserved when the verification made
+ * the reservation.
+ */
+function buildOutcomeEvents(
+  orderId: string,
+  items: OrderLine[],
+  result: stockRepository.VerifyResult
+): InventoryEvent[] {
+  const verified = (data: Omit<OrderVerifiedEvent['data'], 'orderId' | 'items'>): InventoryEvent => ({
+    eventType: 'OrderVerified',
+    eventId: generateEventId(),
+    timestamp: new Date().toISOString(),
+    data: { orderId, items, ...data },
+  });
+  
+  if (result.backordered) {
+    // The lost reservation call put the order on the backorder waitlist
+    return [verified({ status: 'backordered', recoveredFromCrash: true, reason: result.message })];
+  }
+  
+  if (result.recoveredFromCrash) {
+    // Reservation exists - order was successfully processed before crash
+    return [verified({ status: 'confirmed', recoveredFromCrash: true, reservationId: result.reservationId })];
+  }
+  
+  if (!result.verified) {
+    return [verified({ status: 'not_found', recoveredFromCrash: false, reason: result.message })];
+  }
+  
+  const events = [verified({ status: 'confirmed', recoveredFromCrash: false, reservationId: result.reservationId })];
+  
+  if (result.newlyReserved) {
+    events.push({
+      eventType: 'StockReserved',
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      data: {
+        orderId,
+        reservationId: result.reservationId!,
+        items: result.lines,
+      },
+    });
+  }
+  
+  return events;
+}
+
+async function handleError(error: Error): Promise<void> {
+  console.error('[ASB Consumer] Error:', error);
+  trackException(error, {
     context: 'asb_consumer_error',
-    errorSource: args.errorSource,
   });
 }
 
 export async function closeConsumer(): Promise<void> {
   try {
     if (verifyOrderReceiver) await verifyOrderReceiver.close();
-    if (serviceBusClient) await serviceBusClient.close();
+    verifyOrderReceiver = null;
     console.log('[ASB Consumer] Closed');
   } catch (error) {
     console.error('[ASB Consumer] Error closing:', error);
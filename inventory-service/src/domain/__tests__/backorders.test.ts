@@ -0,0 +1,225 @@
+import { fillBackorders } from '../backorders';
+import { trackEvent } from '../../telemetry';
+
+jest.mock('pg', () => ({ Pool: jest.fn(() => mockPool) }));
+jest.mock('../../publishers/inventoryPublisher', () => ({
+  generateEventId: () => `evt-${Math.random().toString(36).slice(2)}`,
+}));
+jest.mock('../../telemetry', () => ({
+  trackEvent: jest.fn(),
+  trackException: jest.fn(),
+}));
+
+interface BackorderRow {
+  id: string;
+  order_id: string;
+  position: number;
+  status: 'waiting' | 'filled' | 'cancelled';
+  idempotency_key: string | null;
+  ttl_seconds: number | null;
+  reservation_id?: string;
+}
+
+interface BackorderLineRow {
+  backorder_id: string;
+  product_id: string;
+  quantity: number;
+}
+
+/**
+ * Just enough of the inventory database for fillBackorders: every product
+ * is stocked at the single location 'main'. Statements are recorded so tests
+ * can check what was written and in which transaction.
+ */
+function createFakeDb(stock: Record<string, number>, backorders: Array<Omit<BackorderRow, 'status' | 'idempotency_key' | 'ttl_seconds'> & { lines: Record<string, number> }>) {
+  const products = Object.entries(stock).map(([id, units]) => ({ id, stock: units, archived_at: null }));
+  const backorderRows: BackorderRow[] = backorders.map(({ lines, ...row }) => ({
+    ...row,
+    status: 'waiting',
+    idempotency_key: null,
+    ttl_seconds: null,
+  }));
+  const lineRows: BackorderLineRow[] = backorders.flatMap(({ id, lines }) =>
+    Object.entries(lines).map(([productId, quantity]) => ({ backorder_id: id, product_id: productId, quantity }))
+  );
+  const statements: string[] = [];
+  const outbox: any[] = [];
+  let failOutbox = false;
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    statements.push(text);
+
+    if (/^(BEGIN|COMMIT|ROLLBACK|SELECT 1)$/.test(text)) {
+      return { rows: [] };
+    }
+    if (text.startsWith('SELECT DISTINCT l.product_id')) {
+      const waiting = backorderRows.filter(row => row.status === 'waiting').map(row => row.id);
+      const ids = [...new Set(lineRows.filter(line => waiting.includes(line.backorder_id)).map(line => line.product_id))];
+      return { rows: ids.sort().map(product_id => ({ product_id })) };
+    }
+    if (text.startsWith('SELECT * FROM products WHERE id = ANY')) {
+      return { rows: products.filter(row => params[0].includes(row.id)).map(row => ({ ...row })) };
+    }
+    if (text.startsWith("SELECT * FROM backorders WHERE status = 'waiting'")) {
+      return { rows: backorderRows.filter(row => row.status === 'waiting').sort((a, b) => a.position - b.position) };
+    }
+    if (text.startsWith('SELECT * FROM backorder_lines')) {
+      return { rows: lineRows.filter(line => params[0].includes(line.backorder_id)) };
+    }
+    if (text.startsWith('SELECT l.id, l.priority')) {
+      return { rows: [{ id: 'main', priority: 1, stock: products.find(row => row.id === params[0])?.stock || 0 }] };
+    }
+    if (text.startsWith('UPDATE products SET stock')) {
+      products.find(row => row.id === params[1])!.stock = params[0];
+      return { rows: [] };
+    }
+    if (text.startsWith("UPDATE backorders SET status = 'filled'")) {
+      Object.assign(backorderRows.find(row => row.id === params[0])!, { status: 'filled', reservation_id: params[1] });
+      return { rows: [] };
+    }
+    if (text.startsWith('INSERT INTO outbox')) {
+      if (failOutbox) {
+        throw new Error('outbox insert failed');
+      }
+      outbox.push(JSON.parse(params[1]));
+      return { rows: [] };
+    }
+    if (/^(INSERT INTO (reservation_batches|reservations|stock_audit_log)|UPDATE product_locations)/.test(text)) {
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  });
+
+  return {
+    client: { query, release: jest.fn() },
+    products,
+    backorders: backorderRows,
+    statements,
+    outbox,
+    failOutboxInserts: () => {
+      failOutbox = true;
+    },
+  };
+}
+
+let db: ReturnType<typeof createFakeDb>;
+const mockPool = {
+  connect: async () => db.client,
+  query: (sql: string, params?: any[]) => db.client.query(sql, params),
+  on: jest.fn(),
+};
+
+function stockOf(productId: string): number {
+  return db.products.find(row => row.id === productId)!.stock;
+}
+
+function statusOf(backorderId: string): string {
+  return db.backorders.find(row => row.id === backorderId)!.status;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fillBackorders', () => {
+  it('fills waiting backorders in queue order while stock lasts', async () => {
+    db = createFakeDb({ 'SKU-001': 5 }, [
+      { id: 'BO-2', order_id: 'ORD-2', position: 2, lines: { 'SKU-001': 2 } },
+      { id: 'BO-1', order_id: 'ORD-1', position: 1, lines: { 'SKU-001': 3 } },
+      { id: 'BO-3', order_id: 'ORD-3', position: 3, lines: { 'SKU-001': 1 } },
+    ]);
+
+    const filled = await fillBackorders('restock');
+
+    expect(filled.map(backorder => backorder.orderId)).toEqual(['ORD-1', 'ORD-2']);
+    expect(statusOf('BO-3')).toBe('waiting');
+    expect(stockOf('SKU-001')).toBe(0);
+  });
+
+  it('does not let a later, smaller backorder jump the head of the queue', async () => {
+    db = createFakeDb({ 'SKU-001': 4 }, [
+      { id: 'BO-1', order_id: 'ORD-1', position: 1, lines: { 'SKU-001': 5 } },
+      { id: 'BO-2', order_id: 'ORD-2', position: 2, lines: { 'SKU-001': 2 } },
+    ]);
+
+    const filled = await fillBackorders('restock');
+
+    expect(filled).toEqual([]);
+    expect(statusOf('BO-1')).toBe('waiting');
+    expect(statusOf('BO-2')).toBe('waiting');
+    expect(stockOf('SKU-001')).toBe(4);
+  });
+
+  it('does not hold up backorders for other products', async () => {
+    db = createFakeDb({ 'SKU-001': 0, 'SKU-002': 3 }, [
+      { id: 'BO-1', order_id: 'ORD-1', position: 1, lines: { 'SKU-001': 1 } },
+      { id: 'BO-2', order_id: 'ORD-2', position: 2, lines: { 'SKU-002': 2 } },
+    ]);
+
+    const filled = await fillBackorders('restock');
+
+    expect(filled.map(backorder => backorder.orderId)).toEqual(['ORD-2']);
+    expect(stockOf('SKU-002')).toBe(1);
+  });
+
+  it('fills a multi-line backorder whole or not at all, keeping its place for every product', async () => {
+    db = createFakeDb({ 'SKU-001': 2, 'SKU-002': 3 }, [
+      { id: 'BO-1', order_id: 'ORD-1', position: 1, lines: { 'SKU-001': 2, 'SKU-002': 5 } },
+      { id: 'BO-2', order_id: 'ORD-2', position: 2, lines: { 'SKU-001': 1 } },
+    ]);
+
+    const filled = await fillBackorders('restock');
+
+    expect(filled).toEqual([]);
+    expect(stockOf('SKU-001')).toBe(2);
+    expect(stockOf('SKU-002')).toBe(3);
+  });
+
+  it('writes a StockReserved per filled backorder to the outbox before committing', async () => {
+    db = createFakeDb({ 'SKU-001': 5, 'SKU-002': 5 }, [
+      { id: 'BO-1', order_id: 'ORD-1', position: 1, lines: { 'SKU-001': 2, 'SKU-002': 1 } },
+    ]);
+
+    const [backorder] = await fillBackorders('restock');
+
+    expect(db.outbox).toEqual([
+      expect.objectContaining({
+        eventType: 'StockReserved',
+        data: expect.objectContaining({
+          orderId: 'ORD-1',
+          reservationId: backorder.reservationId,
+          backorderId: 'BO-1',
+          items: [
+            expect.objectContaining({ productId: 'SKU-001', quantity: 2, remainingStock: 3 }),
+            expect.objectContaining({ productId: 'SKU-002', quantity: 1, remainingStock: 4 }),
+          ],
+        }),
+      }),
+    ]);
+    expect(db.statements.findIndex(text => text.startsWith('INSERT INTO outbox')))
+      .toBeLessThan(db.statements.indexOf('COMMIT'));
+    expect(trackEvent).toHaveBeenCalledWith('BackorderFilled', expect.objectContaining({ backorderId: 'BO-1' }));
+  });
+
+  it('rolls the fill back when its events cannot be written', async () => {
+    db = createFakeDb({ 'SKU-001': 5 }, [
+      { id: 'BO-1', order_id: 'ORD-1', position: 1, lines: { 'SKU-001': 2 } },
+    ]);
+    db.failOutboxInserts();
+
+    const filled = await fillBackorders('restock');
+
+    expect(filled).toEqual([]);
+    expect(db.statements).toContain('ROLLBACK');
+    expect(db.statements).not.toContain('COMMIT');
+    expect(trackEvent).not.toHaveBeenCalledWith('BackorderFilled', expect.anything());
+    expect(db.client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { allocate, LocationAvailability } from '../stockAllocation';
+
+const locations: LocationAvailability[] = [
+  { locationId: 'east', priority: 2, stock: 8 },
+  { locationId: 'main', priority: 1, stock: 5 },
+  { locationId: 'west', priority: 3, stock: 20 },
+];
+
+describe('allocate', () => {
+  describe('preferred', () => {
+    it('takes the whole line from the first location in priority order that can fill it', () => {
+      expect(allocate(4, locations, 'preferred')).toEqual([{ locationId: 'main', quantity: 4 }]);
+      expect(allocate(7, locations, 'preferred')).toEqual([{ locationId: 'east', quantity: 7 }]);
+    });
+
+    it('splits in priority order when no single location can fill the line', () => {
+      expect(allocate(30, locations, 'preferred')).toEqual([
+        { locationId: 'main', quantity: 5 },
+        { locationId: 'east', quantity: 8 },
+        { locationId: 'west', quantity: 17 },
+      ]);
+    });
+
+    it('puts PREFERRED_LOCATION ahead of priority', () => {
+      process.env.PREFERRED_LOCATION = 'west';
+      try {
+        jest.isolateModules(() => {
+          const allocation = require('../stockAllocation') as typeof import('../stockAllocation');
+          expect(allocation.allocate(4, locations, 'preferred')).toEqual([{ locationId: 'west', quantity: 4 }]);
+        });
+      } finally {
+        delete process.env.PREFERRED_LOCATION;
+      }
+    });
+  });
+
+  describe('most_stock', () => {
+    it('takes the line from the location with the most stock', () => {
+      expect(allocate(4, locations, 'most_stock')).toEqual([{ locationId: 'west', quantity: 4 }]);
+    });
+
+    it('splits from the fullest location down', () => {
+      expect(allocate(30, locations, 'most_stock')).toEqual([
+        { locationId: 'west', quantity: 20 },
+        { locationId: 'east', quantity: 8 },
+        { locationId: 'main', quantity: 2 },
+      ]);
+    });
+
+    it('breaks ties by priority', () => {
+      const tied = [
+        { locationId: 'b', priority: 2, stock: 10 },
+        { locationId: 'a', priority: 1, stock: 10 },
+      ];
+      expect(allocate(3, tied, 'most_stock')).toEqual([{ locationId: 'a', quantity: 3 }]);
+    });
+  });
+
+  describe('split', () => {
+    it('drains locations in priority order even when one could fill the line', () => {
+      expect(allocate(10, locations, 'split')).toEqual([
+        { locationId: 'main', quantity: 5 },
+        { locationId: 'east', quantity: 5 },
+      ]);
+    });
+
+    it('skips empty locations', () => {
+      const withEmpty = [{ locationId: 'main', priority: 1, stock: 0 }, ...locations.slice(0, 1)];
+      expect(allocate(3, withEmpty, 'split')).toEqual([{ locationId: 'east', quantity: 3 }]);
+    });
+  });
+
+  it.each(['preferred', 'most_stock', 'split'] as const)('%s returns null when the locations cannot cover the line', strategy => {
+    expect(allocate(34, locations, strategy)).toBeNull();
+    expect(allocate(1, [], strategy)).toBeNull();
+  });
+
+  it('does not reorder the caller\'s locations', () => {
+    const before = locations.map(location => location.locationId);
+    allocate(30, locations, 'most_stock');
+    expect(locations.map(location => location.locationId)).toEqual(before);
+  });
+});
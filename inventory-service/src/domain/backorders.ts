@@ -0,0 +1,50 @@
+import * as stockRepository from './stockRepository';
+import type { FilledBackorder } from './stockRepository';
+import type { InventoryEvent } from '../../../shared/contracts';
+import { generateEventId } from '../publishers/inventoryPublisher';
+import { trackException } from '../telemetry';
+
+/**
+ * Backorders
+ * Orders accepted while out of stock wait on a FIFO waitlist. Whenever stock
+ * goes up - a restock, an upward count or a released reservation - the
+ * waitlist is filled in arrival order and each filled order gets a
+ * StockReserved event through the outbox, which confirms it in the order
+ * service.
+ */
+
+/**
+ * Fill what the waitlist can take. Never throws: a failed pass leaves the
+ * backorders waiting for the next one.
+ */
+export async function fillBackorders(trigger: string): Promise<FilledBackorder[]> {
+  let filled: FilledBackorder[];
+  
+  try {
+    filled = await stockRepository.fillBackorders(toStockReserved);
+  } catch (error) {
+    console.error(`[Backorders] Fill after ${trigger} failed:`, error);
+    trackException(error as Error, { operation: 'fillBackorders', trigger });
+    return [];
+  }
+  
+  for (const backorder of filled) {
+    console.log(`[Backorders] Filled backorder ${backorder.backorderId} for order ${backorder.orderId} (${trigger}), reservation ${backorder.reservationId}`);
+  }
+  
+  return filled;
+}
+
+function toStockReserved(backorder: FilledBackorder): InventoryEvent[] {
+  return [{
+    eventType: 'StockReserved',
+    eventId: generateEventId(),
+    timestamp: new Date().toISOString(),
+    data: {
+      orderId: backorder.orderId,
+      reservationId: backorder.reservationId,
+      items: backorder.lines,
+      backorderId: backorder.backorderId,
+    },
+  }];
+}
@@ -0,0 +1,154 @@
+import * as stockRepository from './stockRepository';
+import type { NewProduct, ProductChangeResult, ProductChanges } from './stockRepository';
+import { publishProductChanged } from '../publishers/inventoryPublisher';
+import { trackEvent } from '../telemetry';
+
+/**
+ * Product Catalog
+ * Validation and change publishing shared by the admin REST routes and the
+ * catalog gRPC methods. Every applied change publishes ProductCreated or
+ * ProductUpdated on inventory-events.
+ */
+
+const PRODUCT_ID_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+const MAX_NAME_LENGTH = 255;
+// products.price is DECIMAL(10, 2)
+const MAX_PRICE = 99999999.99;
+
+export type Validated<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+function validateName(name: unknown): string | undefined {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name is required';
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  return undefined;
+}
+
+function validatePrice(price: unknown): string | undefined {
+  if (typeof price !== 'number' || !Number.isFinite(price) || price < 0 || price > MAX_PRICE) {
+    return `price must be a number between 0 and ${MAX_PRICE}`;
+  }
+  if (Math.abs(price * 100 - Math.round(price * 100)) > 1e-6) {
+    return 'price must have at most two decimal places';
+  }
+  return undefined;
+}
+
+function validateCount(field: string, value: unknown): string | undefined {
+  return Number.isInteger(value) && (value as number) >= 0 ? undefined : `${field} must be a non-negative integer`;
+}
+
+export function validateNewProduct(input: any): Validated<NewProduct> {
+  if (typeof input?.id !== 'string' || !PRODUCT_ID_PATTERN.test(input.id)) {
+    return { error: 'id must be 1-50 letters, digits, dashes or underscores' };
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    return { error: 'description must be a string' };
+  }
+  if (input.locationId !== undefined && (typeof input.locationId !== 'string' || !input.locationId)) {
+    return { error: 'locationId must be a location id' };
+  }
+
+  const error = validateName(input.name)
+    || validatePrice(input.price)
+    || validateCount('stock', input.stock ?? 0)
+    || validateCount('lowStockThreshold', input.lowStockThreshold ?? 10)
+    || validateCount('backorderLimit', input.backorderLimit ?? 0);
+  if (error) {
+    return { error };
+  }
+
+  return {
+    value: {
+      id: input.id,
+      name: input.name.trim(),
+      description: input.description || '',
+      price: input.price,
+      stock: input.stock ?? 0,
+      lowStockThreshold: input.lowStockThreshold ?? 10,
+      backorderLimit: input.backorderLimit ?? 0,
+      ...(input.locationId ? { locationId: input.locationId } : {}),
+    },
+  };
+}
+
+/**
+ * Validate a partial update: only the fields present are checked and applied.
+ */
+export function validateProductChanges(input: any): Validated<ProductChanges> {
+  const changes: ProductChanges = {};
+
+  if (input?.name !== undefined) {
+    const error = validateName(input.name);
+    if (error) return { error };
+    changes.name = input.name.trim();
+  }
+  if (input?.description !== undefined) {
+    if (typeof input.description !== 'string') return { error: 'description must be a string' };
+    changes.description = input.description;
+  }
+  if (input?.price !== undefined) {
+    const error = validatePrice(input.price);
+    if (error) return { error };
+    changes.price = input.price;
+  }
+  if (input?.lowStockThreshold !== undefined) {
+    const error = validateCount('lowStockThreshold', input.lowStockThreshold);
+    if (error) return { error };
+    changes.lowStockThreshold = input.lowStockThreshold;
+  }
+  if (input?.backorderLimit !== undefined) {
+    const error = validateCount('backorderLimit', input.backorderLimit);
+    if (error) return { error };
+    changes.backorderLimit = input.backorderLimit;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: 'Nothing to update: pass name, description, price, lowStockThreshold or backorderLimit' };
+  }
+  return { value: changes };
+}
+
+/**
+ * Read the updatedAt a client last saw, required for updates.
+ */
+export function parseExpectedUpdatedAt(value: unknown): Validated<Date> {
+  const date = typeof value === 'string' && value ? new Date(value) : null;
+  return date && !isNaN(date.getTime())
+    ? { value: date }
+    : { error: 'expectedUpdatedAt must be the ISO 8601 updatedAt of the product as last read' };
+}
+
+async function published(result: ProductChangeResult, created: boolean, source: string): Promise<ProductChangeResult> {
+  if (result.status === 'applied' && result.product) {
+    await publishProductChanged(created, result.product);
+    console.log(`[Catalog] ${created ? 'Created' : 'Updated'} product ${result.product.id} (${source}): ${result.message}`);
+    trackEvent(created ? 'ProductCreated' : 'ProductUpdated', { productId: result.product.id, source });
+  }
+  return result;
+}
+
+export async function createProduct(input: NewProduct, source: string): Promise<ProductChangeResult> {
+  return published(await stockRepository.createProduct(input), true, source);
+}
+
+export async function updateProduct(
+  productId: string,
+  changes: ProductChanges,
+  expectedUpdatedAt: Date,
+  source: string
+): Promise<ProductChangeResult> {
+  return published(await stockRepository.updateProduct(productId, changes, expectedUpdatedAt), false, source);
+}
+
+export async function setProductArchived(
+  productId: string,
+  archived: boolean,
+  expectedUpdatedAt: Date | undefined,
+  source: string
+): Promise<ProductChangeResult> {
+  return published(await stockRepository.setProductArchived(productId, archived, expectedUpdatedAt), false, source);
+}
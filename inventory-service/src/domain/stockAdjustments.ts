@@ -0,0 +1,148 @@
+import * as stockRepository from './stockRepository';
+import type {
+  StockMovementInput,
+  StockMovementKind,
+  StockMovementResult,
+  StockTransferInput,
+  StockTransferResult,
+} from './stockRepository';
+import type { Validated } from './productCatalog';
+import { publishStockMovement, publishStockTransferred } from '../publishers/inventoryPublisher';
+import { fillBackorders } from './backorders';
+import { trackEvent } from '../telemetry';
+
+/**
+ * Stock Adjustments
+ * Stock movements made by warehouse staff at one location: receiving a
+ * restock, writing off damaged or lost units and setting stock to a cycle
+ * count. Each one needs a reason code for its kind and the ID of the person
+ * making it, is written to stock_audit_log and publishes StockReplenished or
+ * StockAdjusted. Transfers between locations publish StockTransferred.
+ * Movements that add stock then fill the backorder waitlist.
+ */
+
+export const REASON_CODES: Record<StockMovementKind, readonly string[]> = {
+  restock: ['purchase_order', 'customer_return', 'transfer_in', 'found'],
+  write_off: ['damaged', 'expired', 'lost', 'stolen', 'transfer_out'],
+  count: ['cycle_count', 'correction'],
+};
+
+const MAX_QUANTITY = 1000000;
+const MAX_ACTOR_ID_LENGTH = 100;
+const MAX_NOTE_LENGTH = 500;
+
+function validateActor(input: any): string | undefined {
+  if (typeof input?.actorId !== 'string' || !input.actorId.trim() || input.actorId.trim().length > MAX_ACTOR_ID_LENGTH) {
+    return `actorId is required (at most ${MAX_ACTOR_ID_LENGTH} characters)`;
+  }
+  if (input.note !== undefined && (typeof input.note !== 'string' || input.note.length > MAX_NOTE_LENGTH)) {
+    return `note must be a string of at most ${MAX_NOTE_LENGTH} characters`;
+  }
+  return undefined;
+}
+
+/**
+ * Check a movement request. quantity is the units received or written off,
+ * or for a count the units counted on the shelf, reserved ones included.
+ * locationId defaults to DEFAULT_LOCATION.
+ */
+export function validateStockMovement(kind: StockMovementKind, input: any): Validated<StockMovementInput> {
+  const quantity = input?.quantity;
+  const minimum = kind === 'count' ? 0 : 1;
+
+  if (!Number.isInteger(quantity) || quantity < minimum || quantity > MAX_QUANTITY) {
+    return { error: `quantity must be an integer between ${minimum} and ${MAX_QUANTITY}` };
+  }
+  if (!REASON_CODES[kind].includes(input.reasonCode)) {
+    return { error: `reasonCode must be one of ${REASON_CODES[kind].join(', ')}` };
+  }
+  if (input.locationId !== undefined && (typeof input.locationId !== 'string' || !input.locationId)) {
+    return { error: 'locationId must be a location id' };
+  }
+  const error = validateActor(input);
+  if (error) {
+    return { error };
+  }
+
+  return {
+    value: {
+      kind,
+      quantity,
+      ...(input.locationId ? { locationId: input.locationId } : {}),
+      reasonCode: input.reasonCode,
+      actorId: input.actorId.trim(),
+      ...(input.note ? { note: input.note } : {}),
+    },
+  };
+}
+
+export async function moveStock(productId: string, input: StockMovementInput): Promise<StockMovementResult> {
+  const result = await stockRepository.adjustStock(productId, input);
+
+  if (result.status === 'applied' && result.movement) {
+    const { movement } = result;
+    await publishStockMovement(movement);
+    console.log(`[Stock] ${input.kind} of ${productId} at ${movement.locationId} by ${input.actorId} (${input.reasonCode}): ${movement.previousStock} -> ${movement.newStock}`);
+    trackEvent(input.kind === 'restock' ? 'StockReplenished' : 'StockAdjusted', {
+      productId,
+      kind: input.kind,
+      locationId: movement.locationId,
+      quantityChange: movement.quantityChange.toString(),
+      reasonCode: input.reasonCode,
+      actorId: input.actorId,
+    });
+
+    if (movement.quantityChange > 0) {
+      await fillBackorders(`${input.kind} of ${productId}`);
+    }
+  }
+
+  return result;
+}
+
+export function validateStockTransfer(input: any): Validated<StockTransferInput> {
+  const quantity = input?.quantity;
+
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+    return { error: `quantity must be an integer between 1 and ${MAX_QUANTITY}` };
+  }
+  if (typeof input.fromLocationId !== 'string' || typeof input.toLocationId !== 'string'
+    || !input.fromLocationId || !input.toLocationId) {
+    return { error: 'fromLocationId and toLocationId are required' };
+  }
+  if (input.fromLocationId === input.toLocationId) {
+    return { error: 'fromLocationId and toLocationId must differ' };
+  }
+  const error = validateActor(input);
+  if (error) {
+    return { error };
+  }
+
+  return {
+    value: {
+      fromLocationId: input.fromLocationId,
+      toLocationId: input.toLocationId,
+      quantity,
+      actorId: input.actorId.trim(),
+      ...(input.note ? { note: input.note } : {}),
+    },
+  };
+}
+
+export async function transferStock(productId: string, input: StockTransferInput): Promise<StockTransferResult> {
+  const result = await stockRepository.transferStock(productId, input);
+
+  if (result.status === 'applied' && result.transfer) {
+    await publishStockTransferred(result.transfer);
+    console.log(`[Stock] Transfer of ${input.quantity} x ${productId} by ${input.actorId}: ${input.fromLocationId} -> ${input.toLocationId}`);
+    trackEvent('StockTransferred', {
+      productId,
+      fromLocationId: input.fromLocationId,
+      toLocationId: input.toLocationId,
+      quantity: input.quantity.toString(),
+      actorId: input.actorId,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,84 @@
+/**
+ * Stock Allocation
+ * Decides which locations a reserved line draws from. ALLOCATION_STRATEGY:
+ *   preferred  - the first location in priority order that can fill the
+ *                whole line; PREFERRED_LOCATION (if set) comes first
+ *   most_stock - the location with the most available stock
+ *   split      - drain locations in priority order until the line is filled
+ * When no single location can fill the line, preferred and most_stock split
+ * it in their own location order rather than fail while stock is available.
+ */
+
+export type AllocationStrategy = 'preferred' | 'most_stock' | 'split';
+
+const STRATEGIES: AllocationStrategy[] = ['preferred', 'most_stock', 'split'];
+
+export interface LocationAvailability {
+  locationId: string;
+  priority: number;
+  stock: number;
+}
+
+export interface Allocation {
+  locationId: string;
+  quantity: number;
+}
+
+function readStrategy(): AllocationStrategy {
+  const configured = process.env.ALLOCATION_STRATEGY || 'preferred';
+
+  if (!STRATEGIES.includes(configured as AllocationStrategy)) {
+    console.warn(`[Allocation] Unknown ALLOCATION_STRATEGY '${configured}', using preferred`);
+    return 'preferred';
+  }
+
+  return configured as AllocationStrategy;
+}
+
+export const ALLOCATION_STRATEGY = readStrategy();
+const PREFERRED_LOCATION = process.env.PREFERRED_LOCATION || '';
+
+// Where restocks and new products' initial stock go when no location is given
+export const DEFAULT_LOCATION = process.env.DEFAULT_LOCATION || 'main';
+
+function byPriority(a: LocationAvailability, b: LocationAvailability): number {
+  const preferredFirst = Number(b.locationId === PREFERRED_LOCATION) - Number(a.locationId === PREFERRED_LOCATION);
+  return preferredFirst || a.priority - b.priority || a.locationId.localeCompare(b.locationId);
+}
+
+function byStock(a: LocationAvailability, b: LocationAvailability): number {
+  return b.stock - a.stock || byPriority(a, b);
+}
+
+/**
+ * Split quantity across locations. Returns null when they do not hold
+ * enough between them.
+ */
+export function allocate(
+  quantity: number,
+  locations: LocationAvailability[],
+  strategy: AllocationStrategy = ALLOCATION_STRATEGY
+): Allocation[] | null {
+  const ordered = [...locations].sort(strategy === 'most_stock' ? byStock : byPriority);
+
+  if (strategy !== 'split') {
+    const whole = ordered.find(location => location.stock >= quantity);
+    if (whole) {
+      return [{ locationId: whole.locationId, quantity }];
+    }
+  }
+
+  const allocations: Allocation[] = [];
+  let remaining = quantity;
+
+  for (const location of ordered) {
+    if (remaining === 0) break;
+    const taken = Math.min(location.stock, remaining);
+    if (taken > 0) {
+      allocations.push({ locationId: location.locationId, quantity: taken });
+      remaining -= taken;
+    }
+  }
+
+  return remaining === 0 ? allocations : null;
+}
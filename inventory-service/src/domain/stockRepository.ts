@@ -1,6 +1,12 @@
 import { Pool, PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import { trackException, trackEvent } from '../telemetry';
+import { traced } from '../../../shared/tracing';
+import { insertOutboxMessages } from '../../../shared/outbox';
+import type { InventoryEvent } from '../../../shared/contracts';
+import { registerPoolMetrics } from '../../../shared/metrics';
+import { allocate, Allocation, DEFAULT_LOCATION } from './stockAllocation';
+import { insertInboxMessage, InboxMessage } from './inboxRepository';
 
 // Types
 export interface Product {
@@ -10,8 +16,142 @@ export interface Product {
   price: number;
   stock: number;
   lowStockThreshold: number;
+  // Units that may wait on the backorder waitlist beyond stock; 0 disables backorders
+  backorderLimit: number;
+  // Archived products are left out of the catalog and cannot be reserved
+  archivedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  // Per-location breakdown, on getProduct and getAllProducts
+  locations?: LocationStock[];
+}
+
+export interface NewProduct {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  stock: number;
+  lowStockThreshold: number;
+  backorderLimit: number;
+  // Where the initial stock is; DEFAULT_LOCATION when omitted
+  locationId?: string;
+}
+
+export interface ProductChanges {
+  name?: string;
+  description?: string;
+  price?: number;
+  lowStockThreshold?: number;
+  backorderLimit?: number;
+}
+
+// unchanged: archiving an archived product (or unarchiving an active one)
+export type ProductChangeStatus = 'applied' | 'unchanged' | 'not_found' | 'conflict' | 'already_exists';
+
+export interface ProductChangeResult {
+  success: boolean;
+  message: string;
+  status: ProductChangeStatus;
+  // After the change; as it is now when the change was not applied
+  product?: Product;
+}
+
+// restock: units received; write_off: damaged or lost units taken out;
+// count: stock set to a cycle count
+export type StockMovementKind = 'restock' | 'write_off' | 'count';
+
+export interface StockMovementInput {
+  kind: StockMovementKind;
+  // Units received or written off; for count, the units counted on the shelf
+  quantity: number;
+  // DEFAULT_LOCATION when omitted
+  locationId?: string;
+  reasonCode: string;
+  actorId: string;
+  note?: string;
+}
+
+// location_not_found: no such location
+export type StockMovementStatus = 'applied' | 'not_found' | 'location_not_found' | 'insufficient_stock';
+
+export interface StockMovementResult {
+  success: boolean;
+  message: string;
+  status: StockMovementStatus;
+  movement?: {
+    productId: string;
+    kind: StockMovementKind;
+    locationId: string;
+    quantityChange: number;
+    // Available stock across locations, before and after
+    previousStock: number;
+    newStock: number;
+    // Available stock at the location after the movement
+    locationStock: number;
+    // Held by active reservations at the location
+    reservedStock: number;
+    lowStockThreshold: number;
+    reasonCode: string;
+    actorId: string;
+    note?: string;
+  };
+}
+
+export interface Location {
+  id: string;
+  name: string;
+  // Lower is allocated first
+  priority: number;
+  createdAt: Date;
+}
+
+// One location's share of a product's stock
+export interface LocationStock {
+  locationId: string;
+  locationName: string;
+  onHandStock: number;
+  reservedStock: number;
+  availableStock: number;
+}
+
+// products.stock is decremented at reserve time, so it already is the
+// available count; on-hand adds back units held by active reservations
+export interface StockLevel {
+  productId: string;
+  productName: string;
+  onHandStock: number;
+  reservedStock: number;
+  availableStock: number;
+  lowStockThreshold: number;
+  locations: LocationStock[];
+}
+
+export interface StockTransferInput {
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  actorId: string;
+  note?: string;
+}
+
+export type StockTransferStatus = 'applied' | 'not_found' | 'location_not_found' | 'insufficient_stock';
+
+export interface StockTransferResult {
+  success: boolean;
+  message: string;
+  status: StockTransferStatus;
+  transfer?: {
+    productId: string;
+    fromLocationId: string;
+    toLocationId: string;
+    quantity: number;
+    // Available stock at each location after the transfer
+    fromStock: number;
+    toStock: number;
+    actorId: string;
+    note?: string;
+  };
 }
 
 export interface Reservation {
@@ -21,6 +161,9 @@ export interface Reservation {
   quantity: number;
   status: 'active' | 'released' | 'committed';
   idempotencyKey: string | null;
+  batchId: string | null;
+  locationId: string | null;
+  expiresAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -30,18 +173,203 @@ export interface ReserveResult {
   message: string;
   reservationId?: string;
   remainingStock?: number;
-  status: 'confirmed' | 'insufficient_stock' | 'product_not_found' | 'already_exists';
+  status: 'confirmed' | 'insufficient_stock' | 'product_not_found' | 'already_exists' | 'backordered';
+}
+
+export interface StockLine {
+  productId: string;
+  quantity: number;
+}
+
+// A line split across locations is reserved as one row per location
+export interface ReservedLine {
+  productId: string;
+  quantity: number;
+  reservationId: string;
+  remainingStock: number;
+  locationId: string;
+}
+
+export interface BatchReserveResult {
+  success: boolean;
+  message: string;
+  // Batch handle; release it to release every line
+  reservationId?: string;
+  lines: ReservedLine[];
+  status: ReserveResult['status'];
+  failedProductId?: string;
+  // Set when the order was put on the backorder waitlist instead
+  backorderId?: string;
+}
+
+export interface VerifyResult {
+  verified: boolean;
+  message: string;
+  reservationId?: string;
+  lines: ReservedLine[];
+  recoveredFromCrash: boolean;
+  newlyReserved: boolean;
+  // The order is waiting on the backorder waitlist
+  backordered: boolean;
+}
+
+// Written in verifyOrderReservation's transaction
+export interface VerifyEffects {
+  inboxMessage?: InboxMessage;
+  outboxEvents?: (result: VerifyResult) => InventoryEvent[];
+}
+
+export interface ReleasedLine {
+  reservationId: string;
+  productId: string;
+  locationId: string | null;
+  quantity: number;
+  previousStock: number;
+  newStock: number;
+  lowStockThreshold: number;
+}
+
+export interface ExpiredReservation {
+  orderId: string;
+  // Single reservation id or batch handle
+  reservationId: string;
+  lines: ReleasedLine[];
 }
 
 export interface ReleaseResult {
   success: boolean;
   message: string;
   newStock?: number;
+  // A repeat of the release that settled the reservation, with the same reason
+  alreadyReleased?: boolean;
+  lines: ReleasedLine[];
+}
+
+export interface CommittedLine {
+  reservationId: string;
+  productId: string;
+  quantity: number;
+}
+
+export interface CommitResult {
+  success: boolean;
+  message: string;
+  alreadyCommitted: boolean;
+  lines: CommittedLine[];
+}
+
+export interface ConfirmResult {
+  success: boolean;
+  message: string;
+}
+
+export type BackorderStatus = 'waiting' | 'filled' | 'cancelled';
+
+export interface Backorder {
+  id: string;
+  orderId: string;
+  // Arrival order on the waitlist
+  position: number;
+  status: BackorderStatus;
+  lines: StockLine[];
+  // Batch handle once filled
+  reservationId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FilledBackorder {
+  backorderId: string;
+  orderId: string;
+  // Batch handle of the reservation made for it
+  reservationId: string;
+  lines: ReservedLine[];
+}
+
+export interface CancelBackorderResult {
+  success: boolean;
+  message: string;
+  // filled: the order already holds a reservation, given in reservationId
+  status: BackorderStatus | 'not_found';
+  reservationId?: string;
+}
+
+export interface ReservationExportFilter {
+  statuses?: Reservation['status'][];
+  orderIds?: string[];
+}
+
+export interface ReservationPage {
+  reservations: Reservation[];
+  // Id to pass as after for the next page; null on the last page
+  nextAfter: string | null;
+}
+
+// One stock_audit_log row
+export interface StockAuditEntry {
+  id: number;
+  productId: string;
+  operation: 'reserve' | 'release' | 'commit' | 'restock' | 'adjust' | 'transfer';
+  quantityChange: number;
+  previousStock: number;
+  newStock: number;
+  locationId: string | null;
+  locationChange: number;
+  orderId: string | null;
+  reservationId: string | null;
+  reason: string | null;
+  reasonCode: string | null;
+  actorId: string | null;
+  createdAt: Date;
+}
+
+export interface StockAuditFilter {
+  productIds?: string[];
+  locationIds?: string[];
+  operations?: StockAuditEntry['operation'][];
+  orderId?: string;
+  // A reservation line or a batch handle (matches every line in the batch)
+  reservationId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface StockAuditPage {
+  entries: StockAuditEntry[];
+  // Id to pass as after for the next page; null on the last page
+  nextAfter: number | null;
+}
+
+// products.stock against what its audit rows add up to
+export interface LedgerBalance {
+  productId: string;
+  stock: number;
+  // Sum of quantity_change over every audit row of the product
+  ledgerStock: number;
+  entries: number;
+  // Rows whose previous_stock is not the new_stock of the row before, or
+  // whose quantity_change is not new_stock - previous_stock
+  brokenEntries: number;
+  // new_stock of the latest row; null without any
+  lastNewStock: number | null;
+  // Sum of product_locations.stock
+  locationStock: number;
+  // Locations whose stock is not the sum of their rows' location_change
+  mismatchedLocations: string[];
+}
+
+// Default hold time for new reservations (overridable per request)
+const DEFAULT_RESERVATION_TTL_SECONDS = parseInt(process.env.RESERVATION_TTL_SECONDS || '3600', 10);
+
+function resolveTtlSeconds(ttlSeconds?: number): number {
+  return ttlSeconds && ttlSeconds > 0 ? ttlSeconds : DEFAULT_RESERVATION_TTL_SECONDS;
 }
 
 // Database connection pool
 let pool: Pool;
 
+registerPoolMetrics('inventory', () => pool);
+
 export async function initPool(): Promise<void> {
   pool = new Pool({
     host: process.env.DB_HOST || 'inventory-db',
@@ -73,8 +401,47 @@ export async function getPool(): Promise<Pool> {
   return pool;
 }
 
+/**
+ * Per-location stock of the given products (all when null), in allocation
+ * priority order.
+ */
+async function getLocationStock(productIds: string[] | null): Promise<Map<string, LocationStock[]>> {
+  const result = await (await getPool()).query(
+    `SELECT pl.product_id, l.id AS location_id, l.name, pl.stock,
+            COALESCE(r.reserved, 0)::int AS reserved
+     FROM product_locations pl
+     JOIN locations l ON l.id = pl.location_id
+     LEFT JOIN (
+       SELECT product_id, location_id, SUM(quantity) AS reserved
+       FROM reservations
+       WHERE status = 'active'
+       GROUP BY product_id, location_id
+     ) r ON r.product_id = pl.product_id AND r.location_id = pl.location_id
+     WHERE $1::varchar[] IS NULL OR pl.product_id = ANY($1)
+     ORDER BY l.priority, l.id`,
+    [productIds]
+  );
+  
+  const byProduct = new Map<string, LocationStock[]>();
+  for (const row of result.rows) {
+    const locations = byProduct.get(row.product_id) || [];
+    locations.push({
+      locationId: row.location_id,
+      locationName: row.name,
+      onHandStock: row.stock + row.reserved,
+      reservedStock: row.reserved,
+      availableStock: row.stock,
+    });
+    byProduct.set(row.product_id, locations);
+  }
+  
+  return byProduct;
+}
+
 // Repository functions
-export async function getProduct(productId: string): Promise<Product | null> {
+export const getProduct = traced('stockRepository.getProduct', async (
+  productId: string
+): Promise<Product | null> => {
   try {
     const p = await getPool();
     const result = await p.query(
@@ -86,49 +453,82 @@ export async function getProduct(productId: string): Promise<Product | null> {
       return null;
     }
     
-    const row = result.rows[0];
-    return {
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      price: parseFloat(row.price),
-      stock: row.stock,
-      lowStockThreshold: row.low_stock_threshold,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    };
+    const locations = await getLocationStock([productId]);
+    
+    return { ...mapRowToProduct(result.rows[0]), locations: locations.get(productId) || [] };
   } catch (error) {
     trackException(error as Error, { operation: 'getProduct', productId });
     throw error;
   }
-}
+});
 
-export async function getAllProducts(): Promise<Product[]> {
+export const getAllProducts = traced('stockRepository.getAllProducts', async (
+  includeArchived: boolean = false
+): Promise<Product[]> => {
   try {
-    const result = await (await getPool()).query('SELECT * FROM products ORDER BY name');
+    const result = await (await getPool()).query(
+      `SELECT * FROM products
+       ${includeArchived ? '' : 'WHERE archived_at IS NULL'}
+       ORDER BY name`
+    );
+    const locations = await getLocationStock(null);
     
-    return result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      price: parseFloat(row.price),
-      stock: row.stock,
-      lowStockThreshold: row.low_stock_threshold,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return result.rows.map(row => ({ ...mapRowToProduct(row), locations: locations.get(row.id) || [] }));
   } catch (error) {
     trackException(error as Error, { operation: 'getAllProducts' });
     throw error;
   }
-}
+});
+
+/**
+ * Stock levels for the given products (all products when omitted), with the
+ * reserved quantity summed from active reservations.
+ */
+export const getStockLevels = traced('stockRepository.getStockLevels', async (
+  productIds?: string[]
+): Promise<StockLevel[]> => {
+  try {
+    const result = await (await getPool()).query(
+      `SELECT p.id, p.name, p.stock, p.low_stock_threshold,
+              COALESCE(r.reserved, 0) AS reserved
+       FROM products p
+       LEFT JOIN (
+         SELECT product_id, SUM(quantity) AS reserved
+         FROM reservations
+         WHERE status = 'active'
+         GROUP BY product_id
+       ) r ON r.product_id = p.id
+       WHERE $1::varchar[] IS NULL OR p.id = ANY($1)
+       ORDER BY p.name`,
+      [productIds && productIds.length > 0 ? productIds : null]
+    );
+    const locations = await getLocationStock(productIds && productIds.length > 0 ? productIds : null);
+    
+    return result.rows.map(row => {
+      const reserved = parseInt(row.reserved, 10);
+      return {
+        productId: row.id,
+        productName: row.name,
+        onHandStock: row.stock + reserved,
+        reservedStock: reserved,
+        availableStock: row.stock,
+        lowStockThreshold: row.low_stock_threshold,
+        locations: locations.get(row.id) || [],
+      };
+    });
+  } catch (error) {
+    trackException(error as Error, { operation: 'getStockLevels' });
+    throw error;
+  }
+});
 
-export async function reserveStock(
+export const reserveStock = traced('stockRepository.reserveStock', async (
   orderId: string,
   productId: string,
   quantity: number,
-  idempotencyKey?: string
-): Promise<ReserveResult> {
+  idempotencyKey?: string,
+  ttlSeconds?: number
+): Promise<ReserveResult> => {
   const client = await (await getPool()).connect();
   
   try {
@@ -141,13 +541,18 @@ export async function reserveStock(
         [idempotencyKey]
       );
       
-      if (existingRes.rows.length > 0) {
+      // A line split across locations is reserved as a batch holding the key
+      const existingBatch = existingRes.rows.length > 0 ? existingRes : await client.query(
+        'SELECT * FROM reservation_batches WHERE idempotency_key = $1',
+        [idempotencyKey]
+      );
+      
+      if (existingBatch.rows.length > 0) {
         await client.query('ROLLBACK');
-        const existing = existingRes.rows[0];
         return {
           success: true,
           message: 'Reservation already exists (idempotent)',
-          reservationId: existing.id,
+          reservationId: existingBatch.rows[0].id,
           status: 'already_exists',
         };
       }
@@ -159,49 +564,52 @@ export async function reserveStock(
       [productId]
     );
     
-    if (productResult.rows.length === 0) {
+    if (productResult.rows.length === 0 || productResult.rows[0].archived_at) {
       await client.query('ROLLBACK');
       return {
         success: false,
-        message: `Product ${productId} not found`,
+        message: productResult.rows.length === 0
+          ? `Product ${productId} not found`
+          : `Product ${productId} is archived`,
         status: 'product_not_found',
       };
     }
     
     const product = productResult.rows[0];
     const currentStock = product.stock;
+    // Stock wanted by waiting backorders is held for them
+    const waiting = await getWaitingBackorderQuantities(client, [productId]);
+    const available = Math.max(0, currentStock - (waiting.get(productId) || 0));
+    const allocations = available >= quantity ? await allocateLocked(client, productId, quantity) : null;
     
-    if (currentStock < quantity) {
+    if (!allocations) {
       await client.query('ROLLBACK');
       return {
         success: false,
-        message: `Insufficient stock. Available: ${currentStock}, Requested: ${quantity}`,
+        message: `Insufficient stock. Available: ${available}, Requested: ${quantity}`,
         remainingStock: currentStock,
         status: 'insufficient_stock',
       };
     }
     
-    // Deduct stock
-    const newStock = currentStock - quantity;
-    await client.query(
-      'UPDATE products SET stock = $1 WHERE id = $2',
-      [newStock, productId]
-    );
-    
-    // Create reservation
-    const reservationId = uuidv4();
-    await client.query(
-      `INSERT INTO reservations (id, order_id, product_id, quantity, status, idempotency_key)
-       VALUES ($1, $2, $3, $4, 'active', $5)`,
-      [reservationId, orderId, productId, quantity, idempotencyKey]
-    );
+    // Drawn from several locations: one row per location under a batch handle
+    let batchId: string | null = null;
+    if (allocations.length > 1) {
+      batchId = uuidv4();
+      await client.query(
+        `INSERT INTO reservation_batches (id, order_id, idempotency_key)
+         VALUES ($1, $2, $3)`,
+        [batchId, orderId, idempotencyKey]
+      );
+    }
     
-    // Audit log
-    await client.query(
-      `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, order_id, reservation_id, reason)
-       VALUES ($1, 'reserve', $2, $3, $4, $5, $6, 'order_reservation')`,
-      [productId, -quantity, currentStock, newStock, orderId, reservationId]
-    );
+    const lines = await reserveAllocations(client, orderId, product, allocations, {
+      batchId,
+      idempotencyKey: batchId ? undefined : idempotencyKey,
+      ttlSeconds,
+    });
+    const reservationId = batchId || lines[0].reservationId;
+    const newStock = currentStock - quantity;
     
     await client.query('COMMIT');
     
@@ -227,123 +635,1682 @@ export async function reserveStock(
   } finally {
     client.release();
   }
-}
+});
 
-export async function releaseStock(
+/**
+ * Reserve several product lines for one order, all or nothing.
+ * Product rows are locked in ascending id order so concurrent batches
+ * touching the same products cannot deadlock. Stock wanted by waiting
+ * backorders is held for them. With allowBackorder, an order short of stock
+ * goes on the backorder waitlist instead of failing, as long as no product
+ * would have more than its backorder_limit units waiting beyond its stock.
+ */
+export const reserveStockBatch = traced('stockRepository.reserveStockBatch', async (
   orderId: string,
-  reservationId: string,
-  reason: string
-): Promise<ReleaseResult> {
+  items: StockLine[],
+  idempotencyKey?: string,
+  ttlSeconds?: number,
+  allowBackorder: boolean = false
+): Promise<BatchReserveResult> => {
   const client = await (await getPool()).connect();
   
   try {
     await client.query('BEGIN');
-    
-    // Find and lock the reservation
-    const resResult = await client.query(
-      'SELECT * FROM reservations WHERE id = $1 AND order_id = $2 FOR UPDATE',
-      [reservationId, orderId]
+    const result = await reserveBatchLocked(client, orderId, items, idempotencyKey, ttlSeconds, allowBackorder);
+    // A failed attempt has written nothing
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'reserveStockBatch', orderId });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * reserveStockBatch on the caller's client, inside its open transaction.
+ * Every failure returns before anything is written.
+ */
+async function reserveBatchLocked(
+  client: PoolClient,
+  orderId: string,
+  items: StockLine[],
+  idempotencyKey?: string,
+  ttlSeconds?: number,
+  allowBackorder = false
+): Promise<BatchReserveResult> {
+  // Merge duplicate lines and fix the lock order
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+  }
+  const productIds = Array.from(quantities.keys()).sort();
+  
+  // Check for existing batch with same idempotency key
+  if (idempotencyKey) {
+    const existingBatch = await client.query(
+      'SELECT * FROM reservation_batches WHERE idempotency_key = $1',
+      [idempotencyKey]
     );
     
-    if (resResult.rows.length === 0) {
-      await client.query('ROLLBACK');
+    if (existingBatch.rows.length > 0) {
+      const batchId = existingBatch.rows[0].id;
+      const existingLines = await client.query(
+        'SELECT * FROM reservations WHERE batch_id = $1 ORDER BY product_id',
+        [batchId]
+      );
       return {
-        success: false,
-        message: 'Reservation not found',
+        success: true,
+        message: 'Reservation already exists (idempotent)',
+        reservationId: batchId,
+        lines: existingLines.rows.map(row => ({
+          productId: row.product_id,
+          quantity: row.quantity,
+          reservationId: row.id,
+          remainingStock: 0,
+          locationId: row.location_id,
+        })),
+        status: 'already_exists',
       };
     }
     
-    const reservation = resResult.rows[0];
+    // A filled backorder's reservation batch carries its key, found above
+    const existingBackorder = await client.query(
+      'SELECT id, status FROM backorders WHERE idempotency_key = $1',
+      [idempotencyKey]
+    );
     
-    if (reservation.status !== 'active') {
-      await client.query('ROLLBACK');
+    if (existingBackorder.rows.length > 0) {
+      const backorder = existingBackorder.rows[0];
+      return backorder.status === 'waiting'
+        ? {
+          success: false,
+          message: 'Backorder already exists (idempotent)',
+          lines: [],
+          status: 'backordered',
+          backorderId: backorder.id,
+        }
+        : {
+          success: false,
+          message: `Backorder ${backorder.id} was cancelled`,
+          lines: [],
+          status: 'insufficient_stock',
+        };
+    }
+  }
+  
+  // Lock every product row in a deterministic order
+  const productResult = await client.query(
+    'SELECT * FROM products WHERE id = ANY($1) ORDER BY id FOR UPDATE',
+    [productIds]
+  );
+  const products = new Map<string, any>(productResult.rows.map(row => [row.id, row]));
+  const waiting = await getWaitingBackorderQuantities(client, productIds);
+  const allocations = new Map<string, Allocation[]>();
+  const shortProductIds: string[] = [];
+  
+  for (const productId of productIds) {
+    const product = products.get(productId);
+    const quantity = quantities.get(productId)!;
+    
+    if (!product || product.archived_at) {
       return {
         success: false,
-        message: `Reservation already ${reservation.status}`,
+        message: product ? `Product ${productId} is archived` : `Product ${productId} not found`,
+        lines: [],
+        status: 'product_not_found',
+        failedProductId: productId,
       };
     }
     
-    // Lock product and restore stock
-    const productResult = await client.query(
-      'SELECT * FROM products WHERE id = $1 FOR UPDATE',
-      [reservation.product_id]
-    );
-    
-    const currentStock = productResult.rows[0].stock;
-    const newStock = currentStock + reservation.quantity;
+    const available = Math.max(0, product.stock - (waiting.get(productId) || 0));
+    const allocated = available >= quantity ? await allocateLocked(client, productId, quantity) : null;
     
-    await client.query(
-      'UPDATE products SET stock = $1 WHERE id = $2',
-      [newStock, reservation.product_id]
-    );
+    if (allocated) {
+      allocations.set(productId, allocated);
+    } else if (allowBackorder) {
+      shortProductIds.push(productId);
+    } else {
+      return {
+        success: false,
+        message: `Insufficient stock for ${productId}. Available: ${available}, Requested: ${quantity}`,
+        lines: [],
+        status: 'insufficient_stock',
+        failedProductId: productId,
+      };
+    }
+  }
+  
+  if (shortProductIds.length > 0) {
+    // The whole order waits, so every line counts against its product's limit
+    const overLimit = productIds.find(productId => {
+      const product = products.get(productId);
+      return (waiting.get(productId) || 0) + quantities.get(productId)! - product.stock > product.backorder_limit;
+    });
     
-    // Update reservation status
-    await client.query(
-      `UPDATE reservations SET status = 'released' WHERE id = $1`,
-      [reservationId]
-    );
+    if (overLimit) {
+      const product = products.get(overLimit);
+      return {
+        success: false,
+        message: `Insufficient stock for ${overLimit} and its backorder limit (${product.backorder_limit}) is reached. Available: ${product.stock}, Requested: ${quantities.get(overLimit)}`,
+        lines: [],
+        status: 'insufficient_stock',
+        failedProductId: overLimit,
+      };
+    }
     
-    // Audit log
+    const backorderId = uuidv4();
     await client.query(
-      `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, order_id, reservation_id, reason)
-       VALUES ($1, 'release', $2, $3, $4, $5, $6, $7)`,
-      [reservation.product_id, reservation.quantity, currentStock, newStock, orderId, reservationId, reason]
+      `INSERT INTO backorders (id, order_id, idempotency_key, ttl_seconds)
+       VALUES ($1, $2, $3, $4)`,
+      [backorderId, orderId, idempotencyKey || null, ttlSeconds || null]
     );
     
-    await client.query('COMMIT');
+    for (const productId of productIds) {
+      await client.query(
+        'INSERT INTO backorder_lines (backorder_id, product_id, quantity) VALUES ($1, $2, $3)',
+        [backorderId, productId, quantities.get(productId)]
+      );
+    }
     
-    trackEvent('StockReleased', {
+    trackEvent('OrderBackordered', {
       orderId,
-      reservationId,
-      productId: reservation.product_id,
-      quantity: reservation.quantity.toString(),
-      newStock: newStock.toString(),
-      reason,
+      backorderId,
+      shortProductIds: shortProductIds.join(','),
     });
     
     return {
-      success: true,
-      message: 'Stock released successfully',
-      newStock,
+      success: false,
+      message: `Backordered: waiting for stock of ${shortProductIds.join(', ')}`,
+      lines: [],
+      status: 'backordered',
+      failedProductId: shortProductIds[0],
+      backorderId,
     };
-  } catch (error) {
-    await client.query('ROLLBACK');
-    trackException(error as Error, { operation: 'releaseStock', orderId, reservationId });
-    throw error;
-  } finally {
-    client.release();
   }
+  
+  const batchId = uuidv4();
+  await client.query(
+    `INSERT INTO reservation_batches (id, order_id, idempotency_key)
+     VALUES ($1, $2, $3)`,
+    [batchId, orderId, idempotencyKey]
+  );
+  
+  const lines: ReservedLine[] = [];
+  
+  for (const productId of productIds) {
+    lines.push(...await reserveAllocations(client, orderId, products.get(productId), allocations.get(productId)!, {
+      batchId,
+      ttlSeconds,
+    }));
+  }
+  
+  trackEvent('StockReservedBatch', {
+    orderId,
+    reservationId: batchId,
+    lineCount: lines.length.toString(),
+  });
+  
+  return {
+    success: true,
+    message: 'Stock reserved successfully',
+    reservationId: batchId,
+    lines,
+    status: 'confirmed',
+  };
 }
 
-export async function findReservationByOrderId(orderId: string): Promise<Reservation | null> {
-  try {
-    const result = await (await getPool()).query(
-      'SELECT * FROM reservations WHERE order_id = $1 AND status = $2',
+/**
+ * Release a reservation. reservationId may be a single reservation or a
+ * batch handle, in which case every active line in the batch is released.
+ * outboxEvents gives the events for the released lines, written to the
+ * outbox in the release transaction.
+ */
+export const releaseStock = traced('stockRepository.releaseStock', async (
+  orderId: string,
+  reservationId: string,
+  reason: string,
+  outboxEvents?: (lines: ReleasedLine[]) => InventoryEvent[]
+): Promise<ReleaseResult> => {
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    // Find and lock the reservation lines
+    const resResult = await client.query(
+      `SELECT * FROM reservations
+       WHERE (id = $1 OR batch_id = $1) AND order_id = $2
+       ORDER BY product_id
+       FOR UPDATE`,
+      [reservationId, orderId]
+    );
+    
+    if (resResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: 'Reservation not found',
+        lines: [],
+      };
+    }
+    
+    // Committed stock has been sold and can no longer be handed back
+    if (resResult.rows.some(row => row.status === 'committed')) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: 'Reservation already committed',
+        lines: [],
+      };
+    }
+    
+    const activeLines = resResult.rows.filter(row => row.status === 'active');
+    
+    if (activeLines.length === 0) {
+      // Retrying the release that settled every line succeeds again, so a
+      // caller can repeat it until its own follow-up is recorded
+      const repeated = await client.query(
+        `SELECT COUNT(DISTINCT reservation_id) AS count FROM stock_audit_log
+         WHERE product_id = ANY($1) AND reservation_id = ANY($2)
+           AND operation = 'release' AND reason = $3`,
+        [resResult.rows.map(row => row.product_id), resResult.rows.map(row => row.id), reason]
+      );
+      await client.query('ROLLBACK');
+      
+      if (parseInt(repeated.rows[0].count, 10) === resResult.rows.length) {
+        return {
+          success: true,
+          message: 'Reservation already released',
+          alreadyReleased: true,
+          lines: [],
+        };
+      }
+      
+      return {
+        success: false,
+        message: `Reservation already ${resResult.rows[0].status}`,
+        lines: [],
+      };
+    }
+    
+    const released = await releaseLockedLines(client, orderId, activeLines, reason);
+    
+    if (outboxEvents) {
+      await insertOutboxMessages(client, outboxEvents(released));
+    }
+    
+    await client.query('COMMIT');
+    
+    return {
+      success: true,
+      message: 'Stock released successfully',
+      newStock: released[released.length - 1].newStock,
+      lines: released,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'releaseStock', orderId, reservationId });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * Stop a reservation from expiring once its order is confirmed. The TTL only
+ * reclaims stock held for orders abandoned before confirmation; a confirmed
+ * order keeps its stock until it ships or is cancelled. Confirming twice is a
+ * no-op success.
+ */
+export const confirmReservation = traced('stockRepository.confirmReservation', async (
+  orderId: string,
+  reservationId: string
+): Promise<ConfirmResult> => {
+  try {
+    const pool = await getPool();
+    
+    // Row locks order this against the expiry sweep, which re-checks expires_at
+    const updated = await pool.query(
+      `UPDATE reservations SET expires_at = NULL
+       WHERE (id = $1 OR batch_id = $1) AND order_id = $2 AND status = 'active'
+       RETURNING id`,
+      [reservationId, orderId]
+    );
+    
+    if (updated.rows.length > 0) {
+      trackEvent('ReservationConfirmed', {
+        orderId,
+        reservationId,
+        lineCount: updated.rows.length.toString(),
+      });
+      return { success: true, message: 'Reservation confirmed' };
+    }
+    
+    const existing = await pool.query(
+      'SELECT status FROM reservations WHERE (id = $1 OR batch_id = $1) AND order_id = $2',
+      [reservationId, orderId]
+    );
+    
+    if (existing.rows.length === 0) {
+      return { success: false, message: 'Reservation not found' };
+    }
+    
+    // Committed lines never expire
+    return existing.rows.every(row => row.status === 'committed')
+      ? { success: true, message: 'Reservation already committed' }
+      : { success: false, message: 'Reservation already released' };
+  } catch (error) {
+    trackException(error as Error, { operation: 'confirmReservation', orderId, reservationId });
+    throw error;
+  }
+});
+
+/**
+ * Commit a reservation once its order ships. Stock was already decremented at
+ * reserve time, so this only makes the hold permanent: lines move to
+ * 'committed', stop expiring and can no longer be released. Committing an
+ * already committed reservation is a no-op success. outboxEvents gives the
+ * events for the committed lines, written to the outbox in the transaction.
+ */
+export const commitReservation = traced('stockRepository.commitReservation', async (
+  orderId: string,
+  reservationId: string,
+  outboxEvents?: (lines: CommittedLine[]) => InventoryEvent[]
+): Promise<CommitResult> => {
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const resResult = await client.query(
+      `SELECT * FROM reservations
+       WHERE (id = $1 OR batch_id = $1) AND order_id = $2
+       ORDER BY product_id
+       FOR UPDATE`,
+      [reservationId, orderId]
+    );
+    
+    if (resResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: 'Reservation not found',
+        alreadyCommitted: false,
+        lines: [],
+      };
+    }
+    
+    const toLine = (row: any): CommittedLine => ({
+      reservationId: row.id,
+      productId: row.product_id,
+      quantity: row.quantity,
+    });
+    
+    if (resResult.rows.every(row => row.status === 'committed')) {
+      await client.query('ROLLBACK');
+      return {
+        success: true,
+        message: 'Reservation already committed',
+        alreadyCommitted: true,
+        lines: resResult.rows.map(toLine),
+      };
+    }
+    
+    // A partially released batch cannot be shipped as ordered
+    if (resResult.rows.some(row => row.status === 'released')) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: 'Reservation already released',
+        alreadyCommitted: false,
+        lines: [],
+      };
+    }
+    
+    const activeLines = resResult.rows.filter(row => row.status === 'active');
+    
+    for (const reservation of activeLines) {
+      const productResult = await client.query(
+        'SELECT stock FROM products WHERE id = $1',
+        [reservation.product_id]
+      );
+      const currentStock = productResult.rows[0].stock;
+      
+      await client.query(
+        `UPDATE reservations SET status = 'committed', expires_at = NULL WHERE id = $1`,
+        [reservation.id]
+      );
+      
+      // Audit log - quantity_change is 0, the decrement was logged by 'reserve'
+      await client.query(
+        `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, order_id, reservation_id, reason)
+         VALUES ($1, 'commit', 0, $2, $2, $3, $4, $5, $6)`,
+        [reservation.product_id, currentStock, reservation.location_id, orderId, reservation.id, `Committed ${reservation.quantity} unit(s)`]
+      );
+    }
+    
+    if (outboxEvents) {
+      await insertOutboxMessages(client, outboxEvents(activeLines.map(toLine)));
+    }
+    
+    await client.query('COMMIT');
+    
+    trackEvent('ReservationCommitted', {
+      orderId,
+      reservationId,
+      lineCount: activeLines.length.toString(),
+    });
+    
+    return {
+      success: true,
+      message: 'Reservation committed successfully',
+      alreadyCommitted: false,
+      lines: activeLines.map(toLine),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'commitReservation', orderId, reservationId });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * Allocate quantity of a product whose row the caller has locked across its
+ * locations by the allocation strategy. Null when they cannot cover it.
+ */
+async function allocateLocked(client: PoolClient, productId: string, quantity: number): Promise<Allocation[] | null> {
+  const result = await client.query(
+    `SELECT l.id, l.priority, COALESCE(pl.stock, 0) AS stock
+     FROM locations l
+     LEFT JOIN product_locations pl ON pl.location_id = l.id AND pl.product_id = $1`,
+    [productId]
+  );
+  
+  return allocate(quantity, result.rows.map(row => ({
+    locationId: row.id,
+    priority: row.priority,
+    stock: row.stock,
+  })));
+}
+
+/**
+ * Units of each product wanted by waiting backorders.
+ */
+async function getWaitingBackorderQuantities(client: PoolClient, productIds: string[]): Promise<Map<string, number>> {
+  const result = await client.query(
+    `SELECT l.product_id, SUM(l.quantity)::int AS quantity
+     FROM backorder_lines l
+     JOIN backorders b ON b.id = l.backorder_id
+     WHERE b.status = 'waiting' AND l.product_id = ANY($1)
+     GROUP BY l.product_id`,
+    [productIds]
+  );
+  
+  return new Map(result.rows.map(row => [row.product_id, row.quantity]));
+}
+
+/**
+ * Take allocated stock out of its locations and the product total, with one
+ * reservation row and one audit row per location drawn from.
+ */
+async function reserveAllocations(
+  client: PoolClient,
+  orderId: string,
+  product: any,
+  allocations: Allocation[],
+  options: { batchId?: string | null; idempotencyKey?: string; ttlSeconds?: number }
+): Promise<ReservedLine[]> {
+  const lines: ReservedLine[] = [];
+  let currentStock: number = product.stock;
+  
+  for (const { locationId, quantity } of allocations) {
+    const newStock = currentStock - quantity;
+    
+    await client.query(
+      'UPDATE product_locations SET stock = stock - $1 WHERE product_id = $2 AND location_id = $3',
+      [quantity, product.id, locationId]
+    );
+    
+    const reservationId = uuidv4();
+    await client.query(
+      `INSERT INTO reservations (id, order_id, product_id, quantity, status, idempotency_key, batch_id, location_id, expires_at)
+       VALUES ($1, $2, $3, $4, 'active', $5, $6, $7, CURRENT_TIMESTAMP + ($8 || ' seconds')::interval)`,
+      [
+        reservationId,
+        orderId,
+        product.id,
+        quantity,
+        options.idempotencyKey || null,
+        options.batchId || null,
+        locationId,
+        String(resolveTtlSeconds(options.ttlSeconds)),
+      ]
+    );
+    
+    await client.query(
+      `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, location_change, order_id, reservation_id, reason)
+       VALUES ($1, 'reserve', $2, $3, $4, $5, $2, $6, $7, 'order_reservation')`,
+      [product.id, -quantity, currentStock, newStock, locationId, orderId, reservationId]
+    );
+    
+    lines.push({ productId: product.id, quantity, reservationId, remainingStock: newStock, locationId });
+    currentStock = newStock;
+  }
+  
+  await client.query(
+    'UPDATE products SET stock = $1 WHERE id = $2',
+    [currentStock, product.id]
+  );
+  
+  return lines;
+}
+
+/**
+ * Restore stock for reservation rows already locked by the caller, mark them
+ * released and write one audit row per line. Every release goes through here.
+ */
+async function releaseLockedLines(
+  client: PoolClient,
+  orderId: string,
+  rows: any[],
+  reason: string
+): Promise<ReleasedLine[]> {
+  const released: ReleasedLine[] = [];
+  
+  for (const reservation of rows) {
+    // Lock product and restore stock
+    const productResult = await client.query(
+      'SELECT * FROM products WHERE id = $1 FOR UPDATE',
+      [reservation.product_id]
+    );
+    
+    const currentStock = productResult.rows[0].stock;
+    const newStock = currentStock + reservation.quantity;
+    
+    await client.query(
+      'UPDATE products SET stock = $1 WHERE id = $2',
+      [newStock, reservation.product_id]
+    );
+    
+    // Back to the location it was drawn from
+    if (reservation.location_id) {
+      await client.query(
+        `INSERT INTO product_locations (product_id, location_id, stock) VALUES ($1, $2, $3)
+         ON CONFLICT (product_id, location_id) DO UPDATE SET stock = product_locations.stock + EXCLUDED.stock`,
+        [reservation.product_id, reservation.location_id, reservation.quantity]
+      );
+    }
+    
+    // Update reservation status
+    await client.query(
+      `UPDATE reservations SET status = 'released' WHERE id = $1`,
+      [reservation.id]
+    );
+    
+    // Audit log
+    await client.query(
+      `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, location_change, order_id, reservation_id, reason)
+       VALUES ($1, 'release', $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        reservation.product_id,
+        reservation.quantity,
+        currentStock,
+        newStock,
+        reservation.location_id,
+        reservation.location_id ? reservation.quantity : 0,
+        orderId,
+        reservation.id,
+        reason,
+      ]
+    );
+    
+    trackEvent('StockReleased', {
+      orderId,
+      reservationId: reservation.id,
+      productId: reservation.product_id,
+      quantity: reservation.quantity.toString(),
+      newStock: newStock.toString(),
+      reason,
+    });
+    
+    released.push({
+      reservationId: reservation.id,
+      productId: reservation.product_id,
+      locationId: reservation.location_id,
+      quantity: reservation.quantity,
+      previousStock: currentStock,
+      newStock,
+      lowStockThreshold: productResult.rows[0].low_stock_threshold,
+    });
+  }
+  
+  return released;
+}
+
+/**
+ * Release active reservations whose expires_at has passed, one reservation
+ * (or whole batch) per transaction, with reason 'expired'. outboxEvents
+ * gives the events for each one, written to the outbox in its transaction.
+ */
+export const releaseExpiredReservations = traced('stockRepository.releaseExpiredReservations', async (
+  limit: number = 100,
+  outboxEvents?: (reservation: ExpiredReservation) => InventoryEvent[]
+): Promise<ExpiredReservation[]> => {
+  const due = await (await getPool()).query(
+    `SELECT DISTINCT order_id, COALESCE(batch_id, id) AS handle
+     FROM reservations
+     WHERE status = 'active' AND expires_at <= CURRENT_TIMESTAMP
+     LIMIT $1`,
+    [limit]
+  );
+  
+  const expired: ExpiredReservation[] = [];
+  
+  for (const { order_id: orderId, handle } of due.rows) {
+    const client = await (await getPool()).connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      // Re-check under lock: the reservation may have been released meanwhile
+      const resResult = await client.query(
+        `SELECT * FROM reservations
+         WHERE (id = $1 OR batch_id = $1) AND order_id = $2
+           AND status = 'active' AND expires_at <= CURRENT_TIMESTAMP
+         ORDER BY product_id
+         FOR UPDATE`,
+        [handle, orderId]
+      );
+      
+      if (resResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        continue;
+      }
+      
+      const reservation: ExpiredReservation = {
+        orderId,
+        reservationId: handle,
+        lines: await releaseLockedLines(client, orderId, resResult.rows, 'expired'),
+      };
+      
+      if (outboxEvents) {
+        await insertOutboxMessages(client, outboxEvents(reservation));
+      }
+      
+      await client.query('COMMIT');
+      
+      expired.push(reservation);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // Leave it for the next sweep; keep expiring the others
+      console.error(`[DB] Failed to expire reservation ${handle}:`, error);
+      trackException(error as Error, { operation: 'releaseExpiredReservations', orderId, reservationId: handle });
+    } finally {
+      client.release();
+    }
+  }
+  
+  return expired;
+});
+
+export const findReservationByOrderId = traced('stockRepository.findReservationByOrderId', async (
+  orderId: string
+): Promise<Reservation | null> => {
+  const reservations = await findActiveReservationsByOrderId(orderId);
+  return reservations.length > 0 ? reservations[0] : null;
+});
+
+export const findActiveReservationsByOrderId = traced('stockRepository.findActiveReservationsByOrderId', async (
+  orderId: string
+): Promise<Reservation[]> => {
+  try {
+    const result = await (await getPool()).query(
+      'SELECT * FROM reservations WHERE order_id = $1 AND status = $2 ORDER BY product_id',
       [orderId, 'active']
     );
     
+    return result.rows.map(mapRowToReservation);
+  } catch (error) {
+    trackException(error as Error, { operation: 'findActiveReservationsByOrderId', orderId });
+    throw error;
+  }
+});
+
+/**
+ * Page through reservation lines in id order, for other services' audits.
+ */
+export const exportReservations = traced('stockRepository.exportReservations', async (
+  filter: ReservationExportFilter = {},
+  after?: string,
+  limit: number = 1000
+): Promise<ReservationPage> => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const addParam = (value: any): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  
+  if (filter.statuses && filter.statuses.length > 0) {
+    conditions.push(`status = ANY(${addParam(filter.statuses)})`);
+  }
+  if (filter.orderIds && filter.orderIds.length > 0) {
+    conditions.push(`order_id = ANY(${addParam(filter.orderIds)})`);
+  }
+  if (after) {
+    conditions.push(`id > ${addParam(after)}`);
+  }
+  
+  const result = await (await getPool()).query(
+    `SELECT * FROM reservations
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY id
+     LIMIT ${addParam(limit + 1)}`,
+    params
+  );
+  
+  const rows = result.rows.slice(0, limit);
+  
+  return {
+    reservations: rows.map(mapRowToReservation),
+    nextAfter: result.rows.length > limit ? rows[rows.length - 1].id : null,
+  };
+});
+
+/**
+ * Fill waiting backorders from available stock in arrival order. A filled
+ * backorder is reserved all or nothing like a batch, under its order's
+ * idempotency key. One that cannot be filled yet keeps its claim on the
+ * stock it wants, so later arrivals cannot overtake it. The events for
+ * each filled backorder are written to the outbox in the same transaction.
+ */
+export const fillBackorders = traced('stockRepository.fillBackorders', async (
+  outboxEvents?: (backorder: FilledBackorder) => InventoryEvent[]
+): Promise<FilledBackorder[]> => {
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const waitingProducts = await client.query(
+      `SELECT DISTINCT l.product_id
+       FROM backorder_lines l
+       JOIN backorders b ON b.id = l.backorder_id
+       WHERE b.status = 'waiting'
+       ORDER BY l.product_id`
+    );
+    
+    if (waitingProducts.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return [];
+    }
+    
+    // Products before backorders, the lock order of reserveStockBatch
+    const productResult = await client.query(
+      'SELECT * FROM products WHERE id = ANY($1) ORDER BY id FOR UPDATE',
+      [waitingProducts.rows.map(row => row.product_id)]
+    );
+    const products = new Map<string, any>(productResult.rows.map(row => [row.id, row]));
+    
+    const backorderResult = await client.query(
+      `SELECT * FROM backorders WHERE status = 'waiting' ORDER BY position FOR UPDATE`
+    );
+    const lineResult = await client.query(
+      'SELECT * FROM backorder_lines WHERE backorder_id = ANY($1) ORDER BY product_id',
+      [backorderResult.rows.map(row => row.id)]
+    );
+    
+    // Stock not yet claimed by a backorder earlier in the queue
+    const unclaimed = new Map<string, number>(productResult.rows.map(row => [row.id, row.stock]));
+    const filled: FilledBackorder[] = [];
+    
+    for (const backorder of backorderResult.rows) {
+      const lines = lineResult.rows.filter(line => line.backorder_id === backorder.id);
+      const allocations = new Map<string, Allocation[]>();
+      
+      // A product missing from products was first backordered after the lock
+      for (const line of lines) {
+        const product = products.get(line.product_id);
+        const allocated = product && !product.archived_at && (unclaimed.get(line.product_id) || 0) >= line.quantity
+          ? await allocateLocked(client, line.product_id, line.quantity)
+          : null;
+        if (!allocated) break;
+        allocations.set(line.product_id, allocated);
+      }
+      
+      if (allocations.size < lines.length) {
+        for (const line of lines) {
+          unclaimed.set(line.product_id, Math.max(0, (unclaimed.get(line.product_id) || 0) - line.quantity));
+        }
+        continue;
+      }
+      
+      const batchId = uuidv4();
+      await client.query(
+        `INSERT INTO reservation_batches (id, order_id, idempotency_key)
+         VALUES ($1, $2, $3)`,
+        [batchId, backorder.order_id, backorder.idempotency_key]
+      );
+      
+      const reserved: ReservedLine[] = [];
+      
+      for (const line of lines) {
+        const product = products.get(line.product_id);
+        const productLines = await reserveAllocations(client, backorder.order_id, product, allocations.get(line.product_id)!, {
+          batchId,
+          ttlSeconds: backorder.ttl_seconds || undefined,
+        });
+        product.stock = productLines[productLines.length - 1].remainingStock;
+        unclaimed.set(line.product_id, unclaimed.get(line.product_id)! - line.quantity);
+        reserved.push(...productLines);
+      }
+      
+      await client.query(
+        `UPDATE backorders SET status = 'filled', reservation_id = $2 WHERE id = $1`,
+        [backorder.id, batchId]
+      );
+      
+      filled.push({
+        backorderId: backorder.id,
+        orderId: backorder.order_id,
+        reservationId: batchId,
+        lines: reserved,
+      });
+    }
+    
+    if (outboxEvents) {
+      await insertOutboxMessages(client, filled.flatMap(outboxEvents));
+    }
+    
+    await client.query('COMMIT');
+    
+    for (const backorder of filled) {
+      trackEvent('BackorderFilled', {
+        orderId: backorder.orderId,
+        backorderId: backorder.backorderId,
+        reservationId: backorder.reservationId,
+      });
+    }
+    
+    return filled;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'fillBackorders' });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * Take an order off the backorder waitlist. If its backorder was filled
+ * first, the order holds a reservation instead, returned in reservationId.
+ */
+export const cancelBackorder = traced('stockRepository.cancelBackorder', async (
+  orderId: string
+): Promise<CancelBackorderResult> => {
+  try {
+    const pool = await getPool();
+    const cancelled = await pool.query(
+      `UPDATE backorders SET status = 'cancelled'
+       WHERE order_id = $1 AND status = 'waiting'
+       RETURNING id`,
+      [orderId]
+    );
+    
+    if (cancelled.rows.length > 0) {
+      trackEvent('BackorderCancelled', { orderId, backorderId: cancelled.rows[0].id });
+      return { success: true, message: 'Backorder cancelled', status: 'cancelled' };
+    }
+    
+    const existing = await pool.query(
+      'SELECT * FROM backorders WHERE order_id = $1 ORDER BY position DESC LIMIT 1',
+      [orderId]
+    );
+    
+    if (existing.rows.length === 0) {
+      return { success: false, message: 'Backorder not found', status: 'not_found' };
+    }
+    
+    const backorder = existing.rows[0];
+    return {
+      success: backorder.status === 'cancelled',
+      message: `Backorder already ${backorder.status}`,
+      status: backorder.status,
+      reservationId: backorder.reservation_id || undefined,
+    };
+  } catch (error) {
+    trackException(error as Error, { operation: 'cancelBackorder', orderId });
+    throw error;
+  }
+});
+
+/**
+ * Backorders in waitlist order, optionally only those wanting productId.
+ */
+export const listBackorders = traced('stockRepository.listBackorders', async (
+  statuses: BackorderStatus[],
+  productId?: string,
+  limit: number = 100
+): Promise<Backorder[]> => {
+  try {
+    const result = await (await getPool()).query(
+      `SELECT b.*,
+              json_agg(json_build_object('productId', l.product_id, 'quantity', l.quantity) ORDER BY l.product_id) AS lines
+       FROM backorders b
+       JOIN backorder_lines l ON l.backorder_id = b.id
+       WHERE b.status = ANY($1)
+         AND ($2::text IS NULL OR b.id IN (SELECT backorder_id FROM backorder_lines WHERE product_id = $2))
+       GROUP BY b.id
+       ORDER BY b.position
+       LIMIT $3`,
+      [statuses, productId || null, limit]
+    );
+    
+    return result.rows.map(mapRowToBackorder);
+  } catch (error) {
+    trackException(error as Error, { operation: 'listBackorders' });
+    throw error;
+  }
+});
+
+/**
+ * Resolve an order whose reservation outcome is unknown to the order service.
+ * Returns the existing active reservation or waiting backorder if there is
+ * one, otherwise attempts the reservation for every line under a dedicated
+ * verification idempotency key - all lines or none, like the synchronous
+ * path but never backordering. A queue consumer passes its inbox record and
+ * outcome events, which commit in the same transaction as the reservation.
+ */
+export const verifyOrderReservation = traced('stockRepository.verifyOrderReservation', async (
+  orderId: string,
+  items: StockLine[],
+  idempotencyKey: string,
+  effects: VerifyEffects = {}
+): Promise<VerifyResult> => {
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    // A concurrent delivery of the same message fails here on the inbox key
+    if (effects.inboxMessage) {
+      await insertInboxMessage(client, effects.inboxMessage);
+    }
+    
+    const result = await verifyLocked(client, orderId, items, idempotencyKey);
+    
+    if (effects.outboxEvents) {
+      await insertOutboxMessages(client, effects.outboxEvents(result));
+    }
+    
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'verifyOrderReservation', orderId });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+async function verifyLocked(
+  client: PoolClient,
+  orderId: string,
+  items: StockLine[],
+  idempotencyKey: string
+): Promise<VerifyResult> {
+  const existing = await client.query(
+    'SELECT * FROM reservations WHERE order_id = $1 AND status = $2 ORDER BY product_id',
+    [orderId, 'active']
+  );
+  
+  if (existing.rows.length > 0) {
+    const reservations = existing.rows.map(mapRowToReservation);
+    return {
+      verified: true,
+      message: 'Reservation already exists',
+      reservationId: reservations[0].batchId || reservations[0].id,
+      lines: reservations.map(reservation => ({
+        productId: reservation.productId,
+        quantity: reservation.quantity,
+        reservationId: reservation.id,
+        remainingStock: 0,
+        locationId: reservation.locationId || '',
+      })),
+      recoveredFromCrash: true,
+      newlyReserved: false,
+      backordered: false,
+    };
+  }
+  
+  // The unanswered reservation call may have put the order on the waitlist
+  const backorder = await client.query(
+    `SELECT id FROM backorders WHERE order_id = $1 AND status = 'waiting'`,
+    [orderId]
+  );
+  
+  if (backorder.rows.length > 0) {
+    return {
+      verified: false,
+      message: `Order is backordered (${backorder.rows[0].id})`,
+      lines: [],
+      recoveredFromCrash: true,
+      newlyReserved: false,
+      backordered: true,
+    };
+  }
+  
+  const result = await reserveBatchLocked(client, orderId, items, `verify-${idempotencyKey}`);
+  
+  return {
+    verified: result.success,
+    message: result.message,
+    reservationId: result.reservationId,
+    lines: result.lines,
+    recoveredFromCrash: false,
+    newlyReserved: result.status === 'confirmed',
+    backordered: false,
+  };
+}
+
+/**
+ * Add a product to the catalog. Initial stock is written to the audit log
+ * like any other stock change.
+ */
+export const createProduct = traced('stockRepository.createProduct', async (
+  input: NewProduct
+): Promise<ProductChangeResult> => {
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const result = await client.query(
+      `INSERT INTO products (id, name, description, price, stock, low_stock_threshold, backorder_limit)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO NOTHING
+       RETURNING *`,
+      [input.id, input.name, input.description, input.price, input.stock, input.lowStockThreshold, input.backorderLimit]
+    );
+    
     if (result.rows.length === 0) {
-      return null;
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: `Product ${input.id} already exists`,
+        status: 'already_exists',
+        product: (await getProduct(input.id)) || undefined,
+      };
+    }
+    
+    if (input.stock > 0) {
+      const locationId = input.locationId || DEFAULT_LOCATION;
+      const placed = await client.query(
+        `INSERT INTO product_locations (product_id, location_id, stock)
+         SELECT $1, id, $3 FROM locations WHERE id = $2`,
+        [input.id, locationId, input.stock]
+      );
+      
+      if (placed.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return {
+          success: false,
+          message: `Location ${locationId} not found`,
+          status: 'not_found',
+        };
+      }
+      
+      await client.query(
+        `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, location_change, reason)
+         VALUES ($1, 'adjust', $2, 0, $2, $3, $2, 'Initial stock')`,
+        [input.id, input.stock, locationId]
+      );
     }
     
-    const row = result.rows[0];
+    await client.query('COMMIT');
+    
     return {
-      id: row.id,
-      orderId: row.order_id,
-      productId: row.product_id,
-      quantity: row.quantity,
-      status: row.status,
-      idempotencyKey: row.idempotency_key,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      success: true,
+      message: 'Product created',
+      status: 'applied',
+      product: mapRowToProduct(result.rows[0]),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'createProduct', productId: input.id });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * Apply catalog changes if the product is still at expectedUpdatedAt.
+ * Timestamps are compared to the millisecond, the precision clients see.
+ */
+export const updateProduct = traced('stockRepository.updateProduct', async (
+  productId: string,
+  changes: ProductChanges,
+  expectedUpdatedAt: Date
+): Promise<ProductChangeResult> => {
+  const columns: Record<keyof ProductChanges, string> = {
+    name: 'name',
+    description: 'description',
+    price: 'price',
+    lowStockThreshold: 'low_stock_threshold',
+    backorderLimit: 'backorder_limit',
+  };
+  
+  const assignments: string[] = [];
+  const params: any[] = [productId, expectedUpdatedAt];
+  
+  for (const [field, column] of Object.entries(columns) as Array<[keyof ProductChanges, string]>) {
+    if (changes[field] !== undefined) {
+      params.push(changes[field]);
+      assignments.push(`${column} = $${params.length}`);
+    }
+  }
+  
+  const result = await (await getPool()).query(
+    `UPDATE products SET ${assignments.join(', ')}
+     WHERE id = $1 AND date_trunc('milliseconds', updated_at) = $2
+     RETURNING *`,
+    params
+  );
+  
+  if (result.rows.length > 0) {
+    return {
+      success: true,
+      message: 'Product updated',
+      status: 'applied',
+      product: mapRowToProduct(result.rows[0]),
+    };
+  }
+  
+  return staleOrMissing(productId);
+});
+
+/**
+ * Archive or unarchive a product, optionally only if it is still at
+ * expectedUpdatedAt.
+ */
+export const setProductArchived = traced('stockRepository.setProductArchived', async (
+  productId: string,
+  archived: boolean,
+  expectedUpdatedAt?: Date
+): Promise<ProductChangeResult> => {
+  const result = await (await getPool()).query(
+    `UPDATE products
+     SET archived_at = CASE WHEN $2 THEN CURRENT_TIMESTAMP ELSE NULL END
+     WHERE id = $1
+       AND (archived_at IS NOT NULL) <> $2
+       AND ($3::timestamptz IS NULL OR date_trunc('milliseconds', updated_at) = $3)
+     RETURNING *`,
+    [productId, archived, expectedUpdatedAt || null]
+  );
+  
+  if (result.rows.length > 0) {
+    return {
+      success: true,
+      message: archived ? 'Product archived' : 'Product unarchived',
+      status: 'applied',
+      product: mapRowToProduct(result.rows[0]),
+    };
+  }
+  
+  const product = await getProduct(productId);
+  if (product && (product.archivedAt !== null) === archived) {
+    return {
+      success: true,
+      message: archived ? 'Product already archived' : 'Product is not archived',
+      status: 'unchanged',
+      product,
+    };
+  }
+  
+  return staleOrMissing(productId);
+});
+
+/**
+ * Record a stock movement made by warehouse staff at one location, with its
+ * audit row. Units held by active reservations there are still on the
+ * shelf: a cycle count includes them, so the location's available stock
+ * becomes the count minus those units, and neither a count nor a write-off
+ * may take it below them.
+ */
+export const adjustStock = traced('stockRepository.adjustStock', async (
+  productId: string,
+  input: StockMovementInput
+): Promise<StockMovementResult> => {
+  const locationId = input.locationId || DEFAULT_LOCATION;
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const productResult = await client.query(
+      'SELECT stock, low_stock_threshold FROM products WHERE id = $1 FOR UPDATE',
+      [productId]
+    );
+    
+    if (productResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: `Product ${productId} not found`,
+        status: 'not_found',
+      };
+    }
+    
+    const locationResult = await client.query(
+      `SELECT COALESCE(pl.stock, 0) AS stock,
+              (SELECT COALESCE(SUM(quantity), 0)::int FROM reservations
+               WHERE product_id = $1 AND location_id = l.id AND status = 'active') AS reserved
+       FROM locations l
+       LEFT JOIN product_locations pl ON pl.location_id = l.id AND pl.product_id = $1
+       WHERE l.id = $2`,
+      [productId, locationId]
+    );
+    
+    if (locationResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: `Location ${locationId} not found`,
+        status: 'location_not_found',
+      };
+    }
+    
+    const previousStock: number = productResult.rows[0].stock;
+    const previousLocationStock: number = locationResult.rows[0].stock;
+    const reservedStock: number = locationResult.rows[0].reserved;
+    const quantityChange = input.kind === 'restock' ? input.quantity
+      : input.kind === 'write_off' ? -input.quantity
+      : input.quantity - reservedStock - previousLocationStock;
+    const newStock = previousStock + quantityChange;
+    const locationStock = previousLocationStock + quantityChange;
+    
+    if (locationStock < 0) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: input.kind === 'count'
+          ? `Counted ${input.quantity} but ${reservedStock} unit(s) at ${locationId} are held by active reservations`
+          : `Cannot write off ${input.quantity}, only ${previousLocationStock} available at ${locationId}`,
+        status: 'insufficient_stock',
+      };
+    }
+    
+    await client.query(
+      'UPDATE products SET stock = $1 WHERE id = $2',
+      [newStock, productId]
+    );
+    
+    await client.query(
+      `INSERT INTO product_locations (product_id, location_id, stock) VALUES ($1, $2, $3)
+       ON CONFLICT (product_id, location_id) DO UPDATE SET stock = EXCLUDED.stock`,
+      [productId, locationId, locationStock]
+    );
+    
+    await client.query(
+      `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, location_change, reason, reason_code, actor_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $3, $7, $8, $9)`,
+      [
+        productId,
+        input.kind === 'restock' ? 'restock' : 'adjust',
+        quantityChange,
+        previousStock,
+        newStock,
+        locationId,
+        input.note || input.kind,
+        input.reasonCode,
+        input.actorId,
+      ]
+    );
+    
+    await client.query('COMMIT');
+    
+    return {
+      success: true,
+      message: `Stock ${previousStock} -> ${newStock} (${locationId}: ${previousLocationStock} -> ${locationStock})`,
+      status: 'applied',
+      movement: {
+        productId,
+        kind: input.kind,
+        locationId,
+        quantityChange,
+        previousStock,
+        newStock,
+        locationStock,
+        reservedStock,
+        lowStockThreshold: productResult.rows[0].low_stock_threshold,
+        reasonCode: input.reasonCode,
+        actorId: input.actorId,
+        ...(input.note ? { note: input.note } : {}),
+      },
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'adjustStock', productId, kind: input.kind });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * Move available stock of a product between two locations. The product's
+ * total is unchanged; each side gets an audit row with its location change.
+ */
+export const transferStock = traced('stockRepository.transferStock', async (
+  productId: string,
+  input: StockTransferInput
+): Promise<StockTransferResult> => {
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const productResult = await client.query(
+      'SELECT stock FROM products WHERE id = $1 FOR UPDATE',
+      [productId]
+    );
+    
+    if (productResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: `Product ${productId} not found`,
+        status: 'not_found',
+      };
+    }
+    
+    const locationResult = await client.query(
+      `SELECT l.id, COALESCE(pl.stock, 0) AS stock
+       FROM locations l
+       LEFT JOIN product_locations pl ON pl.location_id = l.id AND pl.product_id = $1
+       WHERE l.id = ANY($2)`,
+      [productId, [input.fromLocationId, input.toLocationId]]
+    );
+    const stockAt = new Map<string, number>(locationResult.rows.map(row => [row.id, row.stock]));
+    
+    const missing = [input.fromLocationId, input.toLocationId].find(id => !stockAt.has(id));
+    if (missing) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: `Location ${missing} not found`,
+        status: 'location_not_found',
+      };
+    }
+    
+    const fromStock = stockAt.get(input.fromLocationId)! - input.quantity;
+    const toStock = stockAt.get(input.toLocationId)! + input.quantity;
+    
+    if (fromStock < 0) {
+      await client.query('ROLLBACK');
+      return {
+        success: false,
+        message: `Cannot transfer ${input.quantity}, only ${stockAt.get(input.fromLocationId)} available at ${input.fromLocationId}`,
+        status: 'insufficient_stock',
+      };
+    }
+    
+    const stock: number = productResult.rows[0].stock;
+    
+    for (const [locationId, locationStock, locationChange] of [
+      [input.fromLocationId, fromStock, -input.quantity],
+      [input.toLocationId, toStock, input.quantity],
+    ] as Array<[string, number, number]>) {
+      await client.query(
+        `INSERT INTO product_locations (product_id, location_id, stock) VALUES ($1, $2, $3)
+         ON CONFLICT (product_id, location_id) DO UPDATE SET stock = EXCLUDED.stock`,
+        [productId, locationId, locationStock]
+      );
+      
+      await client.query(
+        `INSERT INTO stock_audit_log (product_id, operation, quantity_change, previous_stock, new_stock, location_id, location_change, reason, reason_code, actor_id)
+         VALUES ($1, 'transfer', 0, $2, $2, $3, $4, $5, 'transfer', $6)`,
+        [
+          productId,
+          stock,
+          locationId,
+          locationChange,
+          input.note || `${input.fromLocationId} -> ${input.toLocationId}`,
+          input.actorId,
+        ]
+      );
+    }
+    
+    await client.query('COMMIT');
+    
+    return {
+      success: true,
+      message: `Moved ${input.quantity} from ${input.fromLocationId} to ${input.toLocationId}`,
+      status: 'applied',
+      transfer: {
+        productId,
+        fromLocationId: input.fromLocationId,
+        toLocationId: input.toLocationId,
+        quantity: input.quantity,
+        fromStock,
+        toStock,
+        actorId: input.actorId,
+        ...(input.note ? { note: input.note } : {}),
+      },
     };
   } catch (error) {
-    trackException(error as Error, { operation: 'findReservationByOrderId', orderId });
+    await client.query('ROLLBACK');
+    trackException(error as Error, { operation: 'transferStock', productId });
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+export const getLocations = traced('stockRepository.getLocations', async (): Promise<Location[]> => {
+  const result = await (await getPool()).query('SELECT * FROM locations ORDER BY priority, id');
+  
+  return result.rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    priority: row.priority,
+    createdAt: row.created_at,
+  }));
+});
+
+/**
+ * Add a stock location. Returns null if the id is taken.
+ */
+export const createLocation = traced('stockRepository.createLocation', async (
+  id: string,
+  name: string,
+  priority: number
+): Promise<Location | null> => {
+  const result = await (await getPool()).query(
+    `INSERT INTO locations (id, name, priority) VALUES ($1, $2, $3)
+     ON CONFLICT (id) DO NOTHING
+     RETURNING *`,
+    [id, name, priority]
+  );
+  
+  if (result.rows.length === 0) {
+    return null;
+  }
+  
+  return {
+    id: result.rows[0].id,
+    name: result.rows[0].name,
+    priority: result.rows[0].priority,
+    createdAt: result.rows[0].created_at,
+  };
+});
+
+/**
+ * Page through stock_audit_log, oldest first or with order 'desc' newest
+ * first. after is the nextAfter of the previous page.
+ */
+export const queryStockAudit = traced('stockRepository.queryStockAudit', async (
+  filter: StockAuditFilter = {},
+  after?: number,
+  limit: number = 100,
+  order: 'asc' | 'desc' = 'asc'
+): Promise<StockAuditPage> => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const addParam = (value: any): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  
+  if (filter.productIds && filter.productIds.length > 0) {
+    conditions.push(`product_id = ANY(${addParam(filter.productIds)})`);
+  }
+  if (filter.locationIds && filter.locationIds.length > 0) {
+    conditions.push(`location_id = ANY(${addParam(filter.locationIds)})`);
+  }
+  if (filter.operations && filter.operations.length > 0) {
+    conditions.push(`operation = ANY(${addParam(filter.operations)})`);
+  }
+  if (filter.orderId) {
+    conditions.push(`order_id = ${addParam(filter.orderId)}`);
+  }
+  if (filter.reservationId) {
+    const reservationParam = addParam(filter.reservationId);
+    conditions.push(`(reservation_id = ${reservationParam}
+      OR reservation_id IN (SELECT id FROM reservations WHERE batch_id = ${reservationParam}))`);
+  }
+  if (filter.from) {
+    conditions.push(`created_at >= ${addParam(filter.from)}`);
+  }
+  if (filter.to) {
+    conditions.push(`created_at < ${addParam(filter.to)}`);
+  }
+  if (after !== undefined) {
+    conditions.push(`id ${order === 'asc' ? '>' : '<'} ${addParam(after)}`);
+  }
+  
+  const result = await (await getPool()).query(
+    `SELECT * FROM stock_audit_log
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY id ${order === 'asc' ? 'ASC' : 'DESC'}
+     LIMIT ${addParam(limit + 1)}`,
+    params
+  );
+  
+  const rows = result.rows.slice(0, limit);
+  
+  return {
+    entries: rows.map(mapRowToAuditEntry),
+    nextAfter: result.rows.length > limit ? rows[rows.length - 1].id : null,
+  };
+});
+
+/**
+ * Replay every product's audit rows: the sum of their quantity changes and
+ * the new_stock of the latest one should both equal products.stock, and each
+ * row should continue from the one before it. Per location, the sum of
+ * location_change should equal product_locations.stock. Read in one snapshot.
+ */
+export const getLedgerBalances = traced('stockRepository.getLedgerBalances', async (): Promise<LedgerBalance[]> => {
+  const client = await (await getPool()).connect();
+  
+  try {
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    
+    const result = await client.query(
+      `SELECT p.id, p.stock,
+              COALESCE(l.ledger_stock, 0) AS ledger_stock,
+              COALESCE(l.entries, 0) AS entries,
+              COALESCE(l.broken_entries, 0) AS broken_entries,
+              l.last_new_stock
+       FROM products p
+       LEFT JOIN (
+         SELECT product_id,
+                SUM(quantity_change)::int AS ledger_stock,
+                COUNT(*)::int AS entries,
+                COUNT(*) FILTER (
+                  WHERE previous_stock <> COALESCE(preceding_stock, previous_stock)
+                     OR new_stock - previous_stock <> quantity_change
+                )::int AS broken_entries,
+                (ARRAY_AGG(new_stock ORDER BY id DESC))[1] AS last_new_stock
+         FROM (
+           SELECT *, LAG(new_stock) OVER (PARTITION BY product_id ORDER BY id) AS preceding_stock
+           FROM stock_audit_log
+         ) chained
+         GROUP BY product_id
+       ) l ON l.product_id = p.id
+       ORDER BY p.id`
+    );
+    
+    const locationResult = await client.query(
+      `SELECT COALESCE(pl.product_id, a.product_id) AS product_id,
+              COALESCE(pl.location_id, a.location_id) AS location_id,
+              COALESCE(pl.stock, 0) AS stock,
+              COALESCE(pl.stock, 0) <> COALESCE(a.ledger_stock, 0) AS mismatched
+       FROM product_locations pl
+       FULL JOIN (
+         SELECT product_id, location_id, SUM(location_change)::int AS ledger_stock
+         FROM stock_audit_log
+         WHERE location_id IS NOT NULL
+         GROUP BY product_id, location_id
+       ) a ON a.product_id = pl.product_id AND a.location_id = pl.location_id`
+    );
+    
+    await client.query('COMMIT');
+    
+    const locationStock = new Map<string, number>();
+    const mismatchedLocations = new Map<string, string[]>();
+    for (const row of locationResult.rows) {
+      locationStock.set(row.product_id, (locationStock.get(row.product_id) || 0) + row.stock);
+      if (row.mismatched) {
+        mismatchedLocations.set(row.product_id, [...(mismatchedLocations.get(row.product_id) || []), row.location_id]);
+      }
+    }
+    
+    return result.rows.map(row => ({
+      productId: row.id,
+      stock: row.stock,
+      ledgerStock: row.ledger_stock,
+      entries: row.entries,
+      brokenEntries: row.broken_entries,
+      lastNewStock: row.last_new_stock,
+      locationStock: locationStock.get(row.id) || 0,
+      mismatchedLocations: mismatchedLocations.get(row.id) || [],
+    }));
+  } catch (error) {
+    await client.query('ROLLBACK');
     throw error;
+  } finally {
+    client.release();
   }
+});
+
+async function staleOrMissing(productId: string): Promise<ProductChangeResult> {
+  const product = await getProduct(productId);
+  
+  return product
+    ? {
+        success: false,
+        message: 'Product was modified since it was read, reload it and try again',
+        status: 'conflict',
+        product,
+      }
+    : {
+        success: false,
+        message: `Product ${productId} not found`,
+        status: 'not_found',
+      };
 }
 
-export async function checkDatabaseHealth(): Promise<boolean> {
+export const checkDatabaseHealth = traced('stockRepository.checkDatabaseHealth', async (): Promise<boolean> => {
   try {
     await (await getPool()).query('SELECT 1');
     return true;
@@ -351,6 +2318,70 @@ export async function checkDatabaseHealth(): Promise<boolean> {
     trackException(error as Error, { operation: 'checkDatabaseHealth' });
     return false;
   }
+});
+
+function mapRowToProduct(row: any): Product {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    price: parseFloat(row.price),
+    stock: row.stock,
+    lowStockThreshold: row.low_stock_threshold,
+    backorderLimit: row.backorder_limit,
+    archivedAt: row.archived_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapRowToAuditEntry(row: any): StockAuditEntry {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    operation: row.operation,
+    quantityChange: row.quantity_change,
+    previousStock: row.previous_stock,
+    newStock: row.new_stock,
+    locationId: row.location_id,
+    locationChange: row.location_change,
+    orderId: row.order_id,
+    reservationId: row.reservation_id,
+    reason: row.reason,
+    reasonCode: row.reason_code,
+    actorId: row.actor_id,
+    createdAt: row.created_at,
+  };
+}
+
+function mapRowToReservation(row: any): Reservation {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    productId: row.product_id,
+    quantity: row.quantity,
+    status: row.status,
+    idempotencyKey: row.idempotency_key,
+    batchId: row.batch_id,
+    locationId: row.location_id,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapRowToBackorder(row: any): Backorder {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    // BIGSERIAL comes back as a string
+    position: Number(row.position),
+    status: row.status,
+    lines: row.lines,
+    reservationId: row.reservation_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
 }
 
 export { pool };
@@ -1,15 +1,23 @@
 import * as grpc from '@grpc/grpc-js';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { Counter } from 'prom-client';
 import * as protoLoader from '@grpc/proto-loader';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
 import * as stockRepository from '../domain/stockRepository';
+import * as productCatalog from '../domain/productCatalog';
+import { fillBackorders } from '../domain/backorders';
+import { authorizeAdmin } from '../../../shared/adminAuth';
 import { applyGremlinLatency, shouldSimulateCrash, simulateCrash } from '../middleware/gremlin';
 import {
   publishInventoryEvent,
+  buildStockReleasedEvents,
+  publishReleasedStockThresholds,
+  buildStockCommittedEvents,
   publishMetricEvent,
   generateEventId,
 } from '../publishers/inventoryPublisher';
 import { trackException, trackEvent, trackMetric } from '../telemetry';
+import { extractTraceContext, withSpan } from '../../../shared/tracing';
+import { recordRpcServerCall } from '../../../shared/metrics';
 
 // Load proto - use environment variable or default to container path
 const PROTO_PATH = process.env.PROTO_PATH || '/app/protos/inventory.proto';
@@ -24,27 +32,78 @@ const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
 
 const inventoryProto = grpc.loadPackageDefinition(packageDefinition).inventory as any;
 
+// Map ReserveResult status to proto enum
+const statusMap: Record<string, number> = {
+  confirmed: 1,
+  insufficient_stock: 2,
+  product_not_found: 3,
+  already_exists: 4,
+  backordered: 5,
+};
+
+// Map ProductChangeResult status to proto enum
+const productChangeStatusMap: Record<stockRepository.ProductChangeStatus, number> = {
+  applied: 1,
+  not_found: 2,
+  conflict: 3,
+  already_exists: 4,
+  unchanged: 5,
+};
+
+// UpdateProductRequest.update_fields names, as camelCase request fields
+const UPDATE_FIELDS: Record<string, keyof stockRepository.ProductChanges> = {
+  name: 'name',
+  description: 'description',
+  price: 'price',
+  low_stock_threshold: 'lowStockThreshold',
+  backorder_limit: 'backorderLimit',
+};
+
+const reservationsTotal = new Counter({
+  name: 'reservations_total',
+  help: 'Reservation attempts by RPC and ReserveResult status',
+  labelNames: ['method', 'status'],
+});
+
+async function publishLowStockAlert(productId: string): Promise<void> {
+  const product = await stockRepository.getProduct(productId);
+  if (product && product.stock <= product.lowStockThreshold) {
+    await publishInventoryEvent({
+      eventType: 'LowStockAlert',
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      data: {
+        productId,
+        currentStock: product.stock,
+        threshold: product.lowStockThreshold,
+      },
+    });
+  }
+}
+
 // Handler implementations
 async function reserveStock(
   call: grpc.ServerUnaryCall<any, any>,
   callback: grpc.sendUnaryData<any>
 ): Promise<void> {
   const startTime = Date.now();
-  const { orderId, productId, quantity, idempotencyKey } = call.request;
+  const { orderId, productId, quantity, idempotencyKey, ttlSeconds } = call.request;
   
   console.log(`[gRPC] ReserveStock request: order=${orderId}, product=${productId}, qty=${quantity}`);
   
   try {
     // Apply Gremlin latency if enabled
-    const latencyApplied = await applyGremlinLatency();
+    await applyGremlinLatency();
     
     // Process the reservation
     const result = await stockRepository.reserveStock(
       orderId,
       productId,
       quantity,
-      idempotencyKey || undefined
+      idempotencyKey || undefined,
+      ttlSeconds || undefined
     );
+    reservationsTotal.inc({ method: 'ReserveStock', status: result.status });
     
     // Check for Schrödinger crash (after DB commit, before response)
     if (result.success && shouldSimulateCrash()) {
@@ -61,37 +120,20 @@ async function reserveStock(
         timestamp: new Date().toISOString(),
         data: {
           orderId,
-          productId,
-          quantity,
-          remainingStock: result.remainingStock!,
           reservationId: result.reservationId!,
+          items: [{
+            productId,
+            quantity,
+            remainingStock: result.remainingStock!,
+            reservationId: result.reservationId!,
+          }],
         },
       });
       
       // Check for low stock alert
-      const product = await stockRepository.getProduct(productId);
-      if (product && product.stock <= product.lowStockThreshold) {
-        await publishInventoryEvent({
-          eventType: 'LowStockAlert',
-          eventId: generateEventId(),
-          timestamp: new Date().toISOString(),
-          data: {
-            productId,
-            currentStock: product.stock,
-            threshold: product.lowStockThreshold,
-          },
-        });
-      }
+      await publishLowStockAlert(productId);
     }
     
-    // Map status to proto enum
-    const statusMap: Record<string, number> = {
-      confirmed: 1,
-      insufficient_stock: 2,
-      product_not_found: 3,
-      already_exists: 4,
-    };
-    
     const duration = Date.now() - startTime;
     trackMetric('ReserveStock.Duration', duration);
     
@@ -139,34 +181,128 @@ async function reserveStock(
   }
 }
 
-async function releaseStock(
+async function reserveStockBatch(
   call: grpc.ServerUnaryCall<any, any>,
   callback: grpc.sendUnaryData<any>
 ): Promise<void> {
   const startTime = Date.now();
-  const { orderId, reservationId, reason } = call.request;
+  const { orderId, idempotencyKey, ttlSeconds, allowBackorder } = call.request;
+  const items: stockRepository.StockLine[] = (call.request.items || []).map((item: any) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+  }));
   
-  console.log(`[gRPC] ReleaseStock request: order=${orderId}, reservation=${reservationId}`);
+  console.log(`[gRPC] ReserveStockBatch request: order=${orderId}, lines=${items.length}${allowBackorder ? ', backorder allowed' : ''}`);
+  
+  if (items.length === 0 || items.some(item => !item.productId || item.quantity <= 0)) {
+    callback({
+      code: grpc.status.INVALID_ARGUMENT,
+      message: 'items must contain at least one line with a productId and positive quantity',
+    });
+    return;
+  }
   
   try {
     await applyGremlinLatency();
     
-    const result = await stockRepository.releaseStock(orderId, reservationId, reason);
+    const result = await stockRepository.reserveStockBatch(
+      orderId,
+      items,
+      idempotencyKey || undefined,
+      ttlSeconds || undefined,
+      allowBackorder
+    );
+    reservationsTotal.inc({ method: 'ReserveStockBatch', status: result.status });
+    
+    // Check for Schrödinger crash (after DB commit, before response)
+    if (result.success && shouldSimulateCrash()) {
+      simulateCrash();
+    }
     
-    if (result.success) {
-      // Get product info for the event
+    if (result.success && result.status !== 'already_exists') {
       await publishInventoryEvent({
-        eventType: 'StockReleased',
+        eventType: 'StockReserved',
         eventId: generateEventId(),
         timestamp: new Date().toISOString(),
         data: {
           orderId,
-          productId: 'unknown', // Would need to get from reservation
-          quantity: 0, // Would need to get from reservation
-          newStock: result.newStock!,
-          reason,
+          reservationId: result.reservationId!,
+          items: result.lines,
         },
       });
+      
+      for (const line of result.lines) {
+        await publishLowStockAlert(line.productId);
+      }
+    }
+    
+    const duration = Date.now() - startTime;
+    trackMetric('ReserveStockBatch.Duration', duration);
+    
+    await publishMetricEvent({
+      eventType: 'ResponseTime',
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      data: {
+        service: 'inventory-service',
+        operation: 'ReserveStockBatch',
+        durationMs: duration,
+        success: result.success,
+      },
+    });
+    
+    callback(null, {
+      success: result.success,
+      message: result.message,
+      reservationId: result.reservationId || '',
+      lines: result.lines,
+      status: statusMap[result.status] || 0,
+      failedProductId: result.failedProductId || '',
+      backorderId: result.backorderId || '',
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    trackException(error as Error, { operation: 'ReserveStockBatch', orderId });
+    
+    await publishMetricEvent({
+      eventType: 'ResponseTime',
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      data: {
+        service: 'inventory-service',
+        operation: 'ReserveStockBatch',
+        durationMs: duration,
+        success: false,
+      },
+    });
+    
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+async function releaseStock(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const startTime = Date.now();
+  const { orderId, reservationId, reason } = call.request;
+  
+  console.log(`[gRPC] ReleaseStock request: order=${orderId}, reservation=${reservationId}`);
+  
+  try {
+    await applyGremlinLatency();
+    
+    const result = await stockRepository.releaseStock(orderId, reservationId, reason, lines =>
+      buildStockReleasedEvents(orderId, reservationId, lines, reason)
+    );
+    
+    // A repeated release has already published and refilled
+    if (result.success && !result.alreadyReleased) {
+      await publishReleasedStockThresholds(result.lines);
+      await fillBackorders(`release of ${reservationId}`);
     }
     
     const duration = Date.now() - startTime;
@@ -176,6 +312,7 @@ async function releaseStock(
       success: result.success,
       message: result.message,
       newStock: result.newStock || 0,
+      alreadyReleased: result.alreadyReleased || false,
     });
   } catch (error) {
     trackException(error as Error, { operation: 'ReleaseStock', orderId, reservationId });
@@ -186,6 +323,86 @@ async function releaseStock(
   }
 }
 
+async function confirmReservation(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const startTime = Date.now();
+  const { orderId, reservationId } = call.request;
+  
+  console.log(`[gRPC] ConfirmReservation request: order=${orderId}, reservation=${reservationId}`);
+  
+  if (!orderId || !reservationId) {
+    callback({
+      code: grpc.status.INVALID_ARGUMENT,
+      message: 'orderId and reservationId are required',
+    });
+    return;
+  }
+  
+  try {
+    await applyGremlinLatency();
+    
+    const result = await stockRepository.confirmReservation(orderId, reservationId);
+    
+    const duration = Date.now() - startTime;
+    trackMetric('ConfirmReservation.Duration', duration);
+    
+    callback(null, {
+      success: result.success,
+      message: result.message,
+    });
+  } catch (error) {
+    trackException(error as Error, { operation: 'ConfirmReservation', orderId, reservationId });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+async function commitReservation(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const startTime = Date.now();
+  const { orderId, reservationId } = call.request;
+  
+  console.log(`[gRPC] CommitReservation request: order=${orderId}, reservation=${reservationId}`);
+  
+  if (!orderId || !reservationId) {
+    callback({
+      code: grpc.status.INVALID_ARGUMENT,
+      message: 'orderId and reservationId are required',
+    });
+    return;
+  }
+  
+  try {
+    await applyGremlinLatency();
+    
+    // Retries of an already committed reservation commit nothing, so emit no second event
+    const result = await stockRepository.commitReservation(orderId, reservationId, lines =>
+      buildStockCommittedEvents(orderId, reservationId, lines)
+    );
+    
+    const duration = Date.now() - startTime;
+    trackMetric('CommitReservation.Duration', duration);
+    
+    callback(null, {
+      success: result.success,
+      message: result.message,
+      alreadyCommitted: result.alreadyCommitted,
+    });
+  } catch (error) {
+    trackException(error as Error, { operation: 'CommitReservation', orderId, reservationId });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
 async function checkStock(
   call: grpc.ServerUnaryCall<any, any>,
   callback: grpc.sendUnaryData<any>
@@ -197,28 +414,324 @@ async function checkStock(
   try {
     await applyGremlinLatency();
     
-    const product = await stockRepository.getProduct(productId);
+    const [level] = productId ? await stockRepository.getStockLevels([productId]) : [];
     
-    if (!product) {
-      callback(null, {
-        found: false,
-        productId,
-        productName: '',
-        availableStock: 0,
-        reservedStock: 0,
+    callback(null, level ? toStockResponse(level) : notFoundStockResponse(productId));
+  } catch (error) {
+    trackException(error as Error, { operation: 'CheckStock', productId });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+async function checkStockBatch(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const productIds: string[] = call.request.productIds || [];
+  
+  console.log(`[gRPC] CheckStockBatch request: ${productIds.length > 0 ? productIds.join(',') : 'all products'}`);
+  
+  try {
+    await applyGremlinLatency();
+    
+    const levels = await stockRepository.getStockLevels(productIds);
+    
+    // Keep the caller's order and report unknown ids as not found
+    const products = productIds.length > 0
+      ? productIds.map(id => {
+          const level = levels.find(l => l.productId === id);
+          return level ? toStockResponse(level) : notFoundStockResponse(id);
+        })
+      : levels.map(toStockResponse);
+    
+    callback(null, { products });
+  } catch (error) {
+    trackException(error as Error, { operation: 'CheckStockBatch' });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+function toStockResponse(level: stockRepository.StockLevel) {
+  return {
+    found: true,
+    productId: level.productId,
+    productName: level.productName,
+    availableStock: level.availableStock,
+    reservedStock: level.reservedStock,
+    onHandStock: level.onHandStock,
+    locations: level.locations,
+  };
+}
+
+function notFoundStockResponse(productId: string) {
+  return {
+    found: false,
+    productId,
+    productName: '',
+    availableStock: 0,
+    reservedStock: 0,
+    onHandStock: 0,
+    locations: [],
+  };
+}
+
+async function verifyOrder(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const startTime = Date.now();
+  const { orderId, idempotencyKey } = call.request;
+  const items: stockRepository.StockLine[] = (call.request.items || []).map((item: any) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+  }));
+  
+  console.log(`[gRPC] VerifyOrder request: order=${orderId}, lines=${items.length}`);
+  
+  if (items.length === 0) {
+    callback({
+      code: grpc.status.INVALID_ARGUMENT,
+      message: 'items must contain at least one line',
+    });
+    return;
+  }
+  
+  try {
+    await applyGremlinLatency();
+    
+    const result = await stockRepository.verifyOrderReservation(
+      orderId,
+      items,
+      idempotencyKey
+    );
+    
+    if (result.newlyReserved) {
+      await publishInventoryEvent({
+        eventType: 'StockReserved',
+        eventId: generateEventId(),
+        timestamp: new Date().toISOString(),
+        data: {
+          orderId,
+          reservationId: result.reservationId!,
+          items: result.lines,
+        },
       });
-      return;
     }
     
+    trackEvent('OrderVerifiedViaGrpc', {
+      orderId,
+      verified: String(result.verified),
+      recoveredFromCrash: String(result.recoveredFromCrash),
+    });
+    trackMetric('VerifyOrder.Duration', Date.now() - startTime);
+    
     callback(null, {
-      found: true,
-      productId: product.id,
-      productName: product.name,
-      availableStock: product.stock,
-      reservedStock: 0, // Would need to calculate from active reservations
+      verified: result.verified,
+      message: result.message,
+      reservationId: result.reservationId || '',
+      recoveredFromCrash: result.recoveredFromCrash,
+      backordered: result.backordered,
     });
   } catch (error) {
-    trackException(error as Error, { operation: 'CheckStock', productId });
+    trackException(error as Error, { operation: 'VerifyOrder', orderId });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+async function cancelBackorder(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const { orderId } = call.request;
+  
+  console.log(`[gRPC] CancelBackorder request: order=${orderId}`);
+  
+  if (!orderId) {
+    callback({
+      code: grpc.status.INVALID_ARGUMENT,
+      message: 'orderId is required',
+    });
+    return;
+  }
+  
+  try {
+    const result = await stockRepository.cancelBackorder(orderId);
+    
+    callback(null, {
+      success: result.success,
+      message: result.message,
+      status: result.status,
+      reservationId: result.reservationId || '',
+    });
+  } catch (error) {
+    trackException(error as Error, { operation: 'CancelBackorder', orderId });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Reject catalog admin calls without a valid admin token in the metadata.
+ * Returns false after answering the call.
+ */
+function authorizeAdminCall(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): boolean {
+  const result = authorizeAdmin(call.metadata.get('authorization')[0]);
+  
+  if (result === 'disabled') {
+    callback({
+      code: grpc.status.UNAVAILABLE,
+      message: 'Admin API disabled: ADMIN_API_TOKEN is not set',
+    });
+    return false;
+  }
+  
+  if (result === 'unauthorized') {
+    callback({
+      code: grpc.status.UNAUTHENTICATED,
+      message: 'Missing or invalid admin token',
+    });
+    return false;
+  }
+  
+  return true;
+}
+
+function toProductChangeResponse(result: stockRepository.ProductChangeResult) {
+  return {
+    success: result.success,
+    message: result.message,
+    status: productChangeStatusMap[result.status] || 0,
+    product: result.product ? {
+      id: result.product.id,
+      name: result.product.name,
+      description: result.product.description,
+      price: result.product.price,
+      stock: result.product.stock,
+      lowStockThreshold: result.product.lowStockThreshold,
+      backorderLimit: result.product.backorderLimit,
+      archived: result.product.archivedAt !== null,
+      updatedAt: result.product.updatedAt.toISOString(),
+    } : null,
+  };
+}
+
+async function createProduct(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  console.log(`[gRPC] CreateProduct request: product=${call.request.id}`);
+  
+  if (!authorizeAdminCall(call, callback)) {
+    return;
+  }
+  
+  const input = productCatalog.validateNewProduct(call.request);
+  if (input.error !== undefined) {
+    callback({ code: grpc.status.INVALID_ARGUMENT, message: input.error });
+    return;
+  }
+  
+  try {
+    const result = await productCatalog.createProduct(input.value, 'grpc');
+    callback(null, toProductChangeResponse(result));
+  } catch (error) {
+    trackException(error as Error, { operation: 'CreateProduct', productId: call.request.id });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+async function updateProduct(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const { productId, expectedUpdatedAt } = call.request;
+  const updateFields: string[] = call.request.updateFields || [];
+  
+  console.log(`[gRPC] UpdateProduct request: product=${productId}, fields=${updateFields.join(',')}`);
+  
+  if (!authorizeAdminCall(call, callback)) {
+    return;
+  }
+  
+  // Proto3 scalars have no presence, so update_fields says which ones to apply
+  const unknownField = updateFields.find(field => !UPDATE_FIELDS[field]);
+  if (unknownField) {
+    callback({
+      code: grpc.status.INVALID_ARGUMENT,
+      message: `Unknown update field ${unknownField}: use ${Object.keys(UPDATE_FIELDS).join(', ')}`,
+    });
+    return;
+  }
+  
+  const requested: Record<string, unknown> = {};
+  for (const field of updateFields) {
+    requested[UPDATE_FIELDS[field]] = call.request[UPDATE_FIELDS[field]];
+  }
+  
+  const changes = productCatalog.validateProductChanges(requested);
+  const expected = productCatalog.parseExpectedUpdatedAt(expectedUpdatedAt);
+  const error = changes.error ?? expected.error;
+  if (error !== undefined) {
+    callback({ code: grpc.status.INVALID_ARGUMENT, message: error });
+    return;
+  }
+  
+  try {
+    const result = await productCatalog.updateProduct(productId, changes.value!, expected.value!, 'grpc');
+    callback(null, toProductChangeResponse(result));
+  } catch (error) {
+    trackException(error as Error, { operation: 'UpdateProduct', productId });
+    callback({
+      code: grpc.status.INTERNAL,
+      message: (error as Error).message,
+    });
+  }
+}
+
+async function setProductArchived(
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+): Promise<void> {
+  const { productId, archived, expectedUpdatedAt } = call.request;
+  
+  console.log(`[gRPC] SetProductArchived request: product=${productId}, archived=${archived}`);
+  
+  if (!authorizeAdminCall(call, callback)) {
+    return;
+  }
+  
+  let expected: Date | undefined;
+  if (expectedUpdatedAt) {
+    const parsed = productCatalog.parseExpectedUpdatedAt(expectedUpdatedAt);
+    if (parsed.error !== undefined) {
+      callback({ code: grpc.status.INVALID_ARGUMENT, message: parsed.error });
+      return;
+    }
+    expected = parsed.value;
+  }
+  
+  try {
+    const result = await productCatalog.setProductArchived(productId, archived, expected, 'grpc');
+    callback(null, toProductChangeResponse(result));
+  } catch (error) {
+    trackException(error as Error, { operation: 'SetProductArchived', productId });
     callback({
       code: grpc.status.INTERNAL,
       message: (error as Error).message,
@@ -252,15 +765,55 @@ async function healthCheck(
   }
 }
 
+type UnaryHandler = (
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+) => Promise<void>;
+
+/**
+ * Run a unary handler inside a server span continuing the caller's trace
+ * context from the gRPC metadata. Error responses mark the span as failed;
+ * every response is timed for /metrics.
+ */
+function withServerSpan(method: string, handler: UnaryHandler): grpc.handleUnaryCall<any, any> {
+  return (call, callback) => {
+    const startTime = Date.now();
+    withSpan(`InventoryService/${method}`, async (span) => {
+      await handler(call, (error, value) => {
+        recordRpcServerCall(method, Date.now() - startTime, !error);
+        if (error) {
+          const serviceError = error as grpc.ServiceError;
+          span.setAttribute('rpc.grpc.status_code', serviceError.code ?? grpc.status.UNKNOWN);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: serviceError.message });
+        }
+        callback(error, value);
+      });
+    }, {
+      kind: 'server',
+      parent: extractTraceContext(call.metadata.getMap()),
+      attributes: { 'rpc.system': 'grpc', 'rpc.service': 'InventoryService', 'rpc.method': method },
+    }).catch(() => undefined);
+  };
+}
+
 // Create and start gRPC server
 export function createGrpcServer(): grpc.Server {
   const server = new grpc.Server();
   
   server.addService(inventoryProto.InventoryService.service, {
-    reserveStock,
-    releaseStock,
-    checkStock,
-    healthCheck,
+    reserveStock: withServerSpan('ReserveStock', reserveStock),
+    reserveStockBatch: withServerSpan('ReserveStockBatch', reserveStockBatch),
+    releaseStock: withServerSpan('ReleaseStock', releaseStock),
+    confirmReservation: withServerSpan('ConfirmReservation', confirmReservation),
+    commitReservation: withServerSpan('CommitReservation', commitReservation),
+    checkStock: withServerSpan('CheckStock', checkStock),
+    checkStockBatch: withServerSpan('CheckStockBatch', checkStockBatch),
+    verifyOrder: withServerSpan('VerifyOrder', verifyOrder),
+    cancelBackorder: withServerSpan('CancelBackorder', cancelBackorder),
+    createProduct: withServerSpan('CreateProduct', createProduct),
+    updateProduct: withServerSpan('UpdateProduct', updateProduct),
+    setProductArchived: withServerSpan('SetProductArchived', setProductArchived),
+    healthCheck: withServerSpan('HealthCheck', healthCheck),
   });
   
   return server;
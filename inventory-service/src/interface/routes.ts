@@ -1,17 +1,147 @@
 import { Router, Request, Response } from 'express';
 import * as stockRepository from '../domain/stockRepository';
+import * as productCatalog from '../domain/productCatalog';
+import * as stockAdjustments from '../domain/stockAdjustments';
+import { fillBackorders } from '../domain/backorders';
 import { getGremlinStatus, setGremlinLatency, setSchrödingerCrash } from '../middleware/gremlin';
+import { runLedgerIntegrityCheck } from '../jobs/ledgerIntegrityCheck';
+import { VERIFY_ORDERS_QUEUE } from '../consumers/verifyOrderConsumer';
+import {
+  buildStockCommittedEvents,
+  buildStockReleasedEvents,
+  publishReleasedStockThresholds,
+} from '../publishers/inventoryPublisher';
+import { getMessageBus, isDeadLetterId } from '../../../shared/bus';
+import { authorizeAdmin, requireAdmin } from '../../../shared/adminAuth';
 import { trackEvent } from '../telemetry';
 
 const router = Router();
 
+const RESERVATION_STATUSES = ['active', 'released', 'committed'];
+const BACKORDER_STATUSES = ['waiting', 'filled', 'cancelled'];
+const AUDIT_OPERATIONS = ['reserve', 'release', 'commit', 'restock', 'adjust', 'transfer'];
+const LOCATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+// Reservation and order ids: UUIDs, or codes such as ORD-123
+const RECORD_ID_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+const MAX_EXPORT_PAGE_SIZE = 1000;
+const DEFAULT_AUDIT_PAGE_SIZE = 100;
+
+// Query params may repeat (?status=a&status=b) or be comma-separated
+function readList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+interface StockAuditQuery {
+  filter: stockRepository.StockAuditFilter;
+  after?: number;
+  limit: number;
+  order: 'asc' | 'desc';
+}
+
+function readDate(value: unknown, name: string): Date | undefined | string {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? `${name} must be an ISO 8601 timestamp` : date;
+}
+
+/**
+ * Parse the stock audit query params shared by the product ledger and the
+ * global audit query: operation and locationId (repeatable or
+ * comma-separated), orderId,
+ * reservationId, from/to (created_at range, to exclusive), order (asc|desc),
+ * after and limit. Returns an error message for invalid params.
+ */
+function readStockAuditQuery(query: Request['query']): StockAuditQuery | string {
+  const operations = readList(query.operation);
+  const invalidOperation = operations.find(operation => !AUDIT_OPERATIONS.includes(operation));
+  if (invalidOperation) {
+    return `Invalid operation '${invalidOperation}'. Expected one of: ${AUDIT_OPERATIONS.join(', ')}`;
+  }
+  
+  const from = readDate(query.from, 'from');
+  const to = readDate(query.to, 'to');
+  if (typeof from === 'string') return from;
+  if (typeof to === 'string') return to;
+  
+  const order = query.order || 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    return 'order must be asc or desc';
+  }
+  
+  const limit = parseInt(query.limit as string || String(DEFAULT_AUDIT_PAGE_SIZE), 10);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_EXPORT_PAGE_SIZE) {
+    return `limit must be between 1 and ${MAX_EXPORT_PAGE_SIZE}`;
+  }
+  
+  const after = query.after === undefined || query.after === '' ? undefined : Number(query.after);
+  if (after !== undefined && !Number.isInteger(after)) {
+    return 'after must be the nextAfter of the previous page';
+  }
+  
+  return {
+    filter: {
+      productIds: readList(query.productId),
+      locationIds: readList(query.locationId),
+      operations: operations as stockRepository.StockAuditEntry['operation'][],
+      orderId: typeof query.orderId === 'string' && query.orderId ? query.orderId : undefined,
+      reservationId: typeof query.reservationId === 'string' && query.reservationId ? query.reservationId : undefined,
+      from,
+      to,
+    },
+    after,
+    limit,
+    order,
+  };
+}
+
+// Who moved stock and for which order; left out of the public ledger
+function redactAuditEntry(entry: stockRepository.StockAuditEntry): stockRepository.StockAuditEntry {
+  return { ...entry, orderId: null, reservationId: null, reason: null, actorId: null };
+}
+
+async function sendStockAuditPage(res: Response, query: StockAuditQuery, redact = false): Promise<void> {
+  const page = await stockRepository.queryStockAudit(query.filter, query.after, query.limit, query.order);
+  const entries = redact ? page.entries.map(redactAuditEntry) : page.entries;
+  
+  res.json({
+    success: true,
+    data: entries,
+    count: entries.length,
+    nextAfter: page.nextAfter,
+  });
+}
+
+const PRODUCT_CHANGE_HTTP_STATUS: Record<stockRepository.ProductChangeStatus, number> = {
+  applied: 200,
+  unchanged: 200,
+  not_found: 404,
+  conflict: 409,
+  already_exists: 409,
+};
+
+function sendProductChange(res: Response, result: stockRepository.ProductChangeResult, appliedStatus = 200): void {
+  res.status(result.status === 'applied' ? appliedStatus : PRODUCT_CHANGE_HTTP_STATUS[result.status]).json({
+    success: result.success,
+    data: result.product,
+    status: result.status,
+    ...(result.success ? { message: result.message } : { error: result.message }),
+  });
+}
+
 /**
  * GET /products
- * List all products with stock information
+ * List all products with stock information (?includeArchived=true adds
+ * archived products)
  */
 router.get('/products', async (req: Request, res: Response) => {
   try {
-    const products = await stockRepository.getAllProducts();
+    const products = await stockRepository.getAllProducts(req.query.includeArchived === 'true');
     res.json({
       success: true,
       data: products,
@@ -54,6 +184,607 @@ router.get('/products/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /products/:id/ledger
+ * The product's stock audit log, oldest first, paginated and filterable
+ * like GET /admin/stock-audit. Without the admin token, order, reservation,
+ * actor and reason are left out and cannot be filtered on.
+ */
+router.get('/products/:id/ledger', async (req: Request, res: Response) => {
+  const query = readStockAuditQuery(req.query);
+  if (typeof query === 'string') {
+    return res.status(400).json({ success: false, error: query });
+  }
+  
+  const redact = authorizeAdmin(req.headers.authorization) !== 'ok';
+  if (redact && (query.filter.orderId || query.filter.reservationId)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Filtering by orderId or reservationId needs the admin token',
+    });
+  }
+  
+  try {
+    if (!(await stockRepository.getProduct(req.params.id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+    
+    await sendStockAuditPage(res, { ...query, filter: { ...query.filter, productIds: [req.params.id] } }, redact);
+  } catch (error) {
+    console.error('[API] Error fetching product ledger:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/products
+ * Add a product to the catalog (admin token required)
+ */
+router.post('/admin/products', requireAdmin, async (req: Request, res: Response) => {
+  const input = productCatalog.validateNewProduct(req.body);
+  if (input.error !== undefined) {
+    return res.status(400).json({ success: false, error: input.error });
+  }
+  
+  try {
+    sendProductChange(res, await productCatalog.createProduct(input.value, 'admin-api'), 201);
+  } catch (error) {
+    console.error('[API] Error creating product:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * PATCH /admin/products/:id
+ * Update name, description, price or lowStockThreshold. expectedUpdatedAt
+ * (the updatedAt last read) is required; a product changed since gets 409.
+ */
+router.patch('/admin/products/:id', requireAdmin, async (req: Request, res: Response) => {
+  const changes = productCatalog.validateProductChanges(req.body);
+  if (changes.error !== undefined) {
+    return res.status(400).json({ success: false, error: changes.error });
+  }
+  
+  const expectedUpdatedAt = productCatalog.parseExpectedUpdatedAt(req.body.expectedUpdatedAt);
+  if (expectedUpdatedAt.error !== undefined) {
+    return res.status(400).json({ success: false, error: expectedUpdatedAt.error });
+  }
+  
+  try {
+    sendProductChange(res, await productCatalog.updateProduct(
+      req.params.id,
+      changes.value,
+      expectedUpdatedAt.value,
+      'admin-api'
+    ));
+  } catch (error) {
+    console.error('[API] Error updating product:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/products/:id/archive and /unarchive
+ * Hide a product from the catalog and from new reservations, or bring it
+ * back. expectedUpdatedAt is optional.
+ */
+for (const action of ['archive', 'unarchive'] as const) {
+  router.post(`/admin/products/:id/${action}`, requireAdmin, async (req: Request, res: Response) => {
+    let expectedUpdatedAt: Date | undefined;
+    if (req.body?.expectedUpdatedAt !== undefined) {
+      const parsed = productCatalog.parseExpectedUpdatedAt(req.body.expectedUpdatedAt);
+      if (parsed.error !== undefined) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+      expectedUpdatedAt = parsed.value;
+    }
+    
+    try {
+      sendProductChange(res, await productCatalog.setProductArchived(
+        req.params.id,
+        action === 'archive',
+        expectedUpdatedAt,
+        'admin-api'
+      ));
+    } catch (error) {
+      console.error(`[API] Error trying to ${action} product:`, error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+}
+
+const STOCK_MOVEMENT_ROUTES: Record<string, stockRepository.StockMovementKind> = {
+  restock: 'restock',
+  'write-off': 'write_off',
+  count: 'count',
+};
+
+const STOCK_MOVEMENT_HTTP_STATUS: Record<stockRepository.StockMovementStatus, number> = {
+  applied: 200,
+  not_found: 404,
+  location_not_found: 404,
+  insufficient_stock: 409,
+};
+
+/**
+ * POST /admin/products/:id/restock, /write-off and /count
+ * Warehouse stock movements: { quantity, reasonCode, actorId, locationId?,
+ * note? }. For /count, quantity is the units counted on the shelf.
+ */
+for (const [path, kind] of Object.entries(STOCK_MOVEMENT_ROUTES)) {
+  router.post(`/admin/products/:id/${path}`, requireAdmin, async (req: Request, res: Response) => {
+    const input = stockAdjustments.validateStockMovement(kind, req.body);
+    if (input.error !== undefined) {
+      return res.status(400).json({ success: false, error: input.error });
+    }
+    
+    try {
+      const result = await stockAdjustments.moveStock(req.params.id, input.value);
+      res.status(STOCK_MOVEMENT_HTTP_STATUS[result.status]).json({
+        success: result.success,
+        data: result.movement,
+        status: result.status,
+        ...(result.success ? { message: result.message } : { error: result.message }),
+      });
+    } catch (error) {
+      console.error(`[API] Error recording stock ${path}:`, error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+}
+
+/**
+ * POST /admin/products/:id/transfer
+ * Move available stock between locations:
+ * { fromLocationId, toLocationId, quantity, actorId, note? }
+ */
+router.post('/admin/products/:id/transfer', requireAdmin, async (req: Request, res: Response) => {
+  const input = stockAdjustments.validateStockTransfer(req.body);
+  if (input.error !== undefined) {
+    return res.status(400).json({ success: false, error: input.error });
+  }
+  
+  try {
+    const result = await stockAdjustments.transferStock(req.params.id, input.value);
+    res.status(STOCK_MOVEMENT_HTTP_STATUS[result.status]).json({
+      success: result.success,
+      data: result.transfer,
+      status: result.status,
+      ...(result.success ? { message: result.message } : { error: result.message }),
+    });
+  } catch (error) {
+    console.error('[API] Error transferring stock:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /locations
+ * Stock locations in allocation priority order
+ */
+router.get('/locations', async (req: Request, res: Response) => {
+  try {
+    const locations = await stockRepository.getLocations();
+    res.json({
+      success: true,
+      data: locations,
+      count: locations.length,
+    });
+  } catch (error) {
+    console.error('[API] Error fetching locations:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/locations
+ * Add a stock location: { id, name, priority? } (lower priority is
+ * allocated first)
+ */
+router.post('/admin/locations', requireAdmin, async (req: Request, res: Response) => {
+  const { id, name, priority = 100 } = req.body;
+  
+  if (typeof id !== 'string' || !LOCATION_ID_PATTERN.test(id)) {
+    return res.status(400).json({ success: false, error: 'id must be 1-50 letters, digits, dashes or underscores' });
+  }
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ success: false, error: 'name is required' });
+  }
+  if (!Number.isInteger(priority)) {
+    return res.status(400).json({ success: false, error: 'priority must be an integer' });
+  }
+  
+  try {
+    const location = await stockRepository.createLocation(id, name.trim(), priority);
+    
+    if (!location) {
+      return res.status(409).json({ success: false, error: `Location ${id} already exists` });
+    }
+    
+    console.log(`[API] Location ${id} added (priority ${priority})`);
+    trackEvent('LocationCreated', { locationId: id });
+    
+    res.status(201).json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    console.error('[API] Error creating location:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /admin/backorders
+ * The backorder waitlist in arrival order. Filters: status (default
+ * waiting), productId; limit up to 1000.
+ */
+router.get('/admin/backorders', requireAdmin, async (req: Request, res: Response) => {
+  const statuses = readList(req.query.status);
+  const invalidStatus = statuses.find(status => !BACKORDER_STATUSES.includes(status));
+  if (invalidStatus) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid status '${invalidStatus}'. Expected one of: ${BACKORDER_STATUSES.join(', ')}`,
+    });
+  }
+  
+  const limit = parseInt(req.query.limit as string || String(DEFAULT_AUDIT_PAGE_SIZE), 10);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_EXPORT_PAGE_SIZE) {
+    return res.status(400).json({
+      success: false,
+      error: `limit must be between 1 and ${MAX_EXPORT_PAGE_SIZE}`,
+    });
+  }
+  
+  try {
+    const backorders = await stockRepository.listBackorders(
+      (statuses.length > 0 ? statuses : ['waiting']) as stockRepository.BackorderStatus[],
+      typeof req.query.productId === 'string' && req.query.productId ? req.query.productId : undefined,
+      limit
+    );
+    
+    res.json({
+      success: true,
+      data: backorders,
+      count: backorders.length,
+    });
+  } catch (error) {
+    console.error('[API] Error listing backorders:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/backorders/fill
+ * Fill the backorder waitlist from available stock now, e.g. after a failed
+ * fill pass
+ */
+router.post('/admin/backorders/fill', requireAdmin, async (req: Request, res: Response) => {
+  const filled = await fillBackorders('admin request');
+  
+  res.json({
+    success: true,
+    data: filled,
+    count: filled.length,
+  });
+});
+
+/**
+ * GET /admin/dlq
+ * List dead-lettered messages on the verify-orders queue
+ */
+router.get('/admin/dlq', requireAdmin, async (req: Request, res: Response) => {
+  const bus = getMessageBus();
+  if (!bus) {
+    return res.status(503).json({ success: false, error: 'Message bus not configured' });
+  }
+  
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string || '50', 10), 500);
+    const [depth, messages] = await Promise.all([
+      bus.countDeadLetters(VERIFY_ORDERS_QUEUE, null),
+      bus.peekDeadLetters(VERIFY_ORDERS_QUEUE, null, limit),
+    ]);
+    
+    res.json({
+      success: true,
+      data: {
+        entity: VERIFY_ORDERS_QUEUE,
+        depth,
+        messages,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error reading dead-letter queue:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/dlq/:id/replay
+ * Send a dead-lettered message back to the verify-orders queue
+ */
+router.post('/admin/dlq/:id/replay', requireAdmin, async (req: Request, res: Response) => {
+  const bus = getMessageBus();
+  if (!bus) {
+    return res.status(503).json({ success: false, error: 'Message bus not configured' });
+  }
+  
+  if (!isDeadLetterId(req.params.id)) {
+    return res.status(400).json({ success: false, error: 'id must be a numeric dead-letter id' });
+  }
+  
+  try {
+    const replayed = await bus.replayDeadLetter(VERIFY_ORDERS_QUEUE, null, req.params.id);
+    if (!replayed) {
+      return res.status(404).json({ success: false, error: 'Dead-lettered message not found' });
+    }
+    
+    console.log(`[API] Replayed dead-lettered message ${req.params.id}`);
+    trackEvent('DeadLetterReplayed', { entity: VERIFY_ORDERS_QUEUE, id: req.params.id });
+    
+    res.json({ success: true, data: { id: req.params.id, replayed: true } });
+  } catch (error) {
+    console.error('[API] Error replaying dead-lettered message:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * DELETE /admin/dlq/:id
+ * Drop a dead-lettered message for good
+ */
+router.delete('/admin/dlq/:id', requireAdmin, async (req: Request, res: Response) => {
+  const bus = getMessageBus();
+  if (!bus) {
+    return res.status(503).json({ success: false, error: 'Message bus not configured' });
+  }
+  
+  if (!isDeadLetterId(req.params.id)) {
+    return res.status(400).json({ success: false, error: 'id must be a numeric dead-letter id' });
+  }
+  
+  try {
+    const purged = await bus.purgeDeadLetter(VERIFY_ORDERS_QUEUE, null, req.params.id);
+    if (!purged) {
+      return res.status(404).json({ success: false, error: 'Dead-lettered message not found' });
+    }
+    
+    console.log(`[API] Purged dead-lettered message ${req.params.id}`);
+    trackEvent('DeadLetterPurged', { entity: VERIFY_ORDERS_QUEUE, id: req.params.id });
+    
+    res.json({ success: true, data: { id: req.params.id, purged: true } });
+  } catch (error) {
+    console.error('[API] Error purging dead-lettered message:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /admin/export/reservations
+ * Reservation lines for audits by other services. Filters: status and
+ * orderIds (repeatable or comma-separated); page with after=<nextAfter of
+ * the previous page>.
+ */
+router.get('/admin/export/reservations', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const statuses = readList(req.query.status);
+    const invalidStatus = statuses.find(status => !RESERVATION_STATUSES.includes(status));
+    if (invalidStatus) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status '${invalidStatus}'. Expected one of: ${RESERVATION_STATUSES.join(', ')}`,
+      });
+    }
+    
+    const limit = parseInt(req.query.limit as string || String(MAX_EXPORT_PAGE_SIZE), 10);
+    if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_EXPORT_PAGE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `limit must be between 1 and ${MAX_EXPORT_PAGE_SIZE}`,
+      });
+    }
+    
+    const orderIds = readList(req.query.orderIds);
+    const invalidOrderId = orderIds.find(id => !RECORD_ID_PATTERN.test(id));
+    if (invalidOrderId !== undefined || orderIds.length > MAX_EXPORT_PAGE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `orderIds must be at most ${MAX_EXPORT_PAGE_SIZE} ids of letters, digits, '-' or '_'`,
+      });
+    }
+    
+    const after = req.query.after;
+    if (after !== undefined && (typeof after !== 'string' || !RECORD_ID_PATTERN.test(after))) {
+      return res.status(400).json({ success: false, error: 'Invalid after cursor' });
+    }
+    
+    const page = await stockRepository.exportReservations(
+      {
+        statuses: statuses as stockRepository.Reservation['status'][],
+        orderIds,
+      },
+      after,
+      limit
+    );
+    
+    res.json({
+      success: true,
+      data: page.reservations,
+      count: page.reservations.length,
+      nextAfter: page.nextAfter,
+    });
+  } catch (error) {
+    console.error('[API] Error exporting reservations:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /admin/stock-audit
+ * Stock audit log across products. Filters: productId, operation, orderId,
+ * reservationId (a batch handle matches its lines), from, to; page with
+ * after=<nextAfter of the previous page>.
+ */
+router.get('/admin/stock-audit', requireAdmin, async (req: Request, res: Response) => {
+  const query = readStockAuditQuery(req.query);
+  if (typeof query === 'string') {
+    return res.status(400).json({ success: false, error: query });
+  }
+  
+  try {
+    await sendStockAuditPage(res, query);
+  } catch (error) {
+    console.error('[API] Error querying stock audit log:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /admin/ledger/integrity
+ * Replay the stock audit log against products.stock now and list the
+ * products that do not match
+ */
+router.get('/admin/ledger/integrity', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const report = await runLedgerIntegrityCheck();
+    
+    res.json({
+      success: true,
+      data: report,
+      consistent: report.mismatches.length === 0,
+    });
+  } catch (error) {
+    console.error('[API] Error checking ledger integrity:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/reservations/:id/release
+ * Release a reservation (or batch) the consistency audit found orphaned
+ */
+router.post('/admin/reservations/:id/release', requireAdmin, async (req: Request, res: Response) => {
+  const { orderId, reason } = req.body;
+  
+  if (typeof orderId !== 'string' || !orderId) {
+    return res.status(400).json({ success: false, error: 'orderId is required' });
+  }
+  
+  try {
+    const releaseReason = typeof reason === 'string' && reason ? reason : 'admin';
+    const result = await stockRepository.releaseStock(orderId, req.params.id, releaseReason, lines =>
+      buildStockReleasedEvents(orderId, req.params.id, lines, releaseReason)
+    );
+    
+    if (!result.success) {
+      return res.status(409).json({ success: false, error: result.message });
+    }
+    
+    if (!result.alreadyReleased) {
+      await publishReleasedStockThresholds(result.lines);
+      await fillBackorders(`release of ${req.params.id}`);
+    }
+    
+    console.log(`[API] Released reservation ${req.params.id} for order ${orderId}: ${releaseReason}`);
+    
+    res.json({
+      success: true,
+      data: { reservationId: req.params.id, lines: result.lines, alreadyReleased: result.alreadyReleased || false },
+    });
+  } catch (error) {
+    console.error('[API] Error releasing reservation:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/reservations/:id/commit
+ * Commit a reservation (or batch) whose order has already shipped
+ */
+router.post('/admin/reservations/:id/commit', requireAdmin, async (req: Request, res: Response) => {
+  const { orderId } = req.body;
+  
+  if (typeof orderId !== 'string' || !orderId) {
+    return res.status(400).json({ success: false, error: 'orderId is required' });
+  }
+  
+  try {
+    const result = await stockRepository.commitReservation(orderId, req.params.id, lines =>
+      buildStockCommittedEvents(orderId, req.params.id, lines)
+    );
+    
+    if (!result.success) {
+      return res.status(409).json({ success: false, error: result.message });
+    }
+    
+    console.log(`[API] Committed reservation ${req.params.id} for order ${orderId}`);
+    
+    res.json({
+      success: true,
+      data: { reservationId: req.params.id, alreadyCommitted: result.alreadyCommitted, lines: result.lines },
+    });
+  } catch (error) {
+    console.error('[API] Error committing reservation:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
 /**
  * GET /health
  * Health check endpoint
@@ -0,0 +1,120 @@
+import { Gauge } from 'prom-client';
+import * as stockRepository from '../domain/stockRepository';
+import type { LedgerBalance } from '../domain/stockRepository';
+import { trackEvent, trackException } from '../telemetry';
+
+/**
+ * Ledger Integrity Check
+ * Every stock change writes a stock_audit_log row, so replaying a product's
+ * rows must land on its current products.stock. The check runs on a timer
+ * and on demand (GET /admin/ledger/integrity) and flags products where:
+ *   sum        - the quantity changes do not add up to the stock
+ *   last_entry - the latest row's new_stock is not the stock
+ *   chain      - a row does not continue from the one before it
+ *   location   - a location's stock is not the sum of its rows'
+ *                location_change, or the locations do not add up to stock
+ * A flagged product had its stock written outside the audited paths, or an
+ * audit row was changed or lost.
+ */
+
+const INTERVAL_MS = parseInt(process.env.LEDGER_CHECK_INTERVAL_MS || '3600000', 10);
+
+export type LedgerProblem = 'sum' | 'last_entry' | 'chain' | 'location';
+
+export interface LedgerMismatch extends LedgerBalance {
+  // stock - ledgerStock
+  difference: number;
+  problems: LedgerProblem[];
+}
+
+export interface LedgerIntegrityReport {
+  checkedAt: string;
+  productsChecked: number;
+  mismatches: LedgerMismatch[];
+}
+
+const mismatchedProducts = new Gauge({
+  name: 'stock_ledger_mismatched_products',
+  help: 'Products whose stock does not match their audit log, as of the last ledger check',
+});
+
+let checkTimer: NodeJS.Timeout | null = null;
+let lastReport: LedgerIntegrityReport | null = null;
+
+export function startLedgerIntegrityCheck(): void {
+  if (checkTimer || INTERVAL_MS <= 0) {
+    return;
+  }
+
+  checkTimer = setInterval(() => {
+    runLedgerIntegrityCheck().catch((error) => {
+      console.error('[Ledger] Integrity check failed:', error);
+      trackException(error as Error, { context: 'ledger_integrity_check' });
+    });
+  }, INTERVAL_MS);
+
+  console.log(`[Ledger] Integrity check scheduled (interval ${INTERVAL_MS}ms)`);
+}
+
+export function stopLedgerIntegrityCheck(): void {
+  if (checkTimer) {
+    clearInterval(checkTimer);
+    checkTimer = null;
+  }
+}
+
+export function getLastLedgerReport(): LedgerIntegrityReport | null {
+  return lastReport;
+}
+
+function findProblems(balance: LedgerBalance): LedgerProblem[] {
+  const problems: LedgerProblem[] = [];
+
+  if (balance.ledgerStock !== balance.stock) {
+    problems.push('sum');
+  }
+  if (balance.lastNewStock !== null && balance.lastNewStock !== balance.stock) {
+    problems.push('last_entry');
+  }
+  if (balance.brokenEntries > 0) {
+    problems.push('chain');
+  }
+  if (balance.mismatchedLocations.length > 0 || balance.locationStock !== balance.stock) {
+    problems.push('location');
+  }
+
+  return problems;
+}
+
+export async function runLedgerIntegrityCheck(): Promise<LedgerIntegrityReport> {
+  const balances = await stockRepository.getLedgerBalances();
+
+  const mismatches: LedgerMismatch[] = [];
+  for (const balance of balances) {
+    const problems = findProblems(balance);
+    if (problems.length > 0) {
+      mismatches.push({ ...balance, difference: balance.stock - balance.ledgerStock, problems });
+    }
+  }
+
+  for (const mismatch of mismatches) {
+    console.warn(`[Ledger] Product ${mismatch.productId}: stock ${mismatch.stock}, ledger ${mismatch.ledgerStock} (${mismatch.problems.join(', ')})`);
+    trackEvent('StockLedgerMismatch', {
+      productId: mismatch.productId,
+      stock: mismatch.stock.toString(),
+      ledgerStock: mismatch.ledgerStock.toString(),
+      problems: mismatch.problems.join(','),
+    });
+  }
+
+  mismatchedProducts.set(mismatches.length);
+  lastReport = {
+    checkedAt: new Date().toISOString(),
+    productsChecked: balances.length,
+    mismatches,
+  };
+
+  console.log(`[Ledger] Checked ${balances.length} products, ${mismatches.length} mismatched`);
+
+  return lastReport;
+}
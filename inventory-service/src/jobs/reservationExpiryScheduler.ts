@@ -0,0 +1,73 @@
+import * as stockRepository from '../domain/stockRepository';
+import { fillBackorders } from '../domain/backorders';
+import { buildStockReleasedEvents, publishReleasedStockThresholds } from '../publishers/inventoryPublisher';
+import { trackEvent, trackException } from '../telemetry';
+
+/**
+ * Reservation Expiry Scheduler
+ * Releases active reservations past their expires_at through the same audited
+ * path as ReleaseStock (reason 'expired'). StockReleased for each line goes
+ * through the outbox in the release transaction, so the order service hears
+ * of the expiry even if the bus is down. The freed stock then goes to the
+ * backorder waitlist.
+ */
+
+const INTERVAL_MS = parseInt(process.env.RESERVATION_EXPIRY_INTERVAL_MS || '10000', 10);
+const BATCH_SIZE = parseInt(process.env.RESERVATION_EXPIRY_BATCH_SIZE || '100', 10);
+
+let expiryTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+export function startReservationExpiryScheduler(): void {
+  if (expiryTimer) {
+    return;
+  }
+
+  expiryTimer = setInterval(() => {
+    expireReservations().catch((error) => {
+      console.error('[Expiry] Sweep failed:', error);
+      trackException(error as Error, { context: 'reservation_expiry' });
+    });
+  }, INTERVAL_MS);
+
+  console.log(`[Expiry] Reservation expiry scheduler started (interval ${INTERVAL_MS}ms)`);
+}
+
+export function stopReservationExpiryScheduler(): void {
+  if (expiryTimer) {
+    clearInterval(expiryTimer);
+    expiryTimer = null;
+  }
+  console.log('[Expiry] Reservation expiry scheduler stopped');
+}
+
+async function expireReservations(): Promise<void> {
+  if (sweeping) {
+    return;
+  }
+
+  sweeping = true;
+  try {
+    const expired = await stockRepository.releaseExpiredReservations(BATCH_SIZE, reservation =>
+      buildStockReleasedEvents(reservation.orderId, reservation.reservationId, reservation.lines, 'expired')
+    );
+
+    for (const reservation of expired) {
+      console.log(`[Expiry] Released expired reservation ${reservation.reservationId} for order ${reservation.orderId}`);
+
+      await publishReleasedStockThresholds(reservation.lines);
+
+      trackEvent('ReservationExpired', {
+        orderId: reservation.orderId,
+        reservationId: reservation.reservationId,
+        lineCount: reservation.lines.length.toString(),
+      });
+    }
+
+    if (expired.length > 0) {
+      await fillBackorders('reservation expiry');
+    }
+  } finally {
+    sweeping = false;
+  }
+}
@@ -1,132 +1,270 @@
-import { ServiceBusClient, ServiceBusSender } from '@azure/service-bus';
+import { initMessageBus, getMessageBus, closeMessageBus } from '../../../shared/bus';
+import { versionEvent, InventoryEvent, MetricEvent } from '../../../shared/contracts';
 import { trackException, trackEvent } from '../telemetry';
 
-let serviceBusClient: ServiceBusClient | null = null;
-let inventoryEventsSender: ServiceBusSender | null = null;
-let systemMetricsSender: ServiceBusSender | null = null;
-
-// Event types
-export interface StockReservedEvent {
-  eventType: 'StockReserved';
-  eventId: string;
-  timestamp: string;
-  data: {
-    orderId: string;
-    productId: string;
-    quantity: number;
-    remainingStock: number;
-    reservationId: string;
-  };
-}
+const INVENTORY_EVENTS_TOPIC = process.env.ASB_TOPIC_INVENTORY_EVENTS || 'inventory-events';
+const SYSTEM_METRICS_TOPIC = process.env.ASB_TOPIC_SYSTEM_METRICS || 'system-metrics';
 
-export interface StockReleasedEvent {
-  eventType: 'StockReleased';
-  eventId: string;
-  timestamp: string;
-  data: {
-    orderId: string;
-    productId: string;
-    quantity: number;
-    newStock: number;
-    reason: string;
-  };
+interface CatalogProduct {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  stock: number;
+  lowStockThreshold: number;
+  backorderLimit: number;
+  archivedAt: Date | null;
 }
 
-export interface LowStockAlertEvent {
-  eventType: 'LowStockAlert';
-  eventId: string;
-  timestamp: string;
-  data: {
-    productId: string;
-    currentStock: number;
-    threshold: number;
-  };
+interface StockMovementLine {
+  productId: string;
+  kind: 'restock' | 'write_off' | 'count';
+  locationId: string;
+  quantityChange: number;
+  previousStock: number;
+  newStock: number;
+  lowStockThreshold: number;
+  reasonCode: string;
+  actorId: string;
+  note?: string;
 }
 
-export interface ResponseTimeEvent {
-  eventType: 'ResponseTime';
-  eventId: string;
-  timestamp: string;
-  data: {
-    service: string;
-    operation: string;
-    durationMs: number;
-    success: boolean;
-  };
+interface ReleasedStockLine {
+  productId: string;
+  quantity: number;
+  previousStock: number;
+  newStock: number;
+  lowStockThreshold: number;
 }
 
-export interface OrderVerifiedEvent {
-  eventType: 'OrderVerified';
-  eventId: string;
-  timestamp: string;
-  data: {
-    orderId: string;
-    productId: string;
-    quantity: number;
-    status: 'confirmed' | 'not_found';
-    recoveredFromCrash: boolean;
-    reservationId?: string;
-  };
-}
-
-type InventoryEvent = StockReservedEvent | StockReleasedEvent | LowStockAlertEvent | OrderVerifiedEvent;
-type MetricEvent = ResponseTimeEvent;
-
 export async function initializePublisher(): Promise<void> {
-  const connectionString = process.env.AZURE_SERVICE_BUS_CONNECTION_STRING;
-  
-  if (!connectionString || connectionString.includes('your-namespace')) {
-    console.log('[ASB Publisher] No valid connection string, running in offline mode');
-    return;
-  }
-  
   try {
-    serviceBusClient = new ServiceBusClient(connectionString);
+    const bus = await initMessageBus();
     
-    const inventoryTopic = process.env.ASB_TOPIC_INVENTORY_EVENTS || 'inventory-events';
-    const metricsTopic = process.env.ASB_TOPIC_SYSTEM_METRICS || 'system-metrics';
+    if (!bus) {
+      console.log('[ASB Publisher] No message bus configured, running in offline mode');
+      return;
+    }
     
-    inventoryEventsSender = serviceBusClient.createSender(inventoryTopic);
-    systemMetricsSender = serviceBusClient.createSender(metricsTopic);
-    
-    console.log(`[ASB Publisher] Initialized for topics: ${inventoryTopic}, ${metricsTopic}`);
+    console.log(`[ASB Publisher] Initialized for topics: ${INVENTORY_EVENTS_TOPIC}, ${SYSTEM_METRICS_TOPIC}`);
   } catch (error) {
     console.error('[ASB Publisher] Failed to initialize:', error);
     trackException(error as Error, { context: 'asb_publisher_init' });
   }
 }
 
+export function isServiceBusEnabled(): boolean {
+  return getMessageBus() !== null;
+}
+
 export async function publishInventoryEvent(event: InventoryEvent): Promise<void> {
-  if (!inventoryEventsSender) {
+  if (!getMessageBus()) {
     console.log('[ASB Publisher] Offline mode - would publish:', event.eventType);
     return;
   }
   
   try {
-    await inventoryEventsSender.sendMessages({
-      body: event,
-      contentType: 'application/json',
-      messageId: event.eventId,
-      subject: event.eventType,
-    });
-    
-    const orderId = 'orderId' in event.data ? (event.data as any).orderId : 'N/A';
-    console.log(`[ASB Publisher] Published ${event.eventType} for order ${orderId}`);
-    trackEvent('ASBEventPublished', { eventType: event.eventType });
+    await sendInventoryEvent(event);
   } catch (error) {
     console.error('[ASB Publisher] Failed to publish event:', error);
     trackException(error as Error, { context: 'publish_inventory_event', eventType: event.eventType });
   }
 }
 
+/**
+ * Send an event to the inventory-events topic, throwing when it was not
+ * sent. Used by the outbox relay, which retries.
+ */
+export async function sendInventoryEvent(event: InventoryEvent): Promise<void> {
+  const bus = getMessageBus();
+  if (!bus) {
+    throw new Error('Message bus not initialized');
+  }
+  
+  await bus.send(INVENTORY_EVENTS_TOPIC, {
+    body: versionEvent(event),
+    contentType: 'application/json',
+    messageId: event.eventId,
+    subject: event.eventType,
+  });
+  
+  const orderId = 'orderId' in event.data ? (event.data as any).orderId : 'N/A';
+  console.log(`[ASB Publisher] Published ${event.eventType} for order ${orderId}`);
+  trackEvent('ASBEventPublished', { eventType: event.eventType });
+}
+
+/**
+ * Stock threshold check after stock changed: still at or below the threshold
+ * re-raises LowStockAlert, crossing back above it publishes LowStockCleared.
+ */
+async function publishStockThreshold(
+  productId: string,
+  previousStock: number,
+  newStock: number,
+  threshold: number
+): Promise<void> {
+  if (newStock <= threshold) {
+    await publishInventoryEvent({
+      eventType: 'LowStockAlert',
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      data: {
+        productId,
+        currentStock: newStock,
+        threshold,
+      },
+    });
+  } else if (previousStock <= threshold) {
+    await publishInventoryEvent({
+      eventType: 'LowStockCleared',
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      data: {
+        productId,
+        currentStock: newStock,
+        threshold,
+      },
+    });
+  }
+}
+
+/**
+ * StockReleased for each released line, for the outbox of the transaction
+ * that released them.
+ */
+export function buildStockReleasedEvents(
+  orderId: string,
+  reservationId: string,
+  lines: ReleasedStockLine[],
+  reason: string
+): InventoryEvent[] {
+  return lines.map(line => ({
+    eventType: 'StockReleased',
+    eventId: generateEventId(),
+    timestamp: new Date().toISOString(),
+    data: {
+      orderId,
+      reservationId,
+      productId: line.productId,
+      quantity: line.quantity,
+      previousStock: line.previousStock,
+      newStock: line.newStock,
+      reason,
+    },
+  }));
+}
+
+/**
+ * Run the stock threshold check for each released line.
+ */
+export async function publishReleasedStockThresholds(lines: ReleasedStockLine[]): Promise<void> {
+  for (const line of lines) {
+    await publishStockThreshold(line.productId, line.previousStock, line.newStock, line.lowStockThreshold);
+  }
+}
+
+/**
+ * Publish a staff stock movement - StockReplenished for a restock,
+ * StockAdjusted for a write-off or cycle count - then run the stock
+ * threshold check.
+ */
+export async function publishStockMovement(movement: StockMovementLine): Promise<void> {
+  const data = {
+    productId: movement.productId,
+    quantityChange: movement.quantityChange,
+    previousStock: movement.previousStock,
+    newStock: movement.newStock,
+    reasonCode: movement.reasonCode,
+    actorId: movement.actorId,
+    ...(movement.note ? { note: movement.note } : {}),
+    locationId: movement.locationId,
+  };
+  const envelope = { eventId: generateEventId(), timestamp: new Date().toISOString() };
+  
+  await publishInventoryEvent(movement.kind === 'restock'
+    ? { ...envelope, eventType: 'StockReplenished', data }
+    : { ...envelope, eventType: 'StockAdjusted', data: { ...data, adjustment: movement.kind } });
+  
+  await publishStockThreshold(movement.productId, movement.previousStock, movement.newStock, movement.lowStockThreshold);
+}
+
+/**
+ * StockCommitted for a committed reservation, for the outbox of the
+ * transaction that committed it.
+ */
+export function buildStockCommittedEvents(
+  orderId: string,
+  reservationId: string,
+  lines: Array<{ productId: string; quantity: number }>
+): InventoryEvent[] {
+  return [{
+    eventType: 'StockCommitted',
+    eventId: generateEventId(),
+    timestamp: new Date().toISOString(),
+    data: {
+      orderId,
+      reservationId,
+      items: lines.map(line => ({
+        productId: line.productId,
+        quantity: line.quantity,
+      })),
+    },
+  }];
+}
+
+/**
+ * Publish a catalog change: ProductCreated for a new product, ProductUpdated
+ * (with the product as it is now) for anything after that.
+ */
+export async function publishProductChanged(created: boolean, product: CatalogProduct): Promise<void> {
+  const details = {
+    productId: product.id,
+    name: product.name,
+    description: product.description || '',
+    price: product.price,
+    lowStockThreshold: product.lowStockThreshold,
+    backorderLimit: product.backorderLimit,
+    archived: product.archivedAt !== null,
+  };
+  const envelope = { eventId: generateEventId(), timestamp: new Date().toISOString() };
+  
+  await publishInventoryEvent(created
+    ? { ...envelope, eventType: 'ProductCreated', data: { ...details, stock: product.stock } }
+    : { ...envelope, eventType: 'ProductUpdated', data: details });
+}
+
+export async function publishStockTransferred(transfer: {
+  productId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  actorId: string;
+  note?: string;
+}): Promise<void> {
+  await publishInventoryEvent({
+    eventType: 'StockTransferred',
+    eventId: generateEventId(),
+    timestamp: new Date().toISOString(),
+    data: {
+      productId: transfer.productId,
+      fromLocationId: transfer.fromLocationId,
+      toLocationId: transfer.toLocationId,
+      quantity: transfer.quantity,
+      actorId: transfer.actorId,
+      ...(transfer.note ? { note: transfer.note } : {}),
+    },
+  });
+}
+
 export async function publishMetricEvent(event: MetricEvent): Promise<void> {
-  if (!systemMetricsSender) {
+  const bus = getMessageBus();
+  if (!bus) {
     return; // Silent in offline mode for metrics
   }
   
   try {
-    await systemMetricsSender.sendMessages({
-      body: event,
+    await bus.send(SYSTEM_METRICS_TOPIC, {
+      body: versionEvent(event),
       contentType: 'application/json',
       messageId: event.eventId,
       subject: event.eventType,
@@ -139,9 +277,7 @@ export async function publishMetricEvent(event: MetricEvent): Promise<void> {
 
 export async function closePublisher(): Promise<void> {
   try {
-    if (inventoryEventsSender) await inventoryEventsSender.close();
-    if (systemMetricsSender) await systemMetricsSender.close();
-    if (serviceBusClient) await serviceBusClient.close();
+    await closeMessageBus();
     console.log('[ASB Publisher] Closed');
   } catch (error) {
     console.error('[ASB Publisher] Error closing:', error);
@@ -0,0 +1,29 @@
+import { createOutboxRelay, OutboxStats } from '../../../shared/outbox';
+import { getPool } from '../domain/stockRepository';
+import { sendInventoryEvent, isServiceBusEnabled } from './inventoryPublisher';
+import type { InventoryEvent } from '../../../shared/contracts';
+import { trackEvent, trackException, trackMetric } from '../telemetry';
+
+/**
+ * Outbox Relay
+ * Drains the outbox table written alongside reservations and publishes each
+ * row to the inventory-events topic.
+ */
+const relay = createOutboxRelay({
+  getPool,
+  isEnabled: isServiceBusEnabled,
+  publish: (message) => sendInventoryEvent(message as InventoryEvent),
+  telemetry: { trackEvent, trackException, trackMetric },
+});
+
+export function startOutboxRelay(): void {
+  relay.start();
+}
+
+export function stopOutboxRelay(): Promise<void> {
+  return relay.stop();
+}
+
+export function getOutboxBacklog(): Promise<OutboxStats> {
+  return relay.getBacklog();
+}
@@ -1,14 +1,21 @@
 import express from 'express';
 import cors from 'cors';
 import { initTelemetry, trackEvent } from './telemetry';
+import { initTracing, shutdownTracing, tracingMiddleware } from '../../shared/tracing';
+import { initMetrics, metricsHandler, metricsMiddleware } from '../../shared/metrics';
 import { createGrpcServer, startGrpcServer } from './handlers/inventoryHandler';
 import routes from './interface/routes';
 import { initPool } from './domain/stockRepository';
-import { startVerifyOrderConsumer } from './consumers/verifyOrderConsumer';
-import { initializePublisher } from './publishers/inventoryPublisher';
+import { startVerifyOrderConsumer, closeConsumer } from './consumers/verifyOrderConsumer';
+import { initializePublisher, closePublisher } from './publishers/inventoryPublisher';
+import { startOutboxRelay, stopOutboxRelay } from './publishers/outboxRelay';
+import { startReservationExpiryScheduler, stopReservationExpiryScheduler } from './jobs/reservationExpiryScheduler';
+import { startLedgerIntegrityCheck, stopLedgerIntegrityCheck } from './jobs/ledgerIntegrityCheck';
 
 // Initialize telemetry first
 initTelemetry();
+initTracing('inventory-service');
+initMetrics('inventory-service');
 
 const app = express();
 const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3002', 10);
@@ -17,6 +24,8 @@ const GRPC_PORT = parseInt(process.env.GRPC_PORT || '50051', 10);
 // Middleware
 app.use(cors());
 app.use(express.json());
+app.use(tracingMiddleware);
+app.use(metricsMiddleware);
 
 // Log all requests
 app.use((req, res, next) => {
@@ -25,6 +34,7 @@ app.use((req, res, next) => {
 });
 
 // Routes
+app.get('/metrics', metricsHandler);
 app.use('/', routes);
 
 // Error handler
@@ -68,6 +78,15 @@ async function main() {
     await initializePublisher();
     console.log('[ASB] Publisher initialized');
     
+    // Publish events written to the outbox alongside reservations
+    startOutboxRelay();
+    
+    // Start releasing expired reservations
+    startReservationExpiryScheduler();
+    
+    // Periodically replay the stock audit log against products.stock
+    startLedgerIntegrityCheck();
+    
     trackEvent('ServiceStarted', { service: 'inventory-service' });
     
     console.log('========================================');
@@ -81,6 +100,13 @@ async function main() {
       console.log('\n[Shutdown] Received shutdown signal...');
       trackEvent('ServiceStopping', { service: 'inventory-service' });
       
+      stopReservationExpiryScheduler();
+      stopLedgerIntegrityCheck();
+      await closeConsumer();
+      await stopOutboxRelay();
+      await closePublisher();
+      await shutdownTracing();
+      
       grpcServer.forceShutdown();
       console.log('[Shutdown] gRPC server stopped');
       
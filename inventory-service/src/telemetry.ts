@@ -1,4 +1,5 @@
 import * as appInsights from 'applicationinsights';
+import { recordEvent, recordMetric } from '../../shared/metrics';
 
 export function initTelemetry(): void {
   const connectionString = process.env.APPLICATIONINSIGHTS_CONNECTION_STRING;
@@ -26,6 +27,7 @@ export function initTelemetry(): void {
 export const setupTelemetry = initTelemetry;
 
 export function trackEvent(name: string, properties?: Record<string, string>): void {
+  recordEvent(name);
   if (appInsights.defaultClient) {
     appInsights.defaultClient.trackEvent({ name, properties });
   }
@@ -39,6 +41,7 @@ export function trackException(error: Error, properties?: Record<string, string>
 }
 
 export function trackMetric(name: string, value: number): void {
+  recordMetric(name, value);
   if (appInsights.defaultClient) {
     appInsights.defaultClient.trackMetric({ name, value });
   }
@@ -0,0 +1,43 @@
+-- Local Message Bus Schema
+-- PostgreSQL-backed stand-in for Azure Service Bus (MESSAGE_BUS=local)
+
+-- Subscriptions per entity; a queue has the single '$queue' subscription
+CREATE TABLE IF NOT EXISTS bus_subscriptions (
+    entity VARCHAR(100) NOT NULL,
+    subscription VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (entity, subscription)
+);
+
+-- One row per message per subscription (topic fan-out happens on send)
+CREATE TABLE IF NOT EXISTS bus_messages (
+    id BIGSERIAL PRIMARY KEY,
+    entity VARCHAR(100) NOT NULL,
+    subscription VARCHAR(100) NOT NULL,
+    message_id VARCHAR(100),
+    subject VARCHAR(100),
+    correlation_id VARCHAR(100),
+    content_type VARCHAR(100),
+    body JSONB NOT NULL,
+    application_properties JSONB,
+    delivery_count INTEGER NOT NULL DEFAULT 0,
+    enqueued_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    locked_until TIMESTAMP WITH TIME ZONE, -- Peek-lock lease
+    dead_lettered_at TIMESTAMP WITH TIME ZONE,
+    dead_letter_reason VARCHAR(100),
+    dead_letter_description TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_bus_messages_active ON bus_messages(entity, subscription, id)
+    WHERE dead_lettered_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_bus_messages_dead_lettered ON bus_messages(entity, subscription, id)
+    WHERE dead_lettered_at IS NOT NULL;
+
+-- Topology (mirrors the valerix-ns Service Bus namespace)
+INSERT INTO bus_subscriptions (entity, subscription) VALUES
+    ('inventory-events', 'order-service-sub'),
+    ('inventory-events', 'dashboard-sub'),
+    ('order-events', 'dashboard-sub'),
+    ('system-metrics', 'dashboard-sub'),
+    ('verify-orders', '$queue')
+ON CONFLICT DO NOTHING;
@@ -4,25 +4,41 @@
 CREATE TABLE IF NOT EXISTS orders (
     id VARCHAR(36) PRIMARY KEY,
     customer_id VARCHAR(100) NOT NULL,
-    product_id VARCHAR(36) NOT NULL,
-    quantity INTEGER NOT NULL CHECK (quantity > 0),
     status VARCHAR(50) NOT NULL DEFAULT 'pending',
     idempotency_key VARCHAR(100) UNIQUE,
     reservation_id VARCHAR(36),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     completed_at TIMESTAMP WITH TIME ZONE,
-    error_message TEXT
+    error_message TEXT,
+    verification_attempts INTEGER NOT NULL DEFAULT 0,
+    last_verification_at TIMESTAMP WITH TIME ZONE,
+    version INTEGER NOT NULL DEFAULT 1 -- optimistic concurrency for status changes
 );
 
--- Status values: pending, reserved, confirmed, failed, pending_verification, cancelled
+-- Status values: pending, confirmed, failed, pending_verification, backordered, cancelled, expired, shipped
+-- Legal transitions are defined in src/domain/orderStateMachine.ts
 
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
 CREATE INDEX IF NOT EXISTS idx_orders_customer ON orders(customer_id);
 CREATE INDEX IF NOT EXISTS idx_orders_created ON orders(created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_customer_created ON orders(customer_id, created_at, id);
 CREATE INDEX IF NOT EXISTS idx_orders_idempotency ON orders(idempotency_key);
 
+-- Order line items (one row per product in the order)
+CREATE TABLE IF NOT EXISTS order_items (
+    id SERIAL PRIMARY KEY,
+    order_id VARCHAR(36) NOT NULL REFERENCES orders(id),
+    line_number INTEGER NOT NULL,
+    product_id VARCHAR(36) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    UNIQUE (order_id, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product ON order_items(product_id);
+
 -- Order events/history table for audit
 CREATE TABLE IF NOT EXISTS order_events (
     id SERIAL PRIMARY KEY,
@@ -41,10 +57,25 @@ CREATE TABLE IF NOT EXISTS outbox (
     event_data JSONB NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     processed_at TIMESTAMP WITH TIME ZONE,
-    retry_count INTEGER DEFAULT 0
+    retry_count INTEGER DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    trace_context JSONB -- W3C traceparent/tracestate of the writing request
 );
 
 CREATE INDEX IF NOT EXISTS idx_outbox_unprocessed ON outbox(created_at) WHERE processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt ON outbox(next_attempt_at) WHERE processed_at IS NULL;
+
+-- Inbox table for idempotent message consumption
+CREATE TABLE IF NOT EXISTS inbox (
+    consumer VARCHAR(100) NOT NULL,
+    message_id VARCHAR(100) NOT NULL,
+    event_type VARCHAR(100),
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (consumer, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_processed_at ON inbox(processed_at);
 
 -- Update trigger for updated_at
 CREATE OR REPLACE FUNCTION update_updated_at_column()
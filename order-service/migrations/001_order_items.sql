@@ -0,0 +1,34 @@
+-- Multi-line orders: move each existing order's single line from
+-- orders.product_id / orders.quantity into order_items, then drop the old
+-- columns. init.sql only runs on an empty database; apply this to databases
+-- created before order_items. Safe to run more than once.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS order_items (
+    id SERIAL PRIMARY KEY,
+    order_id VARCHAR(36) NOT NULL REFERENCES orders(id),
+    line_number INTEGER NOT NULL,
+    product_id VARCHAR(36) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    UNIQUE (order_id, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product ON order_items(product_id);
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'orders' AND column_name = 'product_id'
+    ) THEN
+        INSERT INTO order_items (order_id, line_number, product_id, quantity)
+        SELECT id, 1, product_id, quantity FROM orders
+        ON CONFLICT (order_id, line_number) DO NOTHING;
+
+        ALTER TABLE orders DROP COLUMN product_id, DROP COLUMN quantity;
+    END IF;
+END $$;
+
+COMMIT;
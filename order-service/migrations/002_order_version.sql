@@ -0,0 +1,6 @@
+-- Optimistic concurrency for status changes: every status change is written
+-- only at the version it read and bumps it. Existing orders start at 1.
+-- init.sql only runs on an empty database; apply this to databases created
+-- before the order state machine. Safe to run more than once.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
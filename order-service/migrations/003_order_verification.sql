@@ -0,0 +1,8 @@
+-- Verification reconciler bookkeeping: how often an order in
+-- pending_verification has been checked against inventory, and when last.
+-- init.sql only runs on an empty database; apply this to databases created
+-- before the reconciler. Safe to run more than once.
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS verification_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_verification_at TIMESTAMP WITH TIME ZONE;
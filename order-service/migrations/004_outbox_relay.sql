@@ -0,0 +1,17 @@
+-- Outbox relay: failed sends are retried at next_attempt_at with backoff,
+-- claimed rows are leased by pushing it out, and the last send error and
+-- the writing request's trace context are kept on the row. Rows already
+-- waiting become due at once. init.sql only runs on an empty database;
+-- apply this to databases created before the outbox relay. Safe to run
+-- more than once.
+
+BEGIN;
+
+ALTER TABLE outbox
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS last_error TEXT,
+    ADD COLUMN IF NOT EXISTS trace_context JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt ON outbox(next_attempt_at) WHERE processed_at IS NULL;
+
+COMMIT;
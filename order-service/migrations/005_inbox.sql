@@ -0,0 +1,17 @@
+-- Idempotent consumers: the inbox records each bus message a consumer has
+-- handled. init.sql only runs on an empty database; apply this to databases
+-- created before the inbox. Safe to run more than once.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS inbox (
+    consumer VARCHAR(100) NOT NULL,
+    message_id VARCHAR(100) NOT NULL,
+    event_type VARCHAR(100),
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (consumer, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_processed_at ON inbox(processed_at);
+
+COMMIT;
@@ -0,0 +1,5 @@
+-- Order search: a customer's orders are paged by (created_at, id).
+-- init.sql only runs on an empty database; apply this to databases created
+-- before order search. Safe to run more than once.
+
+CREATE INDEX IF NOT EXISTS idx_orders_customer_created ON orders(customer_id, created_at, id);
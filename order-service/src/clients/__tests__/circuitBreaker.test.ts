@@ -0,0 +1,186 @@
+import * as grpc from '@grpc/grpc-js';
+import { getResilienceStatus, guardCall, isCircuitOpen } from '../circuitBreaker';
+import { trackEvent } from '../../telemetry';
+
+jest.mock('../../telemetry', () => ({
+  trackEvent: jest.fn(),
+  trackMetric: jest.fn(),
+}));
+
+// Defaults of INVENTORY_BREAKER_* and INVENTORY_MAX_CONCURRENT_CALLS
+const FAILURE_THRESHOLD = 5;
+const RESET_TIMEOUT_MS = 10000;
+const MAX_CONCURRENT_CALLS = 20;
+
+// Breakers are module state, so every test uses its own method name
+let method: string;
+let testCount = 0;
+
+const succeed = () => Promise.resolve('ok');
+const fail = () => Promise.reject(new Error('UNAVAILABLE'));
+
+async function openBreaker(): Promise<void> {
+  for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+    await expect(guardCall(method, fail)).rejects.toThrow('UNAVAILABLE');
+  }
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  method = `Method${++testCount}`;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('guardCall', () => {
+  it('stays closed below the failure threshold and a success resets the count', async () => {
+    for (let i = 0; i < FAILURE_THRESHOLD - 1; i++) {
+      await expect(guardCall(method, fail)).rejects.toThrow('UNAVAILABLE');
+    }
+    await expect(guardCall(method, succeed)).resolves.toBe('ok');
+    await expect(guardCall(method, fail)).rejects.toThrow('UNAVAILABLE');
+
+    expect(getResilienceStatus().breakers[method]).toEqual({ state: 'closed', consecutiveFailures: 1, openedAt: undefined });
+  });
+
+  it('opens after consecutive failures and fails fast without calling', async () => {
+    await openBreaker();
+    const call = jest.fn(succeed);
+
+    await expect(guardCall(method, call)).rejects.toThrow('CIRCUIT_OPEN');
+    expect(call).not.toHaveBeenCalled();
+    expect(getResilienceStatus().breakers[method].state).toBe('open');
+    expect(trackEvent).toHaveBeenCalledWith('CircuitBreakerStateChanged', { method, from: 'closed', to: 'open' });
+    expect(trackEvent).toHaveBeenCalledWith('CircuitBreakerRejected', { method });
+  });
+
+  it('does not count business rejections as failures', async () => {
+    const notFound = () => Promise.reject(Object.assign(new Error('Product not found'), { code: grpc.status.NOT_FOUND }));
+
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+      await expect(guardCall(method, notFound)).rejects.toThrow('Product not found');
+    }
+
+    expect(isCircuitOpen(method)).toBe(false);
+  });
+
+  it('keeps the breakers of other methods closed', async () => {
+    await openBreaker();
+
+    expect(isCircuitOpen(`${method}Other`)).toBe(false);
+  });
+
+  it('goes half-open after the cool-down and lets a single probe through', async () => {
+    await openBreaker();
+    jest.advanceTimersByTime(RESET_TIMEOUT_MS - 1);
+    expect(isCircuitOpen(method)).toBe(true);
+
+    jest.advanceTimersByTime(1);
+    expect(isCircuitOpen(method)).toBe(false);
+    expect(getResilienceStatus().breakers[method].state).toBe('half_open');
+
+    const probe = deferred<string>();
+    const probing = guardCall(method, () => probe.promise);
+    await expect(guardCall(method, succeed)).rejects.toThrow('CIRCUIT_OPEN');
+
+    probe.resolve('ok');
+    await expect(probing).resolves.toBe('ok');
+  });
+
+  it('closes when the probe succeeds', async () => {
+    await openBreaker();
+    jest.advanceTimersByTime(RESET_TIMEOUT_MS);
+
+    await expect(guardCall(method, succeed)).resolves.toBe('ok');
+
+    expect(getResilienceStatus().breakers[method]).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: undefined });
+    expect(trackEvent).toHaveBeenCalledWith('CircuitBreakerStateChanged', { method, from: 'half_open', to: 'closed' });
+  });
+
+  it('reopens for another cool-down when the probe fails', async () => {
+    await openBreaker();
+    jest.advanceTimersByTime(RESET_TIMEOUT_MS);
+
+    await expect(guardCall(method, fail)).rejects.toThrow('UNAVAILABLE');
+
+    expect(getResilienceStatus().breakers[method].state).toBe('open');
+    jest.advanceTimersByTime(RESET_TIMEOUT_MS - 1);
+    expect(isCircuitOpen(method)).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(isCircuitOpen(method)).toBe(false);
+  });
+
+  it('does not close on a slow call that started before the breaker opened', async () => {
+    const slow = deferred<string>();
+    const slowCall = guardCall(method, () => slow.promise);
+    await openBreaker();
+    jest.advanceTimersByTime(RESET_TIMEOUT_MS);
+    expect(isCircuitOpen(method)).toBe(false);
+
+    slow.resolve('ok');
+    await slowCall;
+
+    expect(getResilienceStatus().breakers[method].state).toBe('half_open');
+  });
+});
+
+describe('bulkhead', () => {
+  it('rejects calls beyond the concurrency limit until one finishes', async () => {
+    const pending = Array.from({ length: MAX_CONCURRENT_CALLS }, () => deferred<string>());
+    const calls = pending.map((call, i) => guardCall(`${method}-${i % 3}`, () => call.promise));
+    expect(getResilienceStatus().inFlight).toBe(MAX_CONCURRENT_CALLS);
+
+    const rejected = jest.fn(succeed);
+    await expect(guardCall(method, rejected)).rejects.toThrow('BULKHEAD_FULL');
+    expect(rejected).not.toHaveBeenCalled();
+    expect(trackEvent).toHaveBeenCalledWith('BulkheadRejected', { method });
+
+    pending[0].resolve('ok');
+    await calls[0];
+    await expect(guardCall(method, succeed)).resolves.toBe('ok');
+
+    pending.slice(1).forEach(call => call.resolve('ok'));
+    await Promise.all(calls);
+    expect(getResilienceStatus().inFlight).toBe(0);
+  });
+
+  it('frees the slot of a failed call', async () => {
+    const pending = Array.from({ length: MAX_CONCURRENT_CALLS }, () => deferred<string>());
+    const calls = pending.map(call => guardCall(`${method}-busy`, () => call.promise).catch(() => undefined));
+
+    pending.forEach(call => call.reject(new Error('TIMEOUT')));
+    await Promise.all(calls);
+
+    expect(getResilienceStatus().inFlight).toBe(0);
+    await expect(guardCall(method, succeed)).resolves.toBe('ok');
+  });
+
+  it('does not count rejected calls as failures', async () => {
+    const pending = Array.from({ length: MAX_CONCURRENT_CALLS }, () => deferred<string>());
+    const calls = pending.map(call => guardCall(`${method}-busy`, () => call.promise));
+
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+      await expect(guardCall(method, succeed)).rejects.toThrow('BULKHEAD_FULL');
+    }
+
+    pending.forEach(call => call.resolve('ok'));
+    await Promise.all(calls);
+    expect(isCircuitOpen(method)).toBe(false);
+  });
+});
@@ -0,0 +1,284 @@
+import * as grpc from '@grpc/grpc-js';
+
+jest.mock('@grpc/proto-loader', () => ({
+  loadSync: jest.fn(() => ({})),
+}));
+jest.mock('@grpc/grpc-js', () => ({
+  ...jest.requireActual('@grpc/grpc-js'),
+  loadPackageDefinition: () => ({ inventory: { InventoryService: jest.fn(() => mockClient) } }),
+}));
+jest.mock('../../telemetry', () => ({
+  trackDependency: jest.fn(),
+  trackException: jest.fn(),
+  trackEvent: jest.fn(),
+  trackMetric: jest.fn(),
+}));
+
+type InventoryClient = typeof import('../inventoryClient');
+type Telemetry = typeof import('../../telemetry');
+
+interface FakeCall {
+  rpc: string;
+  request: any;
+  deadline: Date;
+  reply: (error: any, response?: any) => void;
+  cancel: jest.Mock;
+}
+
+/**
+ * A stub of the generated gRPC client: every call is recorded and answered
+ * by the test through reply(), or straight away by autoReply when set.
+ */
+let calls: FakeCall[];
+let autoReply: ((call: FakeCall) => [any, any?]) | null;
+
+function fakeRpc(rpc: string) {
+  return (request: any, _metadata: grpc.Metadata, options: { deadline: Date }, callback: (error: any, response?: any) => void) => {
+    const call: FakeCall = { rpc, request, deadline: options.deadline, reply: callback, cancel: jest.fn() };
+    calls.push(call);
+    if (autoReply) {
+      const [error, response] = autoReply(call);
+      Promise.resolve().then(() => callback(error, response));
+    }
+    return call;
+  };
+}
+
+const mockClient = {
+  checkStock: fakeRpc('checkStock'),
+  reserveStock: fakeRpc('reserveStock'),
+  releaseStock: fakeRpc('releaseStock'),
+  healthCheck: fakeRpc('healthCheck'),
+};
+
+const stock = { found: true, productId: 'SKU-001', productName: 'Gaming Console X', availableStock: 5, reservedStock: 0, onHandStock: 5, locations: [] };
+const unavailable = { code: grpc.status.UNAVAILABLE, message: '14 UNAVAILABLE' };
+
+/**
+ * Load a fresh copy of the client, so settings read at import (retry and
+ * hedge options) take the given environment and breakers start closed.
+ */
+function loadClient(env: Record<string, string> = {}): { client: InventoryClient; telemetry: Telemetry } {
+  const saved = { ...process.env };
+  Object.assign(process.env, { PROTO_PATH: 'inventory.proto' }, env);
+  try {
+    let loaded!: { client: InventoryClient; telemetry: Telemetry };
+    jest.isolateModules(() => {
+      loaded = { client: require('../inventoryClient'), telemetry: require('../../telemetry') };
+    });
+    return loaded;
+  } finally {
+    process.env = saved;
+  }
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  calls = [];
+  autoReply = null;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('getDeadlineMs', () => {
+  const { client } = loadClient();
+
+  afterEach(() => {
+    delete process.env.INVENTORY_CHECK_STOCK_DEADLINE_MS;
+    delete process.env.INVENTORY_RESERVE_STOCK_BATCH_DEADLINE_MS;
+  });
+
+  it('uses INVENTORY_<METHOD>_DEADLINE_MS for the method', () => {
+    process.env.INVENTORY_CHECK_STOCK_DEADLINE_MS = '500';
+    process.env.INVENTORY_RESERVE_STOCK_BATCH_DEADLINE_MS = '3500';
+
+    expect(client.getDeadlineMs('CheckStock')).toBe(500);
+    expect(client.getDeadlineMs('ReserveStockBatch')).toBe(3500);
+  });
+
+  it('falls back to the method default, then INVENTORY_DEADLINE_MS', () => {
+    expect(client.getDeadlineMs('HealthCheck')).toBe(1000);
+    expect(client.getDeadlineMs('CheckStock')).toBe(2000);
+    expect(loadClient({ INVENTORY_DEADLINE_MS: '750' }).client.getDeadlineMs('ReleaseStock')).toBe(750);
+  });
+
+  it('ignores a setting that is not a positive number', () => {
+    process.env.INVENTORY_CHECK_STOCK_DEADLINE_MS = 'soon';
+    expect(client.getDeadlineMs('CheckStock')).toBe(2000);
+
+    process.env.INVENTORY_CHECK_STOCK_DEADLINE_MS = '0';
+    expect(client.getDeadlineMs('CheckStock')).toBe(2000);
+  });
+
+  it('sends each call with its method\'s deadline', async () => {
+    process.env.INVENTORY_CHECK_STOCK_DEADLINE_MS = '500';
+    autoReply = () => [null, stock];
+
+    await client.checkStock('SKU-001');
+
+    expect(calls[0].deadline.getTime()).toBe(Date.now() + 500);
+  });
+});
+
+describe('computeRetryDelayMs', () => {
+  const { client } = loadClient();
+
+  it('stays below a ceiling that doubles from the base delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.9999);
+
+    expect([1, 2, 3, 4].map(client.computeRetryDelayMs)).toEqual([99, 199, 399, 799]);
+  });
+
+  it('caps the ceiling at the maximum delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.9999);
+
+    expect(client.computeRetryDelayMs(5)).toBe(999);
+    expect(client.computeRetryDelayMs(20)).toBe(999);
+  });
+
+  it('can pick no delay at all', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(client.computeRetryDelayMs(3)).toBe(0);
+  });
+});
+
+describe('retries', () => {
+  it('retries a transient failure of an idempotent call after the jittered delay', async () => {
+    const { client, telemetry } = loadClient();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    let failures = 2;
+    autoReply = () => (failures-- > 0 ? [unavailable] : [null, stock]);
+
+    const result = client.checkStock('SKU-001');
+
+    await jest.advanceTimersByTimeAsync(49);
+    expect(calls).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(100);
+
+    await expect(result).resolves.toMatchObject({ found: true, availableStock: 5 });
+    expect(calls).toHaveLength(3);
+    expect(telemetry.trackDependency).toHaveBeenCalledWith('CheckStock', 'gRPC', expect.any(String), expect.any(Number), true, {
+      attempts: '3',
+      retries: '2',
+      hedged: 'false',
+    });
+  });
+
+  it('gives up after INVENTORY_RETRY_MAX_ATTEMPTS attempts', async () => {
+    const { client, telemetry } = loadClient({ INVENTORY_RETRY_MAX_ATTEMPTS: '4' });
+    autoReply = () => [{ code: grpc.status.DEADLINE_EXCEEDED, message: '4 DEADLINE_EXCEEDED' }];
+
+    const result = client.checkStock('SKU-001');
+    const settled = expect(result).rejects.toThrow('TIMEOUT');
+    await jest.advanceTimersByTimeAsync(10000);
+
+    await settled;
+    expect(calls).toHaveLength(4);
+    expect(telemetry.trackDependency).toHaveBeenCalledWith('CheckStock', 'gRPC', expect.any(String), expect.any(Number), false, expect.objectContaining({
+      attempts: '4',
+    }));
+  });
+
+  it('does not retry an error that is not transient', async () => {
+    const { client } = loadClient();
+    autoReply = () => [{ code: grpc.status.INVALID_ARGUMENT, message: '3 INVALID_ARGUMENT' }];
+
+    await expect(client.checkStock('SKU-001')).rejects.toMatchObject({ code: grpc.status.INVALID_ARGUMENT });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('does not retry a call that is not safe to repeat', async () => {
+    const { client } = loadClient();
+    autoReply = () => [unavailable];
+
+    await expect(client.releaseStock({ orderId: 'ORD-1', reservationId: 'RES-1', reason: 'test' })).rejects.toThrow('UNAVAILABLE');
+    await expect(client.reserveStock({ orderId: 'ORD-1', productId: 'SKU-001', quantity: 1 })).rejects.toThrow('UNAVAILABLE');
+    expect(calls.map(call => call.rpc)).toEqual(['releaseStock', 'reserveStock']);
+  });
+
+  it('retries a reservation that carries an idempotency key', async () => {
+    const { client } = loadClient();
+    let failures = 1;
+    autoReply = () => (failures-- > 0 ? [unavailable] : [null, { success: true, message: 'ok', reservationId: 'RES-1', remainingStock: 4, status: 1 }]);
+
+    const result = client.reserveStock({ orderId: 'ORD-1', productId: 'SKU-001', quantity: 1, idempotencyKey: 'key-1' });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toMatchObject({ success: true, status: 'CONFIRMED' });
+    expect(calls).toHaveLength(2);
+  });
+});
+
+describe('CheckStock hedging', () => {
+  const HEDGE_DELAY_MS = 100;
+  let client: InventoryClient;
+  let telemetry: Telemetry;
+
+  beforeEach(() => {
+    ({ client, telemetry } = loadClient({ INVENTORY_CHECK_STOCK_HEDGE_DELAY_MS: String(HEDGE_DELAY_MS) }));
+  });
+
+  it('sends no second copy when the first answers within the hedge delay', async () => {
+    const result = client.checkStock('SKU-001');
+    await jest.advanceTimersByTimeAsync(HEDGE_DELAY_MS - 1);
+    calls[0].reply(null, stock);
+
+    await expect(result).resolves.toMatchObject({ found: true });
+    await jest.advanceTimersByTimeAsync(HEDGE_DELAY_MS);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('cancels the hedged copy when the first call answers', async () => {
+    const result = client.checkStock('SKU-001');
+    await jest.advanceTimersByTimeAsync(HEDGE_DELAY_MS);
+    expect(calls).toHaveLength(2);
+
+    calls[0].reply(null, stock);
+
+    await expect(result).resolves.toMatchObject({ found: true });
+    expect(calls[1].cancel).toHaveBeenCalled();
+    expect(calls[0].cancel).not.toHaveBeenCalled();
+    expect(telemetry.trackDependency).toHaveBeenCalledWith('CheckStock', 'gRPC', expect.any(String), expect.any(Number), true, expect.objectContaining({
+      attempts: '1',
+      hedged: 'true',
+    }));
+  });
+
+  it('cancels the first call when the hedged copy answers first', async () => {
+    const result = client.checkStock('SKU-001');
+    await jest.advanceTimersByTimeAsync(HEDGE_DELAY_MS);
+
+    calls[1].reply(null, stock);
+
+    await expect(result).resolves.toMatchObject({ found: true });
+    expect(calls[0].cancel).toHaveBeenCalled();
+  });
+
+  it('waits for the other copy when one fails', async () => {
+    const result = client.checkStock('SKU-001');
+    await jest.advanceTimersByTimeAsync(HEDGE_DELAY_MS);
+
+    calls[0].reply(unavailable);
+    await jest.advanceTimersByTimeAsync(0);
+    calls[1].reply(null, stock);
+
+    await expect(result).resolves.toMatchObject({ found: true });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not hedge other methods', async () => {
+    const result = client.healthCheck();
+    await jest.advanceTimersByTimeAsync(HEDGE_DELAY_MS * 3);
+    expect(calls).toHaveLength(1);
+
+    calls[0].reply(null, { healthy: true, message: 'ok' });
+    await expect(result).resolves.toEqual({ healthy: true, message: 'ok' });
+  });
+});
@@ -0,0 +1,174 @@
+import * as grpc from '@grpc/grpc-js';
+import { trackEvent, trackMetric } from '../telemetry';
+
+/**
+ * Circuit Breaker & Bulkhead
+ * Guards outbound inventory gRPC calls. Each method has its own breaker
+ * (closed → open after N consecutive failures → half-open after a cool-down),
+ * and a shared bulkhead caps the number of calls in flight at once.
+ * Rejected calls fail fast with CIRCUIT_OPEN or BULKHEAD_FULL.
+ */
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface BreakerStatus {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt?: string;
+}
+
+export interface ResilienceStatus {
+  breakers: Record<string, BreakerStatus>;
+  inFlight: number;
+  maxConcurrentCalls: number;
+}
+
+interface Breaker {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  halfOpenInFlight: number;
+}
+
+const FAILURE_THRESHOLD = parseInt(process.env.INVENTORY_BREAKER_FAILURE_THRESHOLD || '5', 10);
+const RESET_TIMEOUT_MS = parseInt(process.env.INVENTORY_BREAKER_RESET_TIMEOUT_MS || '10000', 10);
+const HALF_OPEN_MAX_CALLS = parseInt(process.env.INVENTORY_BREAKER_HALF_OPEN_MAX_CALLS || '1', 10);
+const MAX_CONCURRENT_CALLS = parseInt(process.env.INVENTORY_MAX_CONCURRENT_CALLS || '20', 10);
+
+// Errors that say nothing about inventory health (bad input, business rejections)
+const NON_FAILURE_CODES = new Set<number>([
+  grpc.status.INVALID_ARGUMENT,
+  grpc.status.NOT_FOUND,
+  grpc.status.ALREADY_EXISTS,
+  grpc.status.FAILED_PRECONDITION,
+]);
+
+const breakers = new Map<string, Breaker>();
+let inFlight = 0;
+
+function getBreaker(method: string): Breaker {
+  let breaker = breakers.get(method);
+  if (!breaker) {
+    breaker = { state: 'closed', consecutiveFailures: 0, openedAt: null, halfOpenInFlight: 0 };
+    breakers.set(method, breaker);
+  }
+  return breaker;
+}
+
+function transition(method: string, breaker: Breaker, to: BreakerState): void {
+  const from = breaker.state;
+  if (from === to) {
+    return;
+  }
+
+  breaker.state = to;
+  breaker.openedAt = to === 'open' ? Date.now() : breaker.openedAt;
+  if (to === 'closed') {
+    breaker.consecutiveFailures = 0;
+    breaker.openedAt = null;
+  }
+
+  console.log(`[Breaker] ${method}: ${from} -> ${to}`);
+  trackEvent('CircuitBreakerStateChanged', { method, from, to });
+  trackMetric(`CircuitBreaker.${method}.Open`, to === 'closed' ? 0 : 1);
+}
+
+/**
+ * True when calls to the method would currently be rejected. Moves an open
+ * breaker to half-open once the cool-down has passed.
+ */
+export function isCircuitOpen(method: string): boolean {
+  const breaker = getBreaker(method);
+
+  if (breaker.state === 'open' && Date.now() - (breaker.openedAt || 0) >= RESET_TIMEOUT_MS) {
+    transition(method, breaker, 'half_open');
+  }
+
+  if (breaker.state === 'half_open') {
+    return breaker.halfOpenInFlight >= HALF_OPEN_MAX_CALLS;
+  }
+
+  return breaker.state === 'open';
+}
+
+function isFailure(error: any): boolean {
+  if (error?.message === 'TIMEOUT' || error?.message === 'UNAVAILABLE') {
+    return true;
+  }
+  return !(typeof error?.code === 'number' && NON_FAILURE_CODES.has(error.code));
+}
+
+function recordSuccess(method: string, breaker: Breaker, probing: boolean): void {
+  // A slow call started before the breaker opened does not close it
+  if (breaker.state === 'closed') {
+    breaker.consecutiveFailures = 0;
+  } else if (probing) {
+    transition(method, breaker, 'closed');
+  }
+}
+
+function recordFailure(method: string, breaker: Breaker): void {
+  breaker.consecutiveFailures++;
+  if (breaker.state === 'half_open' || breaker.consecutiveFailures >= FAILURE_THRESHOLD) {
+    transition(method, breaker, 'open');
+  }
+}
+
+/**
+ * Run a gRPC call through the method's breaker and the shared bulkhead.
+ */
+export async function guardCall<T>(method: string, call: () => Promise<T>): Promise<T> {
+  if (isCircuitOpen(method)) {
+    trackEvent('CircuitBreakerRejected', { method });
+    throw new Error('CIRCUIT_OPEN');
+  }
+
+  if (inFlight >= MAX_CONCURRENT_CALLS) {
+    console.warn(`[Breaker] Bulkhead full (${inFlight}/${MAX_CONCURRENT_CALLS}), rejecting ${method}`);
+    trackEvent('BulkheadRejected', { method });
+    throw new Error('BULKHEAD_FULL');
+  }
+
+  const breaker = getBreaker(method);
+  const probing = breaker.state === 'half_open';
+
+  inFlight++;
+  if (probing) {
+    breaker.halfOpenInFlight++;
+  }
+  trackMetric('InventoryClient.InFlight', inFlight);
+
+  try {
+    const result = await call();
+    recordSuccess(method, breaker, probing);
+    return result;
+  } catch (error) {
+    if (isFailure(error)) {
+      recordFailure(method, breaker);
+    }
+    throw error;
+  } finally {
+    inFlight--;
+    if (probing) {
+      breaker.halfOpenInFlight--;
+    }
+  }
+}
+
+export function getResilienceStatus(): ResilienceStatus {
+  const status: Record<string, BreakerStatus> = {};
+
+  for (const [method, breaker] of breakers) {
+    status[method] = {
+      state: breaker.state,
+      consecutiveFailures: breaker.consecutiveFailures,
+      openedAt: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : undefined,
+    };
+  }
+
+  return {
+    breakers: status,
+    inFlight,
+    maxConcurrentCalls: MAX_CONCURRENT_CALLS,
+  };
+}
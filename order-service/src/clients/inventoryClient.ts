@@ -1,7 +1,8 @@
 import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
-import path from 'path';
 import { trackDependency, trackException } from '../telemetry';
+import { injectTraceContext, withSpan } from '../../../shared/tracing';
+import { guardCall } from './circuitBreaker';
 
 // Load proto - use environment variable or default to container path
 const PROTO_PATH = process.env.PROTO_PATH || '/app/protos/inventory.proto';
@@ -16,9 +17,27 @@ const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
 
 const inventoryProto = grpc.loadPackageDefinition(packageDefinition).inventory as any;
 
-const GRPC_TIMEOUT_MS = 2000; // 2 second timeout as per requirements
 const INVENTORY_SERVICE_HOST = process.env.INVENTORY_SERVICE_HOST || 'inventory-service:50051';
 
+// Deadlines: INVENTORY_DEADLINE_MS for every RPC, overridable per method with
+// INVENTORY_<METHOD>_DEADLINE_MS (e.g. INVENTORY_CHECK_STOCK_DEADLINE_MS)
+const DEFAULT_DEADLINE_MS = parseInt(process.env.INVENTORY_DEADLINE_MS || '2000', 10); // 2 second timeout as per requirements
+const METHOD_DEADLINE_DEFAULTS: Record<string, number> = {
+  HealthCheck: 1000,
+};
+
+// Retries (idempotent calls only) with full-jitter exponential backoff
+const RETRY_MAX_ATTEMPTS = parseInt(process.env.INVENTORY_RETRY_MAX_ATTEMPTS || '3', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.INVENTORY_RETRY_BASE_DELAY_MS || '100', 10);
+const RETRY_MAX_DELAY_MS = parseInt(process.env.INVENTORY_RETRY_MAX_DELAY_MS || '1000', 10);
+const RETRYABLE_ERRORS = ['TIMEOUT', 'UNAVAILABLE'];
+
+// Hedged CheckStock: send a second copy if the first is slower than this (0 = off)
+const CHECK_STOCK_HEDGE_DELAY_MS = parseInt(process.env.INVENTORY_CHECK_STOCK_HEDGE_DELAY_MS || '0', 10);
+
+// Breaker state is read by routes (/health, async fallback)
+export { isCircuitOpen, getResilienceStatus, ResilienceStatus } from './circuitBreaker';
+
 let client: any = null;
 
 function getClient(): any {
@@ -36,6 +55,7 @@ export interface ReserveStockRequest {
   productId: string;
   quantity: number;
   idempotencyKey?: string;
+  ttlSeconds?: number;
 }
 
 export interface ReserveStockResponse {
@@ -43,7 +63,40 @@ export interface ReserveStockResponse {
   message: string;
   reservationId: string;
   remainingStock: number;
-  status: 'UNKNOWN' | 'CONFIRMED' | 'INSUFFICIENT_STOCK' | 'PRODUCT_NOT_FOUND' | 'ALREADY_EXISTS';
+  status: 'UNKNOWN' | 'CONFIRMED' | 'INSUFFICIENT_STOCK' | 'PRODUCT_NOT_FOUND' | 'ALREADY_EXISTS' | 'BACKORDERED';
+}
+
+export interface StockLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface ReserveStockBatchRequest {
+  orderId: string;
+  items: StockLine[];
+  idempotencyKey?: string;
+  ttlSeconds?: number;
+  // Put the order on the backorder waitlist instead of failing it
+  allowBackorder?: boolean;
+}
+
+export interface ReservedLine {
+  productId: string;
+  quantity: number;
+  reservationId: string;
+  remainingStock: number;
+  locationId: string;
+}
+
+export interface ReserveStockBatchResponse {
+  success: boolean;
+  message: string;
+  reservationId: string;
+  lines: ReservedLine[];
+  status: ReserveStockResponse['status'];
+  failedProductId: string;
+  // Set when the order was backordered; nothing is reserved yet
+  backorderId: string;
 }
 
 export interface ReleaseStockRequest {
@@ -56,6 +109,29 @@ export interface ReleaseStockResponse {
   success: boolean;
   message: string;
   newStock: number;
+  // Repeat of the release that settled it, with the same reason
+  alreadyReleased: boolean;
+}
+
+export interface ConfirmReservationRequest {
+  orderId: string;
+  reservationId: string;
+}
+
+export interface ConfirmReservationResponse {
+  success: boolean;
+  message: string;
+}
+
+export interface CommitReservationRequest {
+  orderId: string;
+  reservationId: string;
+}
+
+export interface CommitReservationResponse {
+  success: boolean;
+  message: string;
+  alreadyCommitted: boolean;
 }
 
 export interface CheckStockResponse {
@@ -64,6 +140,41 @@ export interface CheckStockResponse {
   productName: string;
   availableStock: number;
   reservedStock: number;
+  onHandStock: number;
+  locations: LocationStock[];
+}
+
+export interface LocationStock {
+  locationId: string;
+  locationName: string;
+  availableStock: number;
+  reservedStock: number;
+  onHandStock: number;
+}
+
+export interface VerifyOrderRequest {
+  orderId: string;
+  items: StockLine[];
+  idempotencyKey: string;
+}
+
+export interface VerifyOrderResponse {
+  verified: boolean;
+  message: string;
+  reservationId: string;
+  recoveredFromCrash: boolean;
+  backordered: boolean;
+}
+
+export interface CancelBackorderRequest {
+  orderId: string;
+}
+
+export interface CancelBackorderResponse {
+  success: boolean;
+  message: string;
+  status: 'cancelled' | 'filled' | 'not_found';
+  reservationId: string;
 }
 
 const statusMap: Record<number, ReserveStockResponse['status']> = {
@@ -72,131 +183,349 @@ const statusMap: Record<number, ReserveStockResponse['status']> = {
   2: 'INSUFFICIENT_STOCK',
   3: 'PRODUCT_NOT_FOUND',
   4: 'ALREADY_EXISTS',
+  5: 'BACKORDERED',
 };
 
-export async function reserveStock(request: ReserveStockRequest): Promise<ReserveStockResponse> {
-  const startTime = Date.now();
+interface CallOptions {
+  // Safe to send more than once (read-only, or deduplicated by idempotency key)
+  retry?: boolean;
+  // Race a second copy of the request after CHECK_STOCK_HEDGE_DELAY_MS
+  hedge?: boolean;
+  // Skip the circuit breaker and bulkhead (health probes)
+  unguarded?: boolean;
+  // Report the final failure through trackException
+  trackErrors?: boolean;
+}
+
+export function getDeadlineMs(method: string): number {
+  const envKey = `INVENTORY_${method.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}_DEADLINE_MS`;
+  const configured = parseInt(process.env[envKey] || '', 10);
+  if (configured > 0) {
+    return configured;
+  }
+  return METHOD_DEADLINE_DEFAULTS[method] ?? DEFAULT_DEADLINE_MS;
+}
+
+export function computeRetryDelayMs(attempt: number): number {
+  const ceiling = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1), RETRY_MAX_DELAY_MS);
+  return Math.floor(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send one RPC with the method's deadline. Deadline and connection errors are
+ * normalised to TIMEOUT / UNAVAILABLE.
+ */
+function invokeOnce(method: string, rpc: string, request: any): { promise: Promise<any>; cancel: () => void } {
+  let call: any;
   
-  return new Promise((resolve, reject) => {
-    const deadline = new Date(Date.now() + GRPC_TIMEOUT_MS);
+  const promise = new Promise<any>((resolve, reject) => {
+    const deadline = new Date(Date.now() + getDeadlineMs(method));
+    const metadata = new grpc.Metadata();
+    for (const [key, value] of Object.entries(injectTraceContext())) {
+      metadata.set(key, value);
+    }
     
-    getClient().reserveStock(request, { deadline }, (error: any, response: any) => {
-      const duration = Date.now() - startTime;
-      
-      if (error) {
-        trackDependency(
-          'ReserveStock',
-          'gRPC',
-          INVENTORY_SERVICE_HOST,
-          duration,
-          false
-        );
-        
-        if (error.code === grpc.status.DEADLINE_EXCEEDED) {
-          trackException(new Error('gRPC timeout'), { operation: 'ReserveStock' });
-          reject(new Error('TIMEOUT'));
-        } else if (error.code === grpc.status.UNAVAILABLE) {
-          trackException(new Error('gRPC unavailable'), { operation: 'ReserveStock' });
-          reject(new Error('UNAVAILABLE'));
-        } else {
-          trackException(error, { operation: 'ReserveStock' });
-          reject(error);
-        }
-        return;
+    call = getClient()[rpc](request, metadata, { deadline }, (error: any, response: any) => {
+      if (!error) {
+        resolve(response);
+      } else if (error.code === grpc.status.DEADLINE_EXCEEDED) {
+        reject(new Error('TIMEOUT'));
+      } else if (error.code === grpc.status.UNAVAILABLE) {
+        reject(new Error('UNAVAILABLE'));
+      } else {
+        reject(error);
       }
-      
-      trackDependency(
-        'ReserveStock',
-        'gRPC',
-        INVENTORY_SERVICE_HOST,
-        duration,
-        true
-      );
-      
-      resolve({
-        success: response.success,
-        message: response.message,
-        reservationId: response.reservationId,
-        remainingStock: response.remainingStock,
-        status: statusMap[response.status] || 'UNKNOWN',
-      });
     });
   });
+  
+  return { promise, cancel: () => call?.cancel() };
 }
 
-export async function releaseStock(request: ReleaseStockRequest): Promise<ReleaseStockResponse> {
-  const startTime = Date.now();
-  
+/**
+ * Send the RPC and, if it has not answered within CHECK_STOCK_HEDGE_DELAY_MS,
+ * a second copy. The first success wins and the other call is cancelled.
+ */
+function invokeHedged(method: string, rpc: string, request: any): Promise<{ response: any; hedged: boolean }> {
   return new Promise((resolve, reject) => {
-    const deadline = new Date(Date.now() + GRPC_TIMEOUT_MS);
+    const calls: Array<{ promise: Promise<any>; cancel: () => void }> = [];
+    let hedgeTimer: NodeJS.Timeout | null = null;
+    let settled = false;
+    let pending = 0;
     
-    getClient().releaseStock(request, { deadline }, (error: any, response: any) => {
-      const duration = Date.now() - startTime;
+    const send = () => {
+      const index = calls.length;
+      const current = invokeOnce(method, rpc, request);
+      calls.push(current);
+      pending++;
       
-      if (error) {
-        trackDependency('ReleaseStock', 'gRPC', INVENTORY_SERVICE_HOST, duration, false);
-        
-        if (error.code === grpc.status.DEADLINE_EXCEEDED) {
-          reject(new Error('TIMEOUT'));
-        } else {
+      current.promise.then(
+        (response) => {
+          if (settled) return;
+          settled = true;
+          if (hedgeTimer) clearTimeout(hedgeTimer);
+          calls.forEach((other, i) => i !== index && other.cancel());
+          resolve({ response, hedged: calls.length > 1 });
+        },
+        (error) => {
+          pending--;
+          // Keep waiting while another copy is still in flight
+          if (settled || pending > 0) return;
+          settled = true;
+          if (hedgeTimer) clearTimeout(hedgeTimer);
           reject(error);
         }
-        return;
-      }
-      
-      trackDependency('ReleaseStock', 'gRPC', INVENTORY_SERVICE_HOST, duration, true);
-      
-      resolve({
-        success: response.success,
-        message: response.message,
-        newStock: response.newStock,
-      });
-    });
+      );
+    };
+    
+    send();
+    
+    hedgeTimer = setTimeout(() => {
+      hedgeTimer = null;
+      if (settled) return;
+      console.log(`[gRPC] ${method} slower than ${CHECK_STOCK_HEDGE_DELAY_MS}ms, sending hedged request`);
+      send();
+    }, CHECK_STOCK_HEDGE_DELAY_MS);
   });
 }
 
-export async function checkStock(productId: string): Promise<CheckStockResponse> {
+/**
+ * Call an inventory RPC through the breaker/bulkhead, retrying transient
+ * failures of idempotent calls. One dependency and one client span are
+ * tracked per logical call, with the number of attempts.
+ */
+function callInventory(
+  method: string,
+  rpc: string,
+  request: any,
+  options: CallOptions = {}
+): Promise<any> {
+  return withSpan(`InventoryService/${method}`, () => invokeWithPolicies(method, rpc, request, options), {
+    kind: 'client',
+    attributes: { 'rpc.system': 'grpc', 'rpc.service': 'InventoryService', 'rpc.method': method },
+  });
+}
+
+async function invokeWithPolicies(
+  method: string,
+  rpc: string,
+  request: any,
+  options: CallOptions
+): Promise<any> {
   const startTime = Date.now();
+  const maxAttempts = options.retry ? Math.max(1, RETRY_MAX_ATTEMPTS) : 1;
+  const hedge = options.hedge && CHECK_STOCK_HEDGE_DELAY_MS > 0;
+  let attempt = 0;
+  let hedged = false;
   
-  return new Promise((resolve, reject) => {
-    const deadline = new Date(Date.now() + GRPC_TIMEOUT_MS);
+  const send = async () => {
+    if (!hedge) {
+      return invokeOnce(method, rpc, request).promise;
+    }
+    const result = await invokeHedged(method, rpc, request);
+    hedged = hedged || result.hedged;
+    return result.response;
+  };
+  
+  while (true) {
+    attempt++;
     
-    getClient().checkStock({ productId }, { deadline }, (error: any, response: any) => {
-      const duration = Date.now() - startTime;
+    try {
+      const response = options.unguarded ? await send() : await guardCall(method, send);
       
-      if (error) {
-        trackDependency('CheckStock', 'gRPC', INVENTORY_SERVICE_HOST, duration, false);
-        reject(error);
-        return;
-      }
+      trackDependency(method, 'gRPC', INVENTORY_SERVICE_HOST, Date.now() - startTime, true, {
+        attempts: String(attempt),
+        retries: String(attempt - 1),
+        hedged: String(hedged),
+      });
       
-      trackDependency('CheckStock', 'gRPC', INVENTORY_SERVICE_HOST, duration, true);
+      return response;
+    } catch (error) {
+      const errorMessage = (error as Error).message;
       
-      resolve({
-        found: response.found,
-        productId: response.productId,
-        productName: response.productName,
-        availableStock: response.availableStock,
-        reservedStock: response.reservedStock,
+      if (attempt < maxAttempts && RETRYABLE_ERRORS.includes(errorMessage)) {
+        const delayMs = computeRetryDelayMs(attempt);
+        console.log(`[gRPC] ${method} ${errorMessage}, retry ${attempt}/${maxAttempts - 1} in ${delayMs}ms`);
+        await sleep(delayMs);
+        continue;
+      }
+      
+      trackDependency(method, 'gRPC', INVENTORY_SERVICE_HOST, Date.now() - startTime, false, {
+        attempts: String(attempt),
+        retries: String(attempt - 1),
+        hedged: String(hedged),
       });
-    });
+      
+      if (options.trackErrors) {
+        trackException(error as Error, { operation: method, attempts: String(attempt) });
+      }
+      
+      throw error;
+    }
+  }
+}
+
+export async function reserveStock(request: ReserveStockRequest): Promise<ReserveStockResponse> {
+  // Inventory deduplicates on the idempotency key, so only then is a retry safe
+  const response = await callInventory('ReserveStock', 'reserveStock', request, {
+    retry: !!request.idempotencyKey,
+    trackErrors: true,
   });
+  
+  return {
+    success: response.success,
+    message: response.message,
+    reservationId: response.reservationId,
+    remainingStock: response.remainingStock,
+    status: statusMap[response.status] || 'UNKNOWN',
+  };
+}
+
+export async function reserveStockBatch(
+  request: ReserveStockBatchRequest
+): Promise<ReserveStockBatchResponse> {
+  // Inventory deduplicates on the idempotency key, so only then is a retry safe
+  const response = await callInventory('ReserveStockBatch', 'reserveStockBatch', request, {
+    retry: !!request.idempotencyKey,
+    trackErrors: true,
+  });
+  
+  return {
+    success: response.success,
+    message: response.message,
+    reservationId: response.reservationId,
+    lines: (response.lines || []).map((line: any) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+      reservationId: line.reservationId,
+      remainingStock: line.remainingStock,
+      locationId: line.locationId,
+    })),
+    status: statusMap[response.status] || 'UNKNOWN',
+    failedProductId: response.failedProductId,
+    backorderId: response.backorderId,
+  };
+}
+
+export async function releaseStock(request: ReleaseStockRequest): Promise<ReleaseStockResponse> {
+  const response = await callInventory('ReleaseStock', 'releaseStock', request);
+  
+  return {
+    success: response.success,
+    message: response.message,
+    newStock: response.newStock,
+    alreadyReleased: response.alreadyReleased,
+  };
+}
+
+/**
+ * Stop the reservation of a confirmed order from expiring. Idempotent, so
+ * transient failures are retried.
+ */
+export async function confirmReservation(
+  request: ConfirmReservationRequest
+): Promise<ConfirmReservationResponse> {
+  const response = await callInventory('ConfirmReservation', 'confirmReservation', request, {
+    retry: true,
+  });
+  
+  return {
+    success: response.success,
+    message: response.message,
+  };
+}
+
+export async function commitReservation(
+  request: CommitReservationRequest
+): Promise<CommitReservationResponse> {
+  const response = await callInventory('CommitReservation', 'commitReservation', request);
+  
+  return {
+    success: response.success,
+    message: response.message,
+    alreadyCommitted: response.alreadyCommitted,
+  };
+}
+
+export async function checkStock(productId: string): Promise<CheckStockResponse> {
+  const response = await callInventory('CheckStock', 'checkStock', { productId }, {
+    retry: true,
+    hedge: true,
+  });
+  
+  return mapStockResponse(response);
+}
+
+/**
+ * Check stock for several products in one call. An empty list returns every
+ * product.
+ */
+export async function checkStockBatch(productIds: string[] = []): Promise<CheckStockResponse[]> {
+  const response = await callInventory('CheckStockBatch', 'checkStockBatch', { productIds }, {
+    retry: true,
+  });
+  
+  return (response.products || []).map(mapStockResponse);
+}
+
+export async function verifyOrder(request: VerifyOrderRequest): Promise<VerifyOrderResponse> {
+  const response = await callInventory('VerifyOrder', 'verifyOrder', request);
+  
+  return {
+    verified: response.verified,
+    message: response.message,
+    reservationId: response.reservationId,
+    recoveredFromCrash: response.recoveredFromCrash,
+    backordered: response.backordered,
+  };
+}
+
+export async function cancelBackorder(request: CancelBackorderRequest): Promise<CancelBackorderResponse> {
+  const response = await callInventory('CancelBackorder', 'cancelBackorder', request, {
+    retry: true,
+  });
+  
+  return {
+    success: response.success,
+    message: response.message,
+    status: response.status,
+    reservationId: response.reservationId,
+  };
 }
 
 export async function healthCheck(): Promise<{ healthy: boolean; message: string }> {
-  return new Promise((resolve) => {
-    const deadline = new Date(Date.now() + 1000);
-    
-    getClient().healthCheck({}, { deadline }, (error: any, response: any) => {
-      if (error) {
-        resolve({ healthy: false, message: error.message });
-        return;
-      }
-      
-      resolve({
-        healthy: response.healthy,
-        message: response.message,
-      });
+  try {
+    const response = await callInventory('HealthCheck', 'healthCheck', {}, {
+      retry: true,
+      unguarded: true,
     });
-  });
+    
+    return {
+      healthy: response.healthy,
+      message: response.message,
+    };
+  } catch (error) {
+    return { healthy: false, message: (error as Error).message };
+  }
+}
+
+function mapStockResponse(response: any): CheckStockResponse {
+  return {
+    found: response.found,
+    productId: response.productId,
+    productName: response.productName,
+    availableStock: response.availableStock,
+    reservedStock: response.reservedStock,
+    onHandStock: response.onHandStock,
+    locations: (response.locations || []).map((location: any) => ({
+      locationId: location.locationId,
+      locationName: location.locationName,
+      availableStock: location.availableStock,
+      reservedStock: location.reservedStock,
+      onHandStock: location.onHandStock,
+    })),
+  };
 }
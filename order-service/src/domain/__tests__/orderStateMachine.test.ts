@@ -0,0 +1,254 @@
+import type { Order } from '../orderRepository';
+import type { InboxMessage } from '../inboxRepository';
+import type { OutboxMessage } from '../outboxRepository';
+import * as orderRepository from '../orderRepository';
+import * as inventoryClient from '../../clients/inventoryClient';
+import { canTransition, transitionOrder } from '../orderStateMachine';
+
+jest.mock('../orderRepository', () => ({
+  getOrder: jest.fn(),
+  updateOrderStatus: jest.fn(),
+}));
+jest.mock('../../clients/inventoryClient', () => ({
+  confirmReservation: jest.fn(),
+  releaseStock: jest.fn(),
+  cancelBackorder: jest.fn(),
+}));
+jest.mock('../../messaging/orderPublisher', () => ({
+  generateEventId: () => 'evt-test',
+}));
+jest.mock('../../interface/websocket', () => ({
+  broadcastOrderUpdate: jest.fn(),
+}));
+jest.mock('../../telemetry', () => ({
+  trackEvent: jest.fn(),
+  trackException: jest.fn(),
+}));
+
+const getOrder = orderRepository.getOrder as jest.MockedFunction<typeof orderRepository.getOrder>;
+const updateOrderStatus = orderRepository.updateOrderStatus as jest.MockedFunction<typeof orderRepository.updateOrderStatus>;
+const confirmReservation = inventoryClient.confirmReservation as jest.MockedFunction<typeof inventoryClient.confirmReservation>;
+const releaseStock = inventoryClient.releaseStock as jest.MockedFunction<typeof inventoryClient.releaseStock>;
+const cancelBackorder = inventoryClient.cancelBackorder as jest.MockedFunction<typeof inventoryClient.cancelBackorder>;
+
+function makeOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: 'ORD-1',
+    customerId: 'CUST-1',
+    items: [{ productId: 'SKU-001', quantity: 2 }],
+    status: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    verificationAttempts: 0,
+    version: 1,
+    ...overrides,
+  };
+}
+
+// One stored order; updateOrderStatus applies only at the current version
+let stored: Order | null;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  stored = makeOrder();
+  getOrder.mockImplementation(async () => (stored ? { ...stored } : null));
+  updateOrderStatus.mockImplementation(async (orderId, status, expectedVersion, change = {}) => {
+    if (!stored || stored.version !== expectedVersion) {
+      return null;
+    }
+    stored = {
+      ...stored,
+      status,
+      version: stored.version + 1,
+      reservationId: change.reservationId || stored.reservationId,
+      errorMessage: change.errorMessage || stored.errorMessage,
+    };
+    return { ...stored };
+  });
+  confirmReservation.mockResolvedValue({ success: true, message: 'Reservation confirmed' });
+  releaseStock.mockResolvedValue({ success: true, message: 'Stock released', newStock: 10, alreadyReleased: false });
+  cancelBackorder.mockResolvedValue({ success: true, message: 'Backorder cancelled', status: 'cancelled', reservationId: '' });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('canTransition', () => {
+  it('allows the forward moves of an order', () => {
+    expect(canTransition('pending', 'confirmed')).toBe(true);
+    expect(canTransition('pending', 'pending_verification')).toBe(true);
+    expect(canTransition('pending_verification', 'backordered')).toBe(true);
+    expect(canTransition('backordered', 'confirmed')).toBe(true);
+    expect(canTransition('confirmed', 'shipped')).toBe(true);
+  });
+
+  it('does not let a confirmed order expire', () => {
+    expect(canTransition('confirmed', 'expired')).toBe(false);
+  });
+
+  it('does not let a backordered order expire', () => {
+    expect(canTransition('backordered', 'expired')).toBe(false);
+  });
+
+  it.each(['failed', 'cancelled', 'expired', 'shipped'] as const)('treats %s as final', status => {
+    for (const to of ['pending', 'confirmed', 'failed', 'cancelled', 'expired', 'shipped'] as const) {
+      expect(canTransition(status, to)).toBe(false);
+    }
+  });
+});
+
+describe('transitionOrder', () => {
+  it('writes the status change with its event and confirms the reservation', async () => {
+    const result = await transitionOrder('ORD-1', 'confirmed', { source: 'test', reservationId: 'RES-1' });
+
+    expect(result.outcome).toBe('applied');
+    expect(result.order).toMatchObject({ status: 'confirmed', reservationId: 'RES-1', version: 2 });
+
+    const [, status, expectedVersion, change] = updateOrderStatus.mock.calls[0];
+    expect(status).toBe('confirmed');
+    expect(expectedVersion).toBe(1);
+    expect(change!.history).toEqual({ from: 'pending', source: 'test', reason: undefined });
+    expect(change!.outboxMessages).toEqual([
+      expect.objectContaining({
+        eventType: 'OrderConfirmed',
+        data: expect.objectContaining({ orderId: 'ORD-1', status: 'confirmed', reservationId: 'RES-1' }),
+      }),
+    ]);
+    expect(confirmReservation).toHaveBeenCalledWith({ orderId: 'ORD-1', reservationId: 'RES-1' });
+  });
+
+  it('passes extra outbox messages and the inbox record into the same write', async () => {
+    const extra: OutboxMessage = {
+      eventType: 'OrderCreated',
+      eventId: 'evt-extra',
+      timestamp: new Date().toISOString(),
+      data: { orderId: 'ORD-1', status: 'pending', items: [] },
+    };
+    const inbox: InboxMessage = { consumer: 'order-service', messageId: 'msg-1', eventType: 'StockReserved' };
+
+    await transitionOrder('ORD-1', 'failed', { source: 'test', reason: 'Out of stock', outboxMessages: [extra], inboxMessage: inbox });
+
+    const change = updateOrderStatus.mock.calls[0][3]!;
+    expect(change.outboxMessages).toHaveLength(2);
+    expect(change.outboxMessages![1]).toBe(extra);
+    expect(change.inboxMessage).toBe(inbox);
+    expect(change.errorMessage).toBe('Out of stock');
+  });
+
+  it('rejects a transition TRANSITIONS does not allow, without writing', async () => {
+    stored = makeOrder({ status: 'failed' });
+
+    const result = await transitionOrder('ORD-1', 'confirmed', { source: 'test', reservationId: 'RES-1' });
+
+    expect(result.outcome).toBe('rejected');
+    expect(result.error).toBe('Cannot move order from failed to confirmed');
+    expect(updateOrderStatus).not.toHaveBeenCalled();
+    expect(confirmReservation).not.toHaveBeenCalled();
+  });
+
+  it('rejects confirming an order without a reservation', async () => {
+    const result = await transitionOrder('ORD-1', 'confirmed', { source: 'test' });
+
+    expect(result.outcome).toBe('rejected');
+    expect(result.error).toBe('Cannot confirm an order without a reservation');
+    expect(updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('only applies from the statuses given in from', async () => {
+    const result = await transitionOrder('ORD-1', 'failed', { source: 'test', from: ['pending_verification'] });
+
+    expect(result.outcome).toBe('rejected');
+    expect(updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('leaves an order already at the target status unchanged', async () => {
+    stored = makeOrder({ status: 'failed' });
+
+    const result = await transitionOrder('ORD-1', 'failed', { source: 'test' });
+
+    expect(result.outcome).toBe('unchanged');
+    expect(updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing order', async () => {
+    stored = null;
+
+    expect(await transitionOrder('ORD-1', 'failed', { source: 'test' })).toEqual({
+      outcome: 'not_found',
+      order: null,
+      error: 'Order not found',
+    });
+  });
+
+  it('re-reads and re-checks after a concurrent write', async () => {
+    // Another writer fails the order between our read and our write
+    updateOrderStatus.mockImplementationOnce(async () => {
+      stored = { ...stored!, status: 'failed', version: stored!.version + 1 };
+      return null;
+    });
+
+    const result = await transitionOrder('ORD-1', 'confirmed', { source: 'test', reservationId: 'RES-1' });
+
+    expect(result.outcome).toBe('rejected');
+    expect(result.order!.status).toBe('failed');
+    expect(updateOrderStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies on a later attempt when the concurrent write left the move legal', async () => {
+    updateOrderStatus.mockImplementationOnce(async () => {
+      stored = { ...stored!, status: 'pending_verification', version: stored!.version + 1 };
+      return null;
+    });
+
+    const result = await transitionOrder('ORD-1', 'confirmed', { source: 'test', reservationId: 'RES-1' });
+
+    expect(result.outcome).toBe('applied');
+    expect(updateOrderStatus).toHaveBeenCalledTimes(2);
+    expect(updateOrderStatus.mock.calls[1][2]).toBe(2);
+    expect(updateOrderStatus.mock.calls[1][3]!.history!.from).toBe('pending_verification');
+  });
+
+  it('gives up with conflict when the order keeps changing', async () => {
+    updateOrderStatus.mockResolvedValue(null);
+
+    const result = await transitionOrder('ORD-1', 'confirmed', { source: 'test', reservationId: 'RES-1' });
+
+    expect(result.outcome).toBe('conflict');
+    expect(updateOrderStatus).toHaveBeenCalledTimes(4);
+    expect(confirmReservation).not.toHaveBeenCalled();
+  });
+
+  it('releases the reservation when a confirmed order is cancelled', async () => {
+    stored = makeOrder({ status: 'confirmed', reservationId: 'RES-1' });
+
+    const result = await transitionOrder('ORD-1', 'cancelled', { source: 'api', reason: 'Customer cancelled' });
+
+    expect(result.outcome).toBe('applied');
+    expect(releaseStock).toHaveBeenCalledWith({ orderId: 'ORD-1', reservationId: 'RES-1', reason: 'Customer cancelled' });
+    expect(cancelBackorder).not.toHaveBeenCalled();
+  });
+
+  it('keeps the cancellation when the release fails', async () => {
+    stored = makeOrder({ status: 'confirmed', reservationId: 'RES-1' });
+    releaseStock.mockRejectedValue(new Error('UNAVAILABLE'));
+
+    const result = await transitionOrder('ORD-1', 'cancelled', { source: 'api' });
+
+    expect(result.outcome).toBe('applied');
+    expect(stored!.status).toBe('cancelled');
+  });
+
+  it('takes a cancelled backordered order off the waitlist', async () => {
+    stored = makeOrder({ status: 'backordered' });
+
+    await transitionOrder('ORD-1', 'cancelled', { source: 'api' });
+
+    expect(cancelBackorder).toHaveBeenCalledWith({ orderId: 'ORD-1' });
+    expect(releaseStock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,196 @@
+import type { Order } from '../orderRepository';
+import * as inventoryClient from '../../clients/inventoryClient';
+import { compensateOrphanedReservation, CompensationTrigger } from '../reservationCompensation';
+import { trackEvent } from '../../telemetry';
+
+jest.mock('pg', () => ({ Pool: jest.fn(() => mockPool) }));
+jest.mock('../../clients/inventoryClient', () => ({
+  releaseStock: jest.fn(),
+}));
+jest.mock('../../messaging/orderPublisher', () => ({
+  generateEventId: () => `evt-${Math.random().toString(36).slice(2)}`,
+}));
+jest.mock('../../telemetry', () => ({
+  trackEvent: jest.fn(),
+  trackException: jest.fn(),
+}));
+
+const releaseStock = inventoryClient.releaseStock as jest.MockedFunction<typeof inventoryClient.releaseStock>;
+
+/**
+ * order_events and outbox as far as recordCompensation uses them. Writes
+ * only land on COMMIT, so a rolled back record leaves nothing behind.
+ */
+function createFakeDb() {
+  const orderEvents: Array<{ orderId: string; eventType: string; eventData: any }> = [];
+  const outbox: any[] = [];
+  let pendingEvents: typeof orderEvents = [];
+  let pendingOutbox: any[] = [];
+  let failOutbox = false;
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+
+    if (text === 'BEGIN' || text === 'SELECT 1' || text.startsWith('SELECT id FROM orders')) {
+      return { rows: [] };
+    }
+    if (text === 'COMMIT') {
+      orderEvents.push(...pendingEvents);
+      outbox.push(...pendingOutbox);
+      pendingEvents = [];
+      pendingOutbox = [];
+      return { rows: [] };
+    }
+    if (text === 'ROLLBACK') {
+      pendingEvents = [];
+      pendingOutbox = [];
+      return { rows: [] };
+    }
+    if (text.startsWith('SELECT 1 FROM order_events')) {
+      const rows = orderEvents.filter(event =>
+        event.orderId === params[0] && event.eventType === 'CompensationApplied' && event.eventData.reservationId === params[1]
+      );
+      return { rows: rows.map(() => ({ '?column?': 1 })) };
+    }
+    if (text.startsWith('INSERT INTO order_events')) {
+      pendingEvents.push({ orderId: params[0], eventType: 'CompensationApplied', eventData: JSON.parse(params[1]) });
+      return { rows: [] };
+    }
+    if (text.startsWith('INSERT INTO outbox')) {
+      if (failOutbox) {
+        throw new Error('outbox insert failed');
+      }
+      pendingOutbox.push(JSON.parse(params[1]));
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  });
+
+  return {
+    client: { query, release: jest.fn() },
+    orderEvents,
+    outbox,
+    setOutboxFailing: (failing: boolean) => {
+      failOutbox = failing;
+    },
+  };
+}
+
+let db: ReturnType<typeof createFakeDb>;
+const mockPool = {
+  connect: async () => db.client,
+  query: (sql: string, params?: any[]) => db.client.query(sql, params),
+  on: jest.fn(),
+};
+
+const trigger: CompensationTrigger = { eventType: 'StockReserved', eventId: 'evt-late', source: 'inventory-events' };
+
+function makeOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: 'ORD-1',
+    customerId: 'CUST-1',
+    items: [{ productId: 'SKU-001', quantity: 2 }],
+    status: 'failed',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    verificationAttempts: 0,
+    version: 3,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  db = createFakeDb();
+  releaseStock.mockResolvedValue({ success: true, message: 'Stock released', newStock: 10, alreadyReleased: false });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('compensateOrphanedReservation', () => {
+  it.each(['failed', 'expired', 'cancelled'] as const)('releases a late reservation for a %s order and records it once', async status => {
+    const outcome = await compensateOrphanedReservation(makeOrder({ status }), 'RES-late', trigger);
+
+    expect(outcome).toBe('released');
+    expect(releaseStock).toHaveBeenCalledWith({
+      orderId: 'ORD-1',
+      reservationId: 'RES-late',
+      reason: `compensation: late StockReserved for ${status} order`,
+    });
+    expect(db.orderEvents).toEqual([
+      expect.objectContaining({
+        eventType: 'CompensationApplied',
+        eventData: expect.objectContaining({
+          action: 'ReleaseStock',
+          reservationId: 'RES-late',
+          orderStatus: status,
+          triggerEventId: 'evt-late',
+          source: 'inventory-events',
+        }),
+      }),
+    ]);
+    expect(db.outbox).toEqual([
+      expect.objectContaining({
+        eventType: 'CompensationApplied',
+        data: expect.objectContaining({ orderId: 'ORD-1', reservationId: 'RES-late', orderStatus: status }),
+      }),
+    ]);
+    expect(trackEvent).toHaveBeenCalledWith('CompensationApplied', expect.objectContaining({ reservationId: 'RES-late' }));
+  });
+
+  it.each(['pending', 'pending_verification', 'backordered', 'confirmed', 'shipped'] as const)('leaves a %s order\'s reservation alone', async status => {
+    expect(await compensateOrphanedReservation(makeOrder({ status }), 'RES-late', trigger)).toBe('not_needed');
+    expect(releaseStock).not.toHaveBeenCalled();
+  });
+
+  it('leaves a cancelled order\'s own reservation to the cancellation', async () => {
+    const order = makeOrder({ status: 'cancelled', reservationId: 'RES-1' });
+
+    expect(await compensateOrphanedReservation(order, 'RES-1', trigger)).toBe('not_needed');
+    expect(releaseStock).not.toHaveBeenCalled();
+  });
+
+  it('records nothing when inventory no longer holds the reservation', async () => {
+    releaseStock.mockResolvedValue({ success: false, message: 'Reservation already committed', newStock: 0, alreadyReleased: false });
+
+    expect(await compensateOrphanedReservation(makeOrder(), 'RES-late', trigger)).toBe('already_settled');
+    expect(db.orderEvents).toEqual([]);
+    expect(db.outbox).toEqual([]);
+  });
+
+  it('throws when inventory cannot be reached, so the message is retried', async () => {
+    releaseStock.mockRejectedValue(new Error('14 UNAVAILABLE'));
+
+    await expect(compensateOrphanedReservation(makeOrder(), 'RES-late', trigger)).rejects.toThrow('UNAVAILABLE');
+    expect(db.orderEvents).toEqual([]);
+  });
+
+  it('records the compensation on the retry after the record failed', async () => {
+    db.setOutboxFailing(true);
+    await expect(compensateOrphanedReservation(makeOrder(), 'RES-late', trigger)).rejects.toThrow('outbox insert failed');
+    expect(db.orderEvents).toEqual([]);
+    expect(db.client.release).toHaveBeenCalled();
+
+    // Inventory answers the repeated release with success
+    db.setOutboxFailing(false);
+    releaseStock.mockResolvedValue({ success: true, message: 'Reservation already released', newStock: 10, alreadyReleased: true });
+
+    expect(await compensateOrphanedReservation(makeOrder(), 'RES-late', trigger)).toBe('released');
+    expect(releaseStock.mock.calls[1][0].reason).toBe(releaseStock.mock.calls[0][0].reason);
+    expect(db.orderEvents).toHaveLength(1);
+    expect(db.outbox).toHaveLength(1);
+  });
+
+  it('does not record or publish a redelivered compensation twice', async () => {
+    await compensateOrphanedReservation(makeOrder(), 'RES-late', trigger);
+    releaseStock.mockResolvedValue({ success: true, message: 'Reservation already released', newStock: 10, alreadyReleased: true });
+
+    expect(await compensateOrphanedReservation(makeOrder(), 'RES-late', trigger)).toBe('released');
+    expect(db.orderEvents).toHaveLength(1);
+    expect(db.outbox).toHaveLength(1);
+    expect(trackEvent).toHaveBeenCalledTimes(1);
+  });
+});
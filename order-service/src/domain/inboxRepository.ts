@@ -0,0 +1,56 @@
+import { PoolClient } from 'pg';
+import { getPool } from './orderRepository';
+import { traced } from '../../../shared/tracing';
+
+/**
+ * Inbox for idempotent consumers. A handler records the message id in the
+ * same transaction as its side effects; a redelivered message is then found
+ * here and acknowledged without being processed again.
+ */
+export interface InboxMessage {
+  consumer: string;
+  messageId: string;
+  eventType: string;
+}
+
+export const isMessageProcessed = traced('inboxRepository.isMessageProcessed', async (
+  message: InboxMessage
+): Promise<boolean> => {
+  const pool = await getPool();
+  const result = await pool.query(
+    'SELECT 1 FROM inbox WHERE consumer = $1 AND message_id = $2',
+    [message.consumer, message.messageId]
+  );
+  return result.rows.length > 0;
+});
+
+/**
+ * Record a message inside the caller's transaction. A concurrent duplicate
+ * fails on the primary key, rolling back its side effects.
+ */
+export const insertInboxMessage = traced('inboxRepository.insertInboxMessage', async (
+  client: PoolClient,
+  message: InboxMessage
+): Promise<void> => {
+  await client.query(
+    `INSERT INTO inbox (consumer, message_id, event_type)
+     VALUES ($1, $2, $3)`,
+    [message.consumer, message.messageId, message.eventType]
+  );
+});
+
+/**
+ * Record a message whose handling changed nothing (e.g. the order had already
+ * moved on), so redeliveries are skipped too.
+ */
+export const markMessageProcessed = traced('inboxRepository.markMessageProcessed', async (
+  message: InboxMessage
+): Promise<void> => {
+  const pool = await getPool();
+  await pool.query(
+    `INSERT INTO inbox (consumer, message_id, event_type)
+     VALUES ($1, $2, $3)
+     ON CONFLICT DO NOTHING`,
+    [message.consumer, message.messageId, message.eventType]
+  );
+});
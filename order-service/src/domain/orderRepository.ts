@@ -1,29 +1,132 @@
 import { Pool, PoolClient } from 'pg';
+import { Counter } from 'prom-client';
 import { v4 as uuidv4 } from 'uuid';
+import { insertOutboxMessages, OutboxMessage } from './outboxRepository';
+import { insertInboxMessage, InboxMessage } from './inboxRepository';
+import type { CompensationAppliedEvent } from '../../../shared/contracts';
+import { traced } from '../../../shared/tracing';
+import { registerPoolMetrics } from '../../../shared/metrics';
+
+export interface OrderItem {
+  productId: string;
+  quantity: number;
+}
+
+export const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'failed',
+  'pending_verification',
+  'backordered',
+  'cancelled',
+  'expired',
+  'shipped',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
 
 export interface Order {
   id: string;
   customerId: string;
-  productId: string;
-  quantity: number;
-  status: 'pending' | 'reserved' | 'confirmed' | 'failed' | 'pending_verification' | 'cancelled';
+  items: OrderItem[];
+  status: OrderStatus;
   idempotencyKey?: string;
   reservationId?: string;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
   errorMessage?: string;
+  verificationAttempts: number;
+  lastVerificationAt?: Date;
+  // Bumped on every status change, which only applies at the version read
+  version: number;
+}
+
+// One row of order_events. status is set for creation and status changes
+export interface OrderHistoryEvent {
+  id: number;
+  orderId: string;
+  eventType: string;
+  status?: Order['status'];
+  data: any;
+  createdAt: Date;
 }
 
 export interface CreateOrderInput {
   customerId: string;
-  productId: string;
-  quantity: number;
+  items: OrderItem[];
   idempotencyKey?: string;
 }
 
+export type OrderSortField = 'createdAt' | 'updatedAt' | 'completedAt';
+
+export interface OrderSearchFilter {
+  customerId?: string;
+  productId?: string;
+  statuses?: OrderStatus[];
+  createdFrom?: Date;
+  createdTo?: Date;
+  completedFrom?: Date;
+  completedTo?: Date;
+}
+
+// Keyset position: the last row's sort column (as Postgres text, so no
+// precision is lost) and id as the tie-breaker
+export interface OrderCursor {
+  sortValue: string;
+  id: string;
+}
+
+export interface OrderSearchOptions {
+  sortBy?: OrderSortField;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  after?: OrderCursor;
+}
+
+export interface OrderPage {
+  orders: Order[];
+  // Null on the last page
+  nextCursor: OrderCursor | null;
+}
+
+// Just what a cross-service consistency audit compares, without the items
+export interface OrderSnapshot {
+  id: string;
+  status: OrderStatus;
+  reservationId?: string;
+  updatedAt: Date;
+}
+
+export interface OrderExportFilter {
+  statuses?: OrderStatus[];
+  ids?: string[];
+}
+
+export interface OrderSnapshotPage {
+  orders: OrderSnapshot[];
+  // Id to pass as after for the next page; null on the last page
+  nextAfter: string | null;
+}
+
+const SORT_COLUMNS: Record<OrderSortField, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  completedAt: 'completed_at',
+};
+
+type Queryable = Pool | PoolClient;
+
 let pool: Pool;
 
+const orderStatusTotal = new Counter({
+  name: 'orders_status_total',
+  help: 'Orders entering each status',
+  labelNames: ['status'],
+});
+
+registerPoolMetrics('orders', () => pool);
+
 export async function initPool(): Promise<void> {
   pool = new Pool({
     host: process.env.DB_HOST || 'order-db',
@@ -50,7 +153,9 @@ export async function getPool(): Promise<Pool> {
   return pool;
 }
 
-export async function createOrder(input: CreateOrderInput): Promise<Order> {
+export const createOrder = traced('orderRepository.createOrder', async (
+  input: CreateOrderInput
+): Promise<Order> => {
   const pool = await getPool();
   const id = uuidv4();
   
@@ -62,28 +167,63 @@ export async function createOrder(input: CreateOrderInput): Promise<Order> {
     );
     
     if (existing.rows.length > 0) {
-      return mapRowToOrder(existing.rows[0]);
+      return (await loadOrders(pool, existing.rows))[0];
     }
   }
   
-  const result = await pool.query(
-    `INSERT INTO orders (id, customer_id, product_id, quantity, status, idempotency_key)
-     VALUES ($1, $2, $3, $4, 'pending', $5)
-     RETURNING *`,
-    [id, input.customerId, input.productId, input.quantity, input.idempotencyKey]
-  );
-  
-  // Record event
-  await pool.query(
-    `INSERT INTO order_events (order_id, event_type, event_data)
-     VALUES ($1, 'OrderCreated', $2)`,
-    [id, JSON.stringify(input)]
-  );
+  const client = await pool.connect();
   
-  return mapRowToOrder(result.rows[0]);
-}
+  try {
+    await client.query('BEGIN');
+    
+    const result = await client.query(
+      `INSERT INTO orders (id, customer_id, status, idempotency_key)
+       VALUES ($1, $2, 'pending', $3)
+       RETURNING *`,
+      [id, input.customerId, input.idempotencyKey]
+    );
+    
+    for (const [index, item] of input.items.entries()) {
+      await client.query(
+        `INSERT INTO order_items (order_id, line_number, product_id, quantity)
+         VALUES ($1, $2, $3, $4)`,
+        [id, index + 1, item.productId, item.quantity]
+      );
+    }
+    
+    // Record event
+    await client.query(
+      `INSERT INTO order_events (order_id, event_type, event_data)
+       VALUES ($1, 'OrderCreated', $2)`,
+      [id, JSON.stringify(input)]
+    );
+    
+    // Queue OrderCreated for the outbox relay
+    await insertOutboxMessages(client, [{
+      eventType: 'OrderCreated',
+      eventId: uuidv4(),
+      timestamp: new Date().toISOString(),
+      data: {
+        orderId: id,
+        customerId: input.customerId,
+        items: input.items,
+        status: 'pending',
+      },
+    }]);
+    
+    await client.query('COMMIT');
+    orderStatusTotal.inc({ status: 'pending' });
+    
+    return mapRowToOrder(result.rows[0], input.items);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+});
 
-export async function getOrder(orderId: string): Promise<Order | null> {
+export const getOrder = traced('orderRepository.getOrder', async (orderId: string): Promise<Order | null> => {
   const pool = await getPool();
   const result = await pool.query('SELECT * FROM orders WHERE id = $1', [orderId]);
   
@@ -91,10 +231,12 @@ export async function getOrder(orderId: string): Promise<Order | null> {
     return null;
   }
   
-  return mapRowToOrder(result.rows[0]);
-}
+  return (await loadOrders(pool, result.rows))[0];
+});
 
-export async function getOrderByIdempotencyKey(key: string): Promise<Order | null> {
+export const getOrderByIdempotencyKey = traced('orderRepository.getOrderByIdempotencyKey', async (
+  key: string
+): Promise<Order | null> => {
   const pool = await getPool();
   const result = await pool.query(
     'SELECT * FROM orders WHERE idempotency_key = $1',
@@ -105,18 +247,37 @@ export async function getOrderByIdempotencyKey(key: string): Promise<Order | nul
     return null;
   }
   
-  return mapRowToOrder(result.rows[0]);
+  return (await loadOrders(pool, result.rows))[0];
+});
+
+export interface StatusChange {
+  reservationId?: string;
+  errorMessage?: string;
+  // Extra fields for the order_events row
+  history?: Record<string, unknown>;
+  outboxMessages?: OutboxMessage[];
+  inboxMessage?: InboxMessage;
 }
 
-export async function updateOrderStatus(
+/**
+ * Update an order's status if it is still at expectedVersion, bumping the
+ * version. Any outbox messages are written in the same transaction as the
+ * status change and published later by the outbox relay; when called from a
+ * consumer, the inbox message is recorded in it too. Resolves null when the
+ * order does not exist or was changed concurrently.
+ *
+ * Only the order state machine calls this - it checks the transition first.
+ */
+export const updateOrderStatus = traced('orderRepository.updateOrderStatus', async (
   orderId: string,
   status: Order['status'],
-  reservationId?: string,
-  errorMessage?: string
-): Promise<Order | null> {
+  expectedVersion: number,
+  change: StatusChange = {}
+): Promise<Order | null> => {
   const pool = await getPool();
+  const { reservationId, errorMessage } = change;
   
-  let query = 'UPDATE orders SET status = $1';
+  let query = 'UPDATE orders SET status = $1, version = version + 1';
   const params: any[] = [status];
   let paramIndex = 2;
   
@@ -132,61 +293,327 @@ export async function updateOrderStatus(
     paramIndex++;
   }
   
-  if (status === 'confirmed' || status === 'failed' || status === 'cancelled') {
+  if (status === 'confirmed' || status === 'shipped' || status === 'failed' || status === 'cancelled' || status === 'expired') {
     query += `, completed_at = CURRENT_TIMESTAMP`;
   }
   
-  query += ` WHERE id = $${paramIndex} RETURNING *`;
-  params.push(orderId);
+  query += ` WHERE id = $${paramIndex} AND version = $${paramIndex + 1} RETURNING *`;
+  params.push(orderId, expectedVersion);
   
-  const result = await pool.query(query, params);
+  const client = await pool.connect();
   
-  if (result.rows.length === 0) {
-    return null;
+  try {
+    await client.query('BEGIN');
+    
+    const result = await client.query(query, params);
+    
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    
+    if (change.inboxMessage) {
+      await insertInboxMessage(client, change.inboxMessage);
+    }
+    
+    // Record event
+    await client.query(
+      `INSERT INTO order_events (order_id, event_type, event_data)
+       VALUES ($1, $2, $3)`,
+      [orderId, `Status_${status}`, JSON.stringify({ reservationId, errorMessage, ...change.history })]
+    );
+    
+    await insertOutboxMessages(client, change.outboxMessages || []);
+    
+    const [order] = await loadOrders(client, result.rows);
+    
+    await client.query('COMMIT');
+    orderStatusTotal.inc({ status });
+    
+    return order;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * An order's history in the order it happened.
+ */
+export const getOrderEvents = traced('orderRepository.getOrderEvents', async (
+  orderId: string
+): Promise<OrderHistoryEvent[]> => {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT * FROM order_events
+     WHERE order_id = $1
+     ORDER BY created_at, id`,
+    [orderId]
+  );
+  return result.rows.map(mapRowToHistoryEvent);
+});
+
+/**
+ * Search orders with keyset pagination. Sorting by completedAt only returns
+ * completed orders.
+ */
+export const searchOrders = traced('orderRepository.searchOrders', async (
+  filter: OrderSearchFilter = {},
+  options: OrderSearchOptions = {}
+): Promise<OrderPage> => {
+  const pool = await getPool();
+  const column = SORT_COLUMNS[options.sortBy || 'createdAt'];
+  const direction = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  const limit = options.limit || 100;
+  
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const addParam = (value: any): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  
+  if (filter.customerId) {
+    conditions.push(`customer_id = ${addParam(filter.customerId)}`);
+  }
+  if (filter.productId) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM order_items WHERE order_items.order_id = orders.id AND product_id = ${addParam(filter.productId)})`
+    );
+  }
+  if (filter.statuses && filter.statuses.length > 0) {
+    conditions.push(`status = ANY(${addParam(filter.statuses)})`);
+  }
+  if (filter.createdFrom) {
+    conditions.push(`created_at >= ${addParam(filter.createdFrom)}`);
+  }
+  if (filter.createdTo) {
+    conditions.push(`created_at < ${addParam(filter.createdTo)}`);
+  }
+  if (filter.completedFrom) {
+    conditions.push(`completed_at >= ${addParam(filter.completedFrom)}`);
+  }
+  if (filter.completedTo) {
+    conditions.push(`completed_at < ${addParam(filter.completedTo)}`);
+  }
+  if (column === 'completed_at') {
+    conditions.push('completed_at IS NOT NULL');
+  }
+  if (options.after) {
+    const comparison = direction === 'ASC' ? '>' : '<';
+    conditions.push(
+      `(${column}, id) ${comparison} (${addParam(options.after.sortValue)}::timestamptz, ${addParam(options.after.id)})`
+    );
   }
   
-  // Record event
-  await pool.query(
-    `INSERT INTO order_events (order_id, event_type, event_data)
-     VALUES ($1, $2, $3)`,
-    [orderId, `Status_${status}`, JSON.stringify({ reservationId, errorMessage })]
+  // One extra row tells whether there is a next page
+  const result = await pool.query(
+    `SELECT *, ${column}::text AS sort_value FROM orders
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY ${column} ${direction}, id ${direction}
+     LIMIT ${addParam(limit + 1)}`,
+    params
   );
   
-  return mapRowToOrder(result.rows[0]);
-}
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+  
+  return {
+    orders: await loadOrders(pool, rows),
+    nextCursor: result.rows.length > limit ? { sortValue: last.sort_value, id: last.id } : null,
+  };
+});
 
-export async function getOrders(
-  status?: Order['status'],
-  limit: number = 100
-): Promise<Order[]> {
+/**
+ * Page through order snapshots in id order, for other services' audits.
+ */
+export const exportOrders = traced('orderRepository.exportOrders', async (
+  filter: OrderExportFilter = {},
+  after?: string,
+  limit: number = 1000
+): Promise<OrderSnapshotPage> => {
   const pool = await getPool();
   
-  let query = 'SELECT * FROM orders';
+  const conditions: string[] = [];
   const params: any[] = [];
+  const addParam = (value: any): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
   
-  if (status) {
-    query += ' WHERE status = $1';
-    params.push(status);
+  if (filter.statuses && filter.statuses.length > 0) {
+    conditions.push(`status = ANY(${addParam(filter.statuses)})`);
+  }
+  if (filter.ids && filter.ids.length > 0) {
+    conditions.push(`id = ANY(${addParam(filter.ids)})`);
+  }
+  if (after) {
+    conditions.push(`id > ${addParam(after)}`);
   }
   
-  query += ' ORDER BY created_at DESC LIMIT $' + (params.length + 1);
-  params.push(limit);
+  const result = await pool.query(
+    `SELECT id, status, reservation_id, updated_at FROM orders
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY id
+     LIMIT ${addParam(limit + 1)}`,
+    params
+  );
   
-  const result = await pool.query(query, params);
-  return result.rows.map(mapRowToOrder);
-}
+  const rows = result.rows.slice(0, limit);
+  
+  return {
+    orders: rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      reservationId: row.reservation_id || undefined,
+      updatedAt: row.updated_at,
+    })),
+    nextAfter: result.rows.length > limit ? rows[rows.length - 1].id : null,
+  };
+});
 
-export async function getPendingVerificationOrders(): Promise<Order[]> {
+/**
+ * Orders still pending whose creation is older than staleAfterMs: the request
+ * that created them never settled the reservation, oldest first.
+ */
+export const getStalePendingOrders = traced('orderRepository.getStalePendingOrders', async (
+  staleAfterMs: number = 0,
+  limit: number = 100
+): Promise<Order[]> => {
   const pool = await getPool();
   const result = await pool.query(
     `SELECT * FROM orders 
-     WHERE status = 'pending_verification' 
-     ORDER BY created_at ASC`
+     WHERE status = 'pending'
+       AND updated_at <= CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval
+     ORDER BY created_at ASC
+     LIMIT $2`,
+    [String(staleAfterMs), limit]
   );
-  return result.rows.map(mapRowToOrder);
-}
+  return loadOrders(pool, result.rows);
+});
+
+/**
+ * Orders in pending_verification whose last change (or last verification
+ * attempt) is older than staleAfterMs, oldest first.
+ */
+export const getPendingVerificationOrders = traced('orderRepository.getPendingVerificationOrders', async (
+  staleAfterMs: number = 0,
+  limit: number = 100
+): Promise<Order[]> => {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT * FROM orders 
+     WHERE status = 'pending_verification'
+       AND COALESCE(last_verification_at, updated_at) <= CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval
+     ORDER BY created_at ASC
+     LIMIT $2`,
+    [String(staleAfterMs), limit]
+  );
+  return loadOrders(pool, result.rows);
+});
+
+/**
+ * Count a verification attempt for an order, queueing any outbox messages
+ * (e.g. a resent VerifyOrder) in the same transaction. The version is left
+ * alone, so a status change racing the reconciler does not conflict.
+ */
+export const recordVerificationAttempt = traced('orderRepository.recordVerificationAttempt', async (
+  orderId: string,
+  outboxMessages: OutboxMessage[] = []
+): Promise<Order | null> => {
+  const pool = await getPool();
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    const result = await client.query(
+      `UPDATE orders
+       SET verification_attempts = verification_attempts + 1,
+           last_verification_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'pending_verification'
+       RETURNING *`,
+      [orderId]
+    );
+    
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    
+    await client.query(
+      `INSERT INTO order_events (order_id, event_type, event_data)
+       VALUES ($1, 'VerificationAttempted', $2)`,
+      [orderId, JSON.stringify({ attempt: result.rows[0].verification_attempts })]
+    );
+    
+    await insertOutboxMessages(client, outboxMessages);
+    
+    const [order] = await loadOrders(client, result.rows);
+    
+    await client.query('COMMIT');
+    
+    return order;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+});
 
-export async function checkDatabaseHealth(): Promise<boolean> {
+/**
+ * Record a compensating action on an order's history without changing its
+ * status, e.g. releasing a reservation that arrived after the order failed,
+ * and queue its CompensationApplied event in the same transaction. Recorded
+ * once per reservation; returns false when it already was.
+ */
+export const recordCompensation = traced('orderRepository.recordCompensation', async (
+  event: CompensationAppliedEvent,
+  source: string
+): Promise<boolean> => {
+  const { orderId, reservationId } = event.data;
+  const pool = await getPool();
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    // The order row lock serialises concurrent deliveries of the same event
+    await client.query('SELECT id FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+    
+    const existing = await client.query(
+      `SELECT 1 FROM order_events
+       WHERE order_id = $1 AND event_type = 'CompensationApplied' AND event_data->>'reservationId' = $2`,
+      [orderId, reservationId]
+    );
+    
+    if (existing.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+    
+    await client.query(
+      `INSERT INTO order_events (order_id, event_type, event_data)
+       VALUES ($1, 'CompensationApplied', $2)`,
+      [orderId, JSON.stringify({ action: 'ReleaseStock', ...event.data, source })]
+    );
+    
+    await insertOutboxMessages(client, [event]);
+    
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+});
+
+export const checkDatabaseHealth = traced('orderRepository.checkDatabaseHealth', async (): Promise<boolean> => {
   try {
     const pool = await getPool();
     await pool.query('SELECT 1');
@@ -194,14 +621,38 @@ export async function checkDatabaseHealth(): Promise<boolean> {
   } catch {
     return false;
   }
+});
+
+/**
+ * Map order rows and attach their line items (one extra query per batch).
+ */
+async function loadOrders(db: Queryable, rows: any[]): Promise<Order[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+  
+  const itemsResult = await db.query(
+    `SELECT order_id, product_id, quantity FROM order_items
+     WHERE order_id = ANY($1)
+     ORDER BY order_id, line_number`,
+    [rows.map(row => row.id)]
+  );
+  
+  const itemsByOrder = new Map<string, OrderItem[]>();
+  for (const item of itemsResult.rows) {
+    const items = itemsByOrder.get(item.order_id) || [];
+    items.push({ productId: item.product_id, quantity: item.quantity });
+    itemsByOrder.set(item.order_id, items);
+  }
+  
+  return rows.map(row => mapRowToOrder(row, itemsByOrder.get(row.id) || []));
 }
 
-function mapRowToOrder(row: any): Order {
+function mapRowToOrder(row: any, items: OrderItem[]): Order {
   return {
     id: row.id,
     customerId: row.customer_id,
-    productId: row.product_id,
-    quantity: row.quantity,
+    items,
     status: row.status,
     idempotencyKey: row.idempotency_key,
     reservationId: row.reservation_id,
@@ -209,5 +660,23 @@ function mapRowToOrder(row: any): Order {
     updatedAt: row.updated_at,
     completedAt: row.completed_at,
     errorMessage: row.error_message,
+    verificationAttempts: row.verification_attempts ?? 0,
+    lastVerificationAt: row.last_verification_at,
+    version: row.version,
+  };
+}
+
+function mapRowToHistoryEvent(row: any): OrderHistoryEvent {
+  const status = row.event_type === 'OrderCreated'
+    ? 'pending'
+    : row.event_type.startsWith('Status_') ? row.event_type.slice('Status_'.length) : undefined;
+  
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    eventType: row.event_type,
+    status,
+    data: row.event_data,
+    createdAt: row.created_at,
   };
 }
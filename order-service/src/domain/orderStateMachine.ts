@@ -0,0 +1,228 @@
+import * as orderRepository from './orderRepository';
+import type { Order, OrderStatus } from './orderRepository';
+import type { InboxMessage } from './inboxRepository';
+import type { OutboxMessage } from './outboxRepository';
+import type { OrderEvent, OrderEventType } from '../../../shared/contracts';
+import * as inventoryClient from '../clients/inventoryClient';
+import { generateEventId } from '../messaging/orderPublisher';
+import { broadcastOrderUpdate } from '../interface/websocket';
+import { trackEvent, trackException } from '../telemetry';
+
+/**
+ * Order State Machine
+ * Every status change goes through transitionOrder. It checks the move
+ * against TRANSITIONS and writes it only if the order is still at the
+ * version it read; a concurrent write makes it re-read and re-check. The
+ * transition's side effects come with it: the Order* event (through the
+ * outbox, in the same transaction), the WebSocket broadcast, stopping a newly
+ * confirmed order's reservation from expiring and, when a confirmed order is
+ * cancelled, releasing its stock (or taking a backordered one off the
+ * inventory waitlist). Illegal transitions, e.g. a late StockReserved for a
+ * failed order, are rejected and logged.
+ */
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'failed', 'pending_verification', 'backordered', 'cancelled', 'expired'],
+  pending_verification: ['confirmed', 'failed', 'backordered', 'cancelled', 'expired'],
+  // Confirmed by the StockReserved published when inventory fills the backorder
+  backordered: ['confirmed', 'cancelled'],
+  // Its reservation stops expiring once confirmed
+  confirmed: ['shipped', 'cancelled'],
+  failed: [],
+  cancelled: [],
+  expired: [],
+  shipped: [],
+};
+
+// pending is never a transition target; orders are created in it
+const STATUS_EVENTS: Record<OrderStatus, OrderEventType> = {
+  pending: 'OrderCreated',
+  pending_verification: 'OrderPendingVerification',
+  backordered: 'OrderBackordered',
+  confirmed: 'OrderConfirmed',
+  failed: 'OrderFailed',
+  cancelled: 'OrderCancelled',
+  expired: 'OrderExpired',
+  shipped: 'OrderShipped',
+};
+
+// Re-reads after a concurrent write before giving up
+const MAX_CONFLICT_RETRIES = 3;
+
+export interface TransitionOptions {
+  // Who is moving the order (api, inventory-events, reconciler), for logs and history
+  source: string;
+  reservationId?: string;
+  // Sent with the event; also the order's error message when it fails or expires
+  reason?: string;
+  // For WebSocket clients; defaults to reason
+  message?: string;
+  // Only apply from these statuses, e.g. a verification result for a
+  // pending_verification order
+  from?: OrderStatus[];
+  // Written in the same transaction as the status event
+  outboxMessages?: OutboxMessage[];
+  inboxMessage?: InboxMessage;
+}
+
+// unchanged: the order already had the target status
+export type TransitionOutcome = 'applied' | 'unchanged' | 'rejected' | 'conflict' | 'not_found';
+
+export interface TransitionResult {
+  outcome: TransitionOutcome;
+  // After the transition when applied, otherwise as last read
+  order: Order | null;
+  error?: string;
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions
+): Promise<TransitionResult> {
+  for (let attempt = 0; ; attempt++) {
+    const order = await orderRepository.getOrder(orderId);
+
+    if (!order) {
+      return { outcome: 'not_found', order: null, error: 'Order not found' };
+    }
+
+    if (order.status === to) {
+      return { outcome: 'unchanged', order };
+    }
+
+    if (!canTransition(order.status, to) || (options.from && !options.from.includes(order.status))) {
+      return reject(order, to, options);
+    }
+
+    // A confirmed order must point at the reservation holding its stock
+    if (to === 'confirmed' && !options.reservationId && !order.reservationId) {
+      return reject(order, to, options, 'Cannot confirm an order without a reservation');
+    }
+
+    const updated = await orderRepository.updateOrderStatus(orderId, to, order.version, {
+      reservationId: to === 'confirmed' ? options.reservationId : undefined,
+      errorMessage: to === 'failed' || to === 'expired' ? options.reason : undefined,
+      history: { from: order.status, source: options.source, reason: options.reason },
+      outboxMessages: [buildStatusEvent(order, to, options), ...(options.outboxMessages || [])],
+      inboxMessage: options.inboxMessage,
+    });
+
+    if (updated) {
+      await applySideEffects(order, updated, options);
+      return { outcome: 'applied', order: updated };
+    }
+
+    if (attempt >= MAX_CONFLICT_RETRIES) {
+      console.warn(`[OrderState] Order ${orderId} kept changing, gave up moving it to ${to} (${options.source})`);
+      trackEvent('OrderTransitionConflict', { orderId, to, source: options.source });
+      return {
+        outcome: 'conflict',
+        order: await orderRepository.getOrder(orderId),
+        error: 'Order was modified concurrently, try again',
+      };
+    }
+  }
+}
+
+function reject(
+  order: Order,
+  to: OrderStatus,
+  options: TransitionOptions,
+  error = `Cannot move order from ${order.status} to ${to}`
+): TransitionResult {
+  console.warn(`[OrderState] Rejected ${order.status} -> ${to} for order ${order.id} (${options.source})`);
+  trackEvent('OrderTransitionRejected', {
+    orderId: order.id,
+    from: order.status,
+    to,
+    source: options.source,
+    error,
+  });
+
+  return { outcome: 'rejected', order, error };
+}
+
+function buildStatusEvent(order: Order, to: OrderStatus, options: TransitionOptions): OrderEvent {
+  const reservationId = options.reservationId || order.reservationId;
+
+  return {
+    eventType: STATUS_EVENTS[to],
+    eventId: generateEventId(),
+    timestamp: new Date().toISOString(),
+    data: {
+      orderId: order.id,
+      status: to,
+      items: order.items,
+      ...(reservationId ? { reservationId } : {}),
+      ...(options.reason ? { reason: options.reason } : {}),
+    },
+  };
+}
+
+async function applySideEffects(previous: Order, order: Order, options: TransitionOptions): Promise<void> {
+  console.log(`[OrderState] Order ${order.id}: ${previous.status} -> ${order.status} (${options.source})`);
+  trackEvent('OrderStatusChanged', {
+    orderId: order.id,
+    from: previous.status,
+    to: order.status,
+    source: options.source,
+  });
+
+  // The reservation TTL only reclaims stock from orders abandoned before
+  // confirmation. If this fails the reservation still expires; the
+  // consistency audit then reports the order as confirmed without one.
+  if (order.status === 'confirmed' && order.reservationId) {
+    try {
+      const result = await inventoryClient.confirmReservation({
+        orderId: order.id,
+        reservationId: order.reservationId,
+      });
+      if (!result.success) {
+        console.warn(`[OrderState] Reservation ${order.reservationId} of confirmed order ${order.id}: ${result.message}`);
+      }
+    } catch (error) {
+      console.error(`[OrderState] Failed to confirm reservation of order ${order.id}:`, error);
+      trackException(error as Error, { operation: 'ConfirmReservation', orderId: order.id });
+    }
+  }
+
+  // The cancellation stands even if the release fails; the reservation then
+  // runs out at its TTL
+  if (order.status === 'cancelled' && previous.status === 'confirmed' && previous.reservationId) {
+    try {
+      await inventoryClient.releaseStock({
+        orderId: order.id,
+        reservationId: previous.reservationId,
+        reason: options.reason || 'Order cancelled',
+      });
+    } catch (error) {
+      console.error(`[OrderState] Failed to release stock for cancelled order ${order.id}:`, error);
+      trackException(error as Error, { operation: 'ReleaseStock', orderId: order.id });
+    }
+  }
+
+  // A backorder filled meanwhile is released when its StockReserved arrives
+  if (order.status === 'cancelled' && previous.status === 'backordered') {
+    try {
+      const result = await inventoryClient.cancelBackorder({ orderId: order.id });
+      if (!result.success) {
+        console.log(`[OrderState] Backorder for cancelled order ${order.id}: ${result.message}`);
+      }
+    } catch (error) {
+      console.error(`[OrderState] Failed to cancel backorder for order ${order.id}:`, error);
+      trackException(error as Error, { operation: 'CancelBackorder', orderId: order.id });
+    }
+  }
+
+  broadcastOrderUpdate({
+    orderId: order.id,
+    status: order.status,
+    reservationId: order.reservationId,
+    message: options.message || options.reason,
+  });
+}
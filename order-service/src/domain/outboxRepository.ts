@@ -0,0 +1,13 @@
+import type { PoolClient } from 'pg';
+import type { CompensationAppliedEvent, OrderEvent, VerifyOrderMessage } from '../../../shared/contracts';
+import * as outbox from '../../../shared/outbox';
+
+export type OutboxMessage = OrderEvent | CompensationAppliedEvent | VerifyOrderMessage;
+
+/**
+ * Insert outbox rows using the caller's client so they commit (or roll back)
+ * together with the order change that produced them.
+ */
+export function insertOutboxMessages(client: PoolClient, messages: OutboxMessage[]): Promise<void> {
+  return outbox.insertOutboxMessages(client, messages);
+}
@@ -0,0 +1,89 @@
+import * as orderRepository from './orderRepository';
+import type { Order, OrderStatus } from './orderRepository';
+import * as inventoryClient from '../clients/inventoryClient';
+import { generateEventId } from '../messaging/orderPublisher';
+import { trackEvent } from '../telemetry';
+
+/**
+ * Reservation Compensation
+ * A reservation can be confirmed after its order has already given up on it:
+ * a StockReserved or OrderVerified that arrives once the order has failed,
+ * expired or been cancelled. The state machine rejects the transition, which
+ * leaves the stock held until the reservation expires.
+ * compensateOrphanedReservation hands it back with ReleaseStock, records why
+ * on the order's history and publishes CompensationApplied on order-events.
+ */
+
+// Orders in these statuses will never use a reservation made for them
+const ORPHANING_STATUSES: OrderStatus[] = ['failed', 'cancelled', 'expired'];
+
+export interface CompensationTrigger {
+  // Event that confirmed the reservation, e.g. StockReserved
+  eventType: string;
+  eventId: string;
+  // Consumer that received it
+  source: string;
+}
+
+export type CompensationOutcome = 'released' | 'already_settled' | 'not_needed';
+
+/**
+ * Release a reservation confirmed for an order that can no longer use it.
+ * Throws when inventory-service cannot be reached or the record cannot be
+ * written, so the triggering message is retried. Both steps are idempotent:
+ * inventory answers a repeat of the same release with success, and the
+ * compensation is recorded once per reservation.
+ */
+export async function compensateOrphanedReservation(
+  order: Order,
+  reservationId: string,
+  trigger: CompensationTrigger
+): Promise<CompensationOutcome> {
+  // A cancelled order's own reservation was released when it was cancelled
+  if (!ORPHANING_STATUSES.includes(order.status) || order.reservationId === reservationId) {
+    return 'not_needed';
+  }
+
+  // Stable for the order's terminal status, so a retry repeats the same release
+  const reason = `compensation: late ${trigger.eventType} for ${order.status} order`;
+
+  console.log(`[Compensation] Releasing orphaned reservation ${reservationId} for ${order.status} order ${order.id}`);
+
+  const response = await inventoryClient.releaseStock({
+    orderId: order.id,
+    reservationId,
+    reason,
+  });
+
+  if (!response.success) {
+    // Released for another reason, expired or committed - nothing is held any more
+    console.log(`[Compensation] Reservation ${reservationId} for order ${order.id} not released: ${response.message}`);
+    return 'already_settled';
+  }
+
+  const recorded = await orderRepository.recordCompensation({
+    eventType: 'CompensationApplied',
+    eventId: generateEventId(),
+    timestamp: new Date().toISOString(),
+    data: {
+      orderId: order.id,
+      reservationId,
+      orderStatus: order.status,
+      reason,
+      triggerEventType: trigger.eventType,
+      triggerEventId: trigger.eventId,
+    },
+  }, trigger.source);
+
+  if (recorded) {
+    trackEvent('CompensationApplied', {
+      orderId: order.id,
+      reservationId,
+      orderStatus: order.status,
+      trigger: trigger.eventType,
+      source: trigger.source,
+    });
+  }
+
+  return 'released';
+}
@@ -1,17 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import * as orderRepository from '../domain/orderRepository';
+import { canTransition, transitionOrder } from '../domain/orderStateMachine';
 import * as inventoryClient from '../clients/inventoryClient';
-import {
-  publishOrderEvent,
-  sendVerifyOrderMessage,
-  generateEventId,
-} from '../messaging/orderPublisher';
-import { broadcastOrderUpdate, getConnectedClientsCount } from './websocket';
+import { generateEventId } from '../messaging/orderPublisher';
+import { getOutboxBacklog } from '../messaging/outboxRelay';
+import { INVENTORY_EVENTS_TOPIC, INVENTORY_EVENTS_SUBSCRIPTION } from '../messaging/inventoryConsumer';
+import { getMessageBus, isDeadLetterId } from '../../../shared/bus';
+import { requireAdmin } from '../../../shared/adminAuth';
+import { getConnectedClientsCount } from './websocket';
 import { trackEvent, trackMetric, trackException } from '../telemetry';
 
 const router = Router();
 const INVENTORY_HTTP_URL = process.env.INVENTORY_HTTP_URL || 'http://inventory-service:3002';
+// 0 = let inventory apply its default reservation TTL
+const RESERVATION_TTL_SECONDS = parseInt(process.env.RESERVATION_TTL_SECONDS || '0', 10);
+// Inventory slow or shedding load. Any other reservation error is resolved
+// via VerifyOrder too, with the error as the reason
+const ASYNC_FALLBACK_ERRORS = ['TIMEOUT', 'UNAVAILABLE', 'CIRCUIT_OPEN', 'BULKHEAD_FULL'];
 
 /**
  * GET /products
@@ -31,29 +37,78 @@ router.get('/products', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Read order lines from a request body. Accepts `items: [{ productId, quantity }]`
+ * or the single-line `productId` + `quantity` form.
+ */
+function parseOrderItems(body: any): { items?: orderRepository.OrderItem[]; error?: string } {
+  const rawItems = Array.isArray(body.items)
+    ? body.items
+    : body.productId !== undefined || body.quantity !== undefined
+      ? [{ productId: body.productId, quantity: body.quantity }]
+      : [];
+  
+  if (rawItems.length === 0) {
+    return { error: 'Missing required fields: items (or productId, quantity)' };
+  }
+  
+  const items: orderRepository.OrderItem[] = [];
+  const seen = new Set<string>();
+  
+  for (const [index, item] of rawItems.entries()) {
+    if (!item || typeof item.productId !== 'string' || !item.productId) {
+      return { error: `items[${index}].productId is required` };
+    }
+    
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return { error: `items[${index}].quantity must be a positive integer` };
+    }
+    
+    if (seen.has(item.productId)) {
+      return { error: `Duplicate product ${item.productId} - combine it into one line` };
+    }
+    
+    seen.add(item.productId);
+    items.push({ productId: item.productId, quantity: item.quantity });
+  }
+  
+  return { items };
+}
+
 /**
  * POST /orders
- * Create a new order
+ * Create a new order with one or more line items. An order inventory cannot
+ * fill is backordered where the products allow it, unless allowBackorder
+ * is false.
  */
 router.post('/orders', async (req: Request, res: Response) => {
   const startTime = Date.now();
-  const { customerId, productId, quantity, idempotencyKey: bodyIdempotencyKey } = req.body;
+  const { customerId, idempotencyKey: bodyIdempotencyKey, allowBackorder = true } = req.body;
   
   // Support idempotency key from header (standard) or body
   const idempotencyKey = (req.headers['idempotency-key'] as string) || bodyIdempotencyKey;
   
   // Validation
-  if (!customerId || !productId || !quantity) {
+  if (!customerId) {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required field: customerId',
+    });
+  }
+  
+  const { items, error: itemsError } = parseOrderItems(req.body);
+  
+  if (!items) {
     return res.status(400).json({
       success: false,
-      error: 'Missing required fields: customerId, productId, quantity',
+      error: itemsError,
     });
   }
   
-  if (quantity <= 0) {
+  if (typeof allowBackorder !== 'boolean') {
     return res.status(400).json({
       success: false,
-      error: 'Quantity must be positive',
+      error: 'allowBackorder must be a boolean',
     });
   }
   
@@ -73,87 +128,68 @@ router.post('/orders', async (req: Request, res: Response) => {
       }
     }
     
-    // Create the order
+    // Create the order (OrderCreated is queued in the outbox with it)
     const order = await orderRepository.createOrder({
       customerId,
-      productId,
-      quantity,
+      items,
       idempotencyKey: requestIdempotencyKey,
     });
     
     console.log(`[API] Order created: ${order.id}`);
     
-    // Publish order created event
-    await publishOrderEvent({
-      eventType: 'OrderCreated',
-      eventId: generateEventId(),
-      timestamp: new Date().toISOString(),
-      data: {
-        orderId: order.id,
-        customerId,
-        productId,
-        quantity,
-        status: 'pending',
-      },
-    });
-    
-    // Try to reserve stock via gRPC
+    // Try to reserve stock for every line via gRPC (all or nothing)
     let reservationResult;
-    let timedOut = false;
+    let needsVerification = false;
+    let pendingReason = 'gRPC timeout - verification required';
     
-    try {
-      reservationResult = await inventoryClient.reserveStock({
-        orderId: order.id,
-        productId,
-        quantity,
-        idempotencyKey: requestIdempotencyKey,
-      });
-    } catch (error) {
-      const errorMessage = (error as Error).message;
-      
-      if (errorMessage === 'TIMEOUT' || errorMessage === 'UNAVAILABLE') {
-        timedOut = true;
+    if (inventoryClient.isCircuitOpen('ReserveStockBatch')) {
+      // Inventory is known to be struggling - don't make the customer wait
+      needsVerification = true;
+      pendingReason = 'Inventory circuit open - verification required';
+      console.log(`[API] Circuit open, sending order ${order.id} to async verification`);
+    } else {
+      try {
+        reservationResult = await inventoryClient.reserveStockBatch({
+          orderId: order.id,
+          items,
+          idempotencyKey: requestIdempotencyKey,
+          ttlSeconds: RESERVATION_TTL_SECONDS,
+          allowBackorder,
+        });
+      } catch (error) {
+        const errorMessage = (error as Error).message;
+        
+        // Whether anything was reserved is unknown; verification finds out
+        needsVerification = true;
         console.log(`[API] gRPC ${errorMessage} for order ${order.id}`);
-      } else {
-        throw error;
+        
+        if (!ASYNC_FALLBACK_ERRORS.includes(errorMessage)) {
+          pendingReason = `Reservation failed (${errorMessage}) - verification required`;
+        }
       }
     }
     
-    if (timedOut) {
+    if (needsVerification) {
       // Schrödinger case: we don't know if reservation succeeded
       // Mark order as pending_verification and send verify message
-      await orderRepository.updateOrderStatus(order.id, 'pending_verification');
-      
-      await sendVerifyOrderMessage({
-        eventType: 'VerifyOrder',
-        eventId: generateEventId(),
-        timestamp: new Date().toISOString(),
-        data: {
-          orderId: order.id,
-          productId,
-          quantity,
-          idempotencyKey: requestIdempotencyKey,
-          originalRequestTime: new Date().toISOString(),
-        },
-      });
-      
-      await publishOrderEvent({
-        eventType: 'OrderPendingVerification',
-        eventId: generateEventId(),
-        timestamp: new Date().toISOString(),
-        data: {
-          orderId: order.id,
-          productId,
-          quantity,
-          status: 'pending_verification',
-          reason: 'gRPC timeout - verification required',
-        },
+      const { order: updatedOrder } = await transitionOrder(order.id, 'pending_verification', {
+        source: 'api',
+        reason: pendingReason,
+        outboxMessages: [{
+          eventType: 'VerifyOrder',
+          eventId: generateEventId(),
+          timestamp: new Date().toISOString(),
+          data: {
+            orderId: order.id,
+            items,
+            idempotencyKey: requestIdempotencyKey,
+            originalRequestTime: new Date().toISOString(),
+          },
+        }],
       });
       
       trackEvent('OrderPendingVerification', { orderId: order.id });
       
-      const updatedOrder = await orderRepository.getOrder(order.id);
-      
       return res.status(202).json({
         success: true,
         data: updatedOrder,
@@ -164,33 +200,13 @@ router.post('/orders', async (req: Request, res: Response) => {
     
     // Process reservation result
     if (reservationResult!.success) {
-      await orderRepository.updateOrderStatus(
-        order.id,
-        'confirmed',
-        reservationResult!.reservationId
-      );
-      
-      await publishOrderEvent({
-        eventType: 'OrderConfirmed',
-        eventId: generateEventId(),
-        timestamp: new Date().toISOString(),
-        data: {
-          orderId: order.id,
-          status: 'confirmed',
-          reservationId: reservationResult!.reservationId,
-        },
-      });
-      
-      broadcastOrderUpdate({
-        orderId: order.id,
-        status: 'confirmed',
+      const { order: confirmedOrder } = await transitionOrder(order.id, 'confirmed', {
+        source: 'api',
         reservationId: reservationResult!.reservationId,
       });
       
       trackEvent('OrderConfirmed', { orderId: order.id });
       
-      const confirmedOrder = await orderRepository.getOrder(order.id);
-      
       const duration = Date.now() - startTime;
       trackMetric('OrderCreation.Duration', duration);
       
@@ -198,36 +214,30 @@ router.post('/orders', async (req: Request, res: Response) => {
         success: true,
         data: confirmedOrder,
       });
-    } else {
-      // Reservation failed (insufficient stock, product not found, etc.)
-      await orderRepository.updateOrderStatus(
-        order.id,
-        'failed',
-        undefined,
-        reservationResult!.message
-      );
-      
-      await publishOrderEvent({
-        eventType: 'OrderFailed',
-        eventId: generateEventId(),
-        timestamp: new Date().toISOString(),
-        data: {
-          orderId: order.id,
-          status: 'failed',
-          reason: reservationResult!.message,
-        },
+    } else if (reservationResult!.backorderId) {
+      // Confirmed by StockReserved once inventory fills the backorder
+      const { order: backorderedOrder } = await transitionOrder(order.id, 'backordered', {
+        source: 'api',
+        reason: reservationResult!.message,
       });
       
-      broadcastOrderUpdate({
-        orderId: order.id,
-        status: 'failed',
-        message: reservationResult!.message,
+      trackEvent('OrderBackordered', { orderId: order.id, backorderId: reservationResult!.backorderId });
+      
+      return res.status(202).json({
+        success: true,
+        data: backorderedOrder,
+        message: 'Order is backordered and will be confirmed when stock arrives.',
+        backordered: true,
+      });
+    } else {
+      // Reservation failed (insufficient stock, product not found, etc.)
+      const { order: failedOrder } = await transitionOrder(order.id, 'failed', {
+        source: 'api',
+        reason: reservationResult!.message,
       });
       
       trackEvent('OrderFailed', { orderId: order.id, reason: reservationResult!.status });
       
-      const failedOrder = await orderRepository.getOrder(order.id);
-      
       return res.status(400).json({
         success: false,
         data: failedOrder,
@@ -247,7 +257,7 @@ router.post('/orders', async (req: Request, res: Response) => {
 
 /**
  * GET /orders/:id
- * Get order by ID
+ * Get order by ID; ?include=events adds its timeline
  */
 router.get('/orders/:id', async (req: Request, res: Response) => {
   try {
@@ -260,9 +270,13 @@ router.get('/orders/:id', async (req: Request, res: Response) => {
       });
     }
     
+    const include = readList(req.query.include);
+    
     res.json({
       success: true,
-      data: order,
+      data: include.includes('events')
+        ? { ...order, events: await orderRepository.getOrderEvents(order.id) }
+        : order,
     });
   } catch (error) {
     console.error('[API] Error fetching order:', error);
@@ -273,24 +287,168 @@ router.get('/orders/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /orders/:id/events
+ * The order's timeline from order_events, oldest first
+ */
+router.get('/orders/:id/events', async (req: Request, res: Response) => {
+  try {
+    const order = await orderRepository.getOrder(req.params.id);
+    
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found',
+      });
+    }
+    
+    const events = await orderRepository.getOrderEvents(order.id);
+    
+    res.json({
+      success: true,
+      data: events,
+      count: events.length,
+    });
+  } catch (error) {
+    console.error('[API] Error fetching order events:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+const ORDER_SORT_FIELDS: orderRepository.OrderSortField[] = ['createdAt', 'updatedAt', 'completedAt'];
+const MAX_ORDER_PAGE_SIZE = 500;
+const MAX_EXPORT_PAGE_SIZE = 1000;
+// Order ids: UUIDs, or codes such as ORD-123
+const ORDER_ID_PATTERN = /^[A-Za-z0-9_-]{1,36}$/;
+
+interface OrderSearchQuery {
+  filter: orderRepository.OrderSearchFilter;
+  options: orderRepository.OrderSearchOptions;
+}
+
+// Cursors are opaque to clients and carry the sort they were issued for
+function encodeOrderCursor(query: OrderSearchQuery, cursor: orderRepository.OrderCursor): string {
+  const { sortBy, sortOrder } = query.options;
+  return Buffer.from(JSON.stringify({ sortBy, sortOrder, ...cursor })).toString('base64url');
+}
+
+function decodeOrderCursor(query: OrderSearchQuery, token: string): orderRepository.OrderCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (
+      cursor.sortBy !== query.options.sortBy ||
+      cursor.sortOrder !== query.options.sortOrder ||
+      typeof cursor.sortValue !== 'string' ||
+      typeof cursor.id !== 'string'
+    ) {
+      return null;
+    }
+    return { sortValue: cursor.sortValue, id: cursor.id };
+  } catch {
+    return null;
+  }
+}
+
+// Query params may repeat (?status=a&status=b) or be comma-separated
+function readList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Validate GET /orders query params into repository filter and options.
+ */
+function parseOrderSearch(query: Request['query']): { search?: OrderSearchQuery; error?: string } {
+  const statuses = readList(query.status);
+  const invalidStatus = statuses.find(
+    status => !(orderRepository.ORDER_STATUSES as readonly string[]).includes(status)
+  );
+  if (invalidStatus) {
+    return { error: `Invalid status '${invalidStatus}'. Expected one of: ${orderRepository.ORDER_STATUSES.join(', ')}` };
+  }
+  
+  const filter: orderRepository.OrderSearchFilter = {
+    customerId: readString(query.customerId),
+    productId: readString(query.productId),
+    statuses: statuses as orderRepository.OrderStatus[],
+  };
+  
+  for (const key of ['createdFrom', 'createdTo', 'completedFrom', 'completedTo'] as const) {
+    const value = readString(query[key]);
+    if (value === undefined) {
+      continue;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: `${key} must be an ISO 8601 date` };
+    }
+    filter[key] = date;
+  }
+  
+  const sortBy = (readString(query.sort) || 'createdAt') as orderRepository.OrderSortField;
+  if (!ORDER_SORT_FIELDS.includes(sortBy)) {
+    return { error: `sort must be one of: ${ORDER_SORT_FIELDS.join(', ')}` };
+  }
+  
+  const sortOrder = readString(query.order) || 'desc';
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+  
+  const limit = parseInt(readString(query.limit) || '100', 10);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_ORDER_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_ORDER_PAGE_SIZE}` };
+  }
+  
+  const search: OrderSearchQuery = { filter, options: { sortBy, sortOrder, limit } };
+  
+  const cursor = readString(query.cursor);
+  if (cursor !== undefined) {
+    const after = decodeOrderCursor(search, cursor);
+    if (!after) {
+      return { error: 'Invalid cursor for this sort' };
+    }
+    search.options.after = after;
+  }
+  
+  return { search };
+}
+
 /**
  * GET /orders
- * List orders (with optional status filter)
+ * Search orders. Filters: customerId, productId, status (repeatable or
+ * comma-separated), createdFrom/createdTo, completedFrom/completedTo.
+ * Sort with sort=createdAt|updatedAt|completedAt and order=asc|desc; pass
+ * the returned nextCursor as cursor for the next page.
  */
 router.get('/orders', async (req: Request, res: Response) => {
   try {
-    const status = req.query.status as string | undefined;
-    const limit = parseInt(req.query.limit as string || '100', 10);
+    const { search, error } = parseOrderSearch(req.query);
     
-    const orders = await orderRepository.getOrders(
-      status as any,
-      limit
-    );
+    if (!search) {
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+    
+    const page = await orderRepository.searchOrders(search.filter, search.options);
     
     res.json({
       success: true,
-      data: orders,
-      count: orders.length,
+      data: page.orders,
+      count: page.orders.length,
+      nextCursor: page.nextCursor ? encodeOrderCursor(search, page.nextCursor) : null,
     });
   } catch (error) {
     console.error('[API] Error listing orders:', error);
@@ -316,60 +474,143 @@ router.post('/orders/:id/cancel', async (req: Request, res: Response) => {
       });
     }
     
-    if (order.status === 'cancelled') {
+    if (!canTransition(order.status, 'cancelled')) {
       return res.status(400).json({
         success: false,
-        error: 'Order is already cancelled',
+        error: order.status === 'cancelled'
+          ? 'Order is already cancelled'
+          : `Cannot cancel an order in status ${order.status}`,
+      });
+    }
+    
+    // A confirmed order's stock is released as part of the transition
+    const result = await transitionOrder(order.id, 'cancelled', {
+      source: 'api',
+      reason: 'Cancelled by user',
+    });
+    
+    if (result.outcome !== 'applied') {
+      return res.status(409).json({
+        success: false,
+        data: result.order,
+        error: result.error || `Order is already ${result.order?.status}`,
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: result.order,
+    });
+  } catch (error) {
+    console.error('[API] Error cancelling order:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /orders/:id/ship
+ * Ship a confirmed order, committing its reservation in inventory
+ */
+router.post('/orders/:id/ship', async (req: Request, res: Response) => {
+  try {
+    const order = await orderRepository.getOrder(req.params.id);
+    
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found',
       });
     }
     
-    if (order.status === 'failed') {
+    if (order.status === 'shipped') {
       return res.status(400).json({
         success: false,
-        error: 'Cannot cancel a failed order',
+        error: 'Order is already shipped',
       });
     }
     
-    // If order was confirmed, release the stock
-    if (order.status === 'confirmed' && order.reservationId) {
-      try {
-        await inventoryClient.releaseStock({
-          orderId: order.id,
-          reservationId: order.reservationId,
-          reason: 'Order cancelled by user',
-        });
-      } catch (error) {
-        console.error('[API] Failed to release stock:', error);
-        // Continue with cancellation even if release fails
-      }
+    if (!canTransition(order.status, 'shipped') || !order.reservationId) {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot ship an order in status ${order.status}`,
+      });
     }
     
-    await orderRepository.updateOrderStatus(order.id, 'cancelled');
+    let commit: inventoryClient.CommitReservationResponse;
     
-    await publishOrderEvent({
-      eventType: 'OrderCancelled',
-      eventId: generateEventId(),
-      timestamp: new Date().toISOString(),
-      data: {
+    try {
+      commit = await inventoryClient.commitReservation({
         orderId: order.id,
-        status: 'cancelled',
-        reason: 'Cancelled by user',
-      },
+        reservationId: order.reservationId,
+      });
+    } catch (error) {
+      // Order stays confirmed; the commit is safe to retry
+      console.error('[API] Failed to commit reservation:', error);
+      trackException(error as Error, { operation: 'ShipOrder', orderId: order.id });
+      return res.status(503).json({
+        success: false,
+        error: 'Inventory service unavailable, try again later',
+      });
+    }
+    
+    if (!commit.success) {
+      return res.status(409).json({
+        success: false,
+        error: commit.message,
+      });
+    }
+    
+    const result = await transitionOrder(order.id, 'shipped', {
+      source: 'api',
+      message: 'Order shipped',
     });
     
-    broadcastOrderUpdate({
-      orderId: order.id,
-      status: 'cancelled',
+    if (result.outcome !== 'applied' && result.outcome !== 'unchanged') {
+      // Inventory committed the reservation, so the order must not be left behind
+      console.error(`[API] Reservation committed but order ${order.id} could not be marked shipped: ${result.error}`);
+      return res.status(409).json({
+        success: false,
+        data: result.order,
+        error: result.error,
+      });
+    }
+    
+    trackEvent('OrderShipped', { orderId: order.id, reservationId: order.reservationId });
+    
+    res.json({
+      success: true,
+      data: result.order,
     });
+  } catch (error) {
+    console.error('[API] Error shipping order:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /products/stock
+ * Check stock for many products in one call (?ids=a,b; all products when omitted)
+ */
+router.get('/products/stock', async (req: Request, res: Response) => {
+  try {
+    const ids = typeof req.query.ids === 'string'
+      ? req.query.ids.split(',').map(id => id.trim()).filter(Boolean)
+      : [];
     
-    const cancelledOrder = await orderRepository.getOrder(order.id);
+    const result = await inventoryClient.checkStockBatch(ids);
     
     res.json({
       success: true,
-      data: cancelledOrder,
+      data: result,
     });
   } catch (error) {
-    console.error('[API] Error cancelling order:', error);
+    console.error('[API] Error checking stock:', error);
     res.status(500).json({
       success: false,
       error: (error as Error).message,
@@ -398,6 +639,228 @@ router.get('/products/:id/stock', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /admin/dlq
+ * List dead-lettered messages on this service's inventory-events subscription
+ */
+router.get('/admin/dlq', requireAdmin, async (req: Request, res: Response) => {
+  const bus = getMessageBus();
+  if (!bus) {
+    return res.status(503).json({ success: false, error: 'Message bus not configured' });
+  }
+  
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string || '50', 10), 500);
+    const [depth, messages] = await Promise.all([
+      bus.countDeadLetters(INVENTORY_EVENTS_TOPIC, INVENTORY_EVENTS_SUBSCRIPTION),
+      bus.peekDeadLetters(INVENTORY_EVENTS_TOPIC, INVENTORY_EVENTS_SUBSCRIPTION, limit),
+    ]);
+    
+    res.json({
+      success: true,
+      data: {
+        entity: INVENTORY_EVENTS_TOPIC,
+        subscription: INVENTORY_EVENTS_SUBSCRIPTION,
+        depth,
+        messages,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error reading dead-letter queue:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/dlq/:id/replay
+ * Send a dead-lettered message back for processing
+ */
+router.post('/admin/dlq/:id/replay', requireAdmin, async (req: Request, res: Response) => {
+  const bus = getMessageBus();
+  if (!bus) {
+    return res.status(503).json({ success: false, error: 'Message bus not configured' });
+  }
+  
+  if (!isDeadLetterId(req.params.id)) {
+    return res.status(400).json({ success: false, error: 'id must be a numeric dead-letter id' });
+  }
+  
+  try {
+    const replayed = await bus.replayDeadLetter(INVENTORY_EVENTS_TOPIC, INVENTORY_EVENTS_SUBSCRIPTION, req.params.id);
+    if (!replayed) {
+      return res.status(404).json({ success: false, error: 'Dead-lettered message not found' });
+    }
+    
+    console.log(`[API] Replayed dead-lettered message ${req.params.id}`);
+    trackEvent('DeadLetterReplayed', { entity: INVENTORY_EVENTS_TOPIC, id: req.params.id });
+    
+    res.json({ success: true, data: { id: req.params.id, replayed: true } });
+  } catch (error) {
+    console.error('[API] Error replaying dead-lettered message:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * DELETE /admin/dlq/:id
+ * Drop a dead-lettered message for good
+ */
+router.delete('/admin/dlq/:id', requireAdmin, async (req: Request, res: Response) => {
+  const bus = getMessageBus();
+  if (!bus) {
+    return res.status(503).json({ success: false, error: 'Message bus not configured' });
+  }
+  
+  if (!isDeadLetterId(req.params.id)) {
+    return res.status(400).json({ success: false, error: 'id must be a numeric dead-letter id' });
+  }
+  
+  try {
+    const purged = await bus.purgeDeadLetter(INVENTORY_EVENTS_TOPIC, INVENTORY_EVENTS_SUBSCRIPTION, req.params.id);
+    if (!purged) {
+      return res.status(404).json({ success: false, error: 'Dead-lettered message not found' });
+    }
+    
+    console.log(`[API] Purged dead-lettered message ${req.params.id}`);
+    trackEvent('DeadLetterPurged', { entity: INVENTORY_EVENTS_TOPIC, id: req.params.id });
+    
+    res.json({ success: true, data: { id: req.params.id, purged: true } });
+  } catch (error) {
+    console.error('[API] Error purging dead-lettered message:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /admin/export/orders
+ * Order snapshots (id, status, reservationId, updatedAt) for audits by other
+ * services. Filters: status and ids (repeatable or comma-separated); page
+ * with after=<nextAfter of the previous page>.
+ */
+router.get('/admin/export/orders', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const statuses = readList(req.query.status);
+    const invalidStatus = statuses.find(
+      status => !(orderRepository.ORDER_STATUSES as readonly string[]).includes(status)
+    );
+    if (invalidStatus) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status '${invalidStatus}'. Expected one of: ${orderRepository.ORDER_STATUSES.join(', ')}`,
+      });
+    }
+    
+    const limit = parseInt(readString(req.query.limit) || String(MAX_EXPORT_PAGE_SIZE), 10);
+    if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_EXPORT_PAGE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `limit must be between 1 and ${MAX_EXPORT_PAGE_SIZE}`,
+      });
+    }
+    
+    const ids = readList(req.query.ids);
+    const invalidId = ids.find(id => !ORDER_ID_PATTERN.test(id));
+    if (invalidId !== undefined || ids.length > MAX_EXPORT_PAGE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `ids must be at most ${MAX_EXPORT_PAGE_SIZE} order ids of letters, digits, '-' or '_'`,
+      });
+    }
+    
+    const after = req.query.after;
+    if (after !== undefined && (typeof after !== 'string' || !ORDER_ID_PATTERN.test(after))) {
+      return res.status(400).json({ success: false, error: 'Invalid after cursor' });
+    }
+    
+    const page = await orderRepository.exportOrders(
+      { statuses: statuses as orderRepository.OrderStatus[], ids },
+      after,
+      limit
+    );
+    
+    res.json({
+      success: true,
+      data: page.orders,
+      count: page.orders.length,
+      nextAfter: page.nextAfter,
+    });
+  } catch (error) {
+    console.error('[API] Error exporting orders:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /admin/orders/:id/transition
+ * Move an order to another status through the state machine, e.g. to repair
+ * an order the consistency audit found out of step with inventory. Confirming
+ * needs the reservationId holding the order's stock unless it already has one.
+ */
+router.post('/admin/orders/:id/transition', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { status, reason, source, reservationId } = req.body;
+    
+    if (!(orderRepository.ORDER_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${orderRepository.ORDER_STATUSES.join(', ')}`,
+      });
+    }
+    
+    if (reservationId !== undefined && (typeof reservationId !== 'string' || !reservationId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'reservationId must be a reservation id',
+      });
+    }
+    
+    const result = await transitionOrder(req.params.id, status, {
+      source: typeof source === 'string' && source ? source : 'admin',
+      reason: typeof reason === 'string' && reason ? reason : undefined,
+      reservationId,
+    });
+    
+    if (result.outcome === 'not_found') {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found',
+      });
+    }
+    
+    if (result.outcome === 'rejected' || result.outcome === 'conflict') {
+      return res.status(409).json({
+        success: false,
+        data: result.order,
+        error: result.error,
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: result.order,
+      outcome: result.outcome,
+    });
+  } catch (error) {
+    console.error('[API] Error transitioning order:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
 /**
  * GET /health
  * Health check endpoint
@@ -406,8 +869,12 @@ router.get('/health', async (req: Request, res: Response) => {
   try {
     const dbHealthy = await orderRepository.checkDatabaseHealth();
     const inventoryHealth = await inventoryClient.healthCheck();
+    const outbox = await getOutboxBacklog();
+    const resilience = inventoryClient.getResilienceStatus();
+    const openBreakers = Object.keys(resilience.breakers)
+      .filter(method => resilience.breakers[method].state !== 'closed');
     
-    const status = dbHealthy && inventoryHealth.healthy ? 'healthy' : 'degraded';
+    const status = dbHealthy && inventoryHealth.healthy && openBreakers.length === 0 ? 'healthy' : 'degraded';
     
     res.status(dbHealthy ? 200 : 503).json({
       service: 'order-service',
@@ -420,6 +887,17 @@ router.get('/health', async (req: Request, res: Response) => {
       websocket: {
         connectedClients: getConnectedClientsCount(),
       },
+      outbox: {
+        backlog: outbox.pending,
+        exhausted: outbox.exhausted,
+        oldestPendingAt: outbox.oldestPendingAt,
+      },
+      inventoryClient: {
+        openBreakers,
+        breakers: resilience.breakers,
+        inFlight: resilience.inFlight,
+        maxConcurrentCalls: resilience.maxConcurrentCalls,
+      },
     });
   } catch (error) {
     res.status(503).json({
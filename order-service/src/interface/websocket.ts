@@ -1,10 +1,20 @@
 import WebSocket, { WebSocketServer } from 'ws';
 import { Server } from 'http';
+import { Gauge } from 'prom-client';
 import { trackEvent } from '../telemetry';
+import { getTraceParent } from '../../../shared/tracing';
 
 let wss: WebSocketServer | null = null;
 const clients = new Set<WebSocket>();
 
+new Gauge({
+  name: 'websocket_clients',
+  help: 'Connected WebSocket clients',
+  collect() {
+    this.set(clients.size);
+  },
+});
+
 export function initWebSocket(server: Server): void {
   wss = new WebSocketServer({ server, path: '/ws' });
   
@@ -59,6 +69,7 @@ export function broadcastOrderUpdate(data: any): void {
     type: 'orderUpdate',
     ...data,
     timestamp: new Date().toISOString(),
+    traceparent: getTraceParent(),
   });
   
   let sentCount = 0;
@@ -77,6 +88,7 @@ export function broadcastEvent(type: string, data: any): void {
     type,
     data,
     timestamp: new Date().toISOString(),
+    traceparent: getTraceParent(),
   });
   
   clients.forEach((client) => {
@@ -0,0 +1,183 @@
+import * as orderRepository from '../domain/orderRepository';
+import * as inventoryClient from '../clients/inventoryClient';
+import { generateEventId } from '../messaging/orderPublisher';
+import { transitionOrder } from '../domain/orderStateMachine';
+import { trackEvent, trackException } from '../telemetry';
+
+/**
+ * Verification Reconciler
+ * Periodically sweeps orders stuck in pending_verification (lost VerifyOrder
+ * message, Service Bus offline, ...) and resolves them. Inventory is asked
+ * directly over gRPC; if it cannot be reached, VerifyOrder is resent through
+ * the outbox. After RECONCILER_MAX_ATTEMPTS the order is failed. Orders left
+ * in pending by an interrupted request are moved to pending_verification
+ * first.
+ */
+
+const INTERVAL_MS = parseInt(process.env.RECONCILER_INTERVAL_MS || '15000', 10);
+const STALE_AFTER_MS = parseInt(process.env.RECONCILER_STALE_AFTER_MS || '30000', 10);
+const MAX_ATTEMPTS = parseInt(process.env.RECONCILER_MAX_ATTEMPTS || '5', 10);
+const BATCH_SIZE = parseInt(process.env.RECONCILER_BATCH_SIZE || '20', 10);
+
+let reconcilerTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+export function startVerificationReconciler(): void {
+  if (reconcilerTimer) {
+    return;
+  }
+
+  reconcilerTimer = setInterval(() => {
+    sweepPendingVerifications().catch((error) => {
+      console.error('[Reconciler] Sweep failed:', error);
+      trackException(error as Error, { component: 'VerificationReconciler' });
+    });
+  }, INTERVAL_MS);
+
+  console.log(`[Reconciler] Started (interval ${INTERVAL_MS}ms, stale after ${STALE_AFTER_MS}ms, max ${MAX_ATTEMPTS} attempts)`);
+}
+
+export async function stopVerificationReconciler(): Promise<void> {
+  if (reconcilerTimer) {
+    clearInterval(reconcilerTimer);
+    reconcilerTimer = null;
+  }
+  console.log('[Reconciler] Stopped');
+}
+
+export async function sweepPendingVerifications(): Promise<void> {
+  if (sweeping) {
+    return;
+  }
+
+  sweeping = true;
+  try {
+    await adoptStalePendingOrders();
+
+    const orders = await orderRepository.getPendingVerificationOrders(STALE_AFTER_MS, BATCH_SIZE);
+
+    if (orders.length > 0) {
+      console.log(`[Reconciler] Found ${orders.length} stale pending_verification order(s)`);
+    }
+
+    for (const order of orders) {
+      try {
+        await reconcileOrder(order);
+      } catch (error) {
+        console.error(`[Reconciler] Failed to reconcile order ${order.id}:`, error);
+        trackException(error as Error, { component: 'VerificationReconciler', orderId: order.id });
+      }
+    }
+  } finally {
+    sweeping = false;
+  }
+}
+
+/**
+ * An order still pending this long was created by a request that failed or
+ * stopped before settling its reservation. Whether anything was reserved is
+ * unknown, so it is verified like a timed-out one on a later sweep.
+ */
+async function adoptStalePendingOrders(): Promise<void> {
+  const orders = await orderRepository.getStalePendingOrders(STALE_AFTER_MS, BATCH_SIZE);
+
+  for (const order of orders) {
+    try {
+      const result = await transitionOrder(order.id, 'pending_verification', {
+        source: 'reconciler',
+        from: ['pending'],
+        reason: 'Order creation interrupted - verification required',
+      });
+
+      if (result.outcome === 'applied') {
+        console.log(`[Reconciler] Order ${order.id} was left pending, verifying it`);
+        trackEvent('ReconcilerPendingOrderAdopted', { orderId: order.id });
+      }
+    } catch (error) {
+      console.error(`[Reconciler] Failed to adopt pending order ${order.id}:`, error);
+      trackException(error as Error, { component: 'VerificationReconciler', orderId: order.id });
+    }
+  }
+}
+
+async function reconcileOrder(order: orderRepository.Order): Promise<void> {
+  if (order.verificationAttempts >= MAX_ATTEMPTS) {
+    await failOrder(order, `Verification abandoned after ${order.verificationAttempts} attempts`);
+    return;
+  }
+
+  let result: inventoryClient.VerifyOrderResponse;
+
+  try {
+    result = await inventoryClient.verifyOrder({
+      orderId: order.id,
+      items: order.items,
+      idempotencyKey: order.idempotencyKey || order.id,
+    });
+  } catch (error) {
+    // Inventory unreachable - fall back to the async recovery path
+    console.log(`[Reconciler] gRPC ${(error as Error).message} for order ${order.id}, resending VerifyOrder`);
+
+    await orderRepository.recordVerificationAttempt(order.id, [{
+      eventType: 'VerifyOrder',
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      data: {
+        orderId: order.id,
+        items: order.items,
+        idempotencyKey: order.idempotencyKey || order.id,
+        originalRequestTime: new Date(order.createdAt).toISOString(),
+      },
+    }]);
+
+    trackEvent('ReconcilerVerifyOrderResent', { orderId: order.id });
+    return;
+  }
+
+  // The async path may have resolved the order while we were waiting, in
+  // which case the transition is rejected
+  if (result.backordered) {
+    const backordered = await transitionOrder(order.id, 'backordered', {
+      source: 'reconciler',
+      from: ['pending_verification'],
+      reason: result.message,
+      message: 'Order backordered after verification',
+    });
+
+    if (backordered.outcome === 'applied') {
+      console.log(`[Reconciler] Order ${order.id} is backordered`);
+      trackEvent('ReconcilerOrderBackordered', { orderId: order.id });
+    }
+  } else if (result.verified) {
+    const confirmed = await transitionOrder(order.id, 'confirmed', {
+      source: 'reconciler',
+      from: ['pending_verification'],
+      reservationId: result.reservationId,
+      reason: 'Verified via reconciler',
+      message: 'Order confirmed after verification',
+    });
+
+    if (confirmed.outcome === 'applied') {
+      console.log(`[Reconciler] Order ${order.id} confirmed (recovered: ${result.recoveredFromCrash})`);
+      trackEvent('ReconcilerOrderConfirmed', {
+        orderId: order.id,
+        recoveredFromCrash: String(result.recoveredFromCrash),
+      });
+    }
+  } else {
+    await failOrder(order, result.message || 'Verification failed - no reservation found');
+  }
+}
+
+async function failOrder(order: orderRepository.Order, reason: string): Promise<void> {
+  const failed = await transitionOrder(order.id, 'failed', {
+    source: 'reconciler',
+    from: ['pending_verification'],
+    reason,
+  });
+
+  if (failed.outcome === 'applied') {
+    console.log(`[Reconciler] Order ${order.id} failed: ${reason}`);
+    trackEvent('ReconcilerOrderFailed', { orderId: order.id, reason });
+  }
+}
@@ -0,0 +1,129 @@
+import { ContractViolationError, isSupportedEventType, parseEvent, versionEvent } from '../../../../shared/contracts';
+import type { OrderEvent } from '../../../../shared/contracts';
+
+const envelope = { eventId: 'evt-1', timestamp: '2024-01-01T00:00:00.000Z' };
+
+describe('parseEvent', () => {
+  it('upcasts a single-line StockReserved (version 1) to one item', () => {
+    const event = parseEvent({
+      ...envelope,
+      eventType: 'StockReserved',
+      schemaVersion: 1,
+      data: { orderId: 'ORD-1', reservationId: 'RES-1', productId: 'SKU-001', quantity: 2, remainingStock: 8 },
+    });
+
+    expect(event).toEqual({
+      ...envelope,
+      eventType: 'StockReserved',
+      schemaVersion: 2,
+      data: {
+        orderId: 'ORD-1',
+        reservationId: 'RES-1',
+        items: [{ productId: 'SKU-001', quantity: 2, remainingStock: 8, reservationId: 'RES-1' }],
+      },
+    });
+  });
+
+  it('treats a message without schemaVersion as version 1', () => {
+    const event = parseEvent({
+      ...envelope,
+      eventType: 'VerifyOrder',
+      data: { orderId: 'ORD-1', productId: 'SKU-001', quantity: 1, idempotencyKey: 'key-1', originalRequestTime: envelope.timestamp },
+    });
+
+    expect(event.schemaVersion).toBe(2);
+    expect(event.data).toEqual({
+      orderId: 'ORD-1',
+      items: [{ productId: 'SKU-001', quantity: 1 }],
+      idempotencyKey: 'key-1',
+      originalRequestTime: envelope.timestamp,
+    });
+  });
+
+  it('fills in the stock level before release of a version 1 StockReleased', () => {
+    const event = parseEvent({
+      ...envelope,
+      eventType: 'StockReleased',
+      schemaVersion: 1,
+      data: { orderId: 'ORD-1', productId: 'SKU-001', quantity: 2, newStock: 10, reason: 'cancelled' },
+    });
+
+    expect(event).toMatchObject({ schemaVersion: 2, data: { previousStock: 8, newStock: 10 } });
+  });
+
+  it('upcasts a legacy VerificationComplete to OrderVerified', () => {
+    const event = parseEvent({
+      ...envelope,
+      eventType: 'VerificationComplete',
+      schemaVersion: 1,
+      data: { orderId: 'ORD-1', verified: true, reservationId: 'RES-1' },
+    });
+
+    expect(event).toMatchObject({
+      eventType: 'OrderVerified',
+      schemaVersion: 2,
+      data: { orderId: 'ORD-1', items: [], status: 'confirmed', recoveredFromCrash: false, reservationId: 'RES-1' },
+    });
+  });
+
+  it('passes a current-version event through unchanged', () => {
+    const body = {
+      ...envelope,
+      eventType: 'StockCommitted',
+      schemaVersion: 1,
+      data: { orderId: 'ORD-1', reservationId: 'RES-1', items: [{ productId: 'SKU-001', quantity: 2 }] },
+    };
+
+    expect(parseEvent(body)).toEqual(body);
+  });
+
+  it('rejects a payload that breaks its contract, listing every violation', () => {
+    const parse = () => parseEvent({
+      ...envelope,
+      eventType: 'StockReserved',
+      schemaVersion: 2,
+      data: { orderId: 'ORD-1', items: [{ productId: 'SKU-001', quantity: '2' }] },
+    });
+
+    expect(parse).toThrow(ContractViolationError);
+    expect(parse).toThrow(
+      'Invalid StockReserved: data.reservationId is required; data.items[0].quantity must be a number; ' +
+      'data.items[0].remainingStock is required; data.items[0].reservationId is required'
+    );
+  });
+
+  it('rejects a version newer than this build knows', () => {
+    expect(() => parseEvent({ ...envelope, eventType: 'StockCommitted', schemaVersion: 3, data: {} }))
+      .toThrow('schemaVersion 3 is not supported (current 1)');
+  });
+
+  it('rejects a broken envelope', () => {
+    expect(() => parseEvent('not an event')).toThrow('message body must be an object');
+    expect(() => parseEvent({ ...envelope, eventType: 'OrderCreated', data: null })).toThrow('data must be an object');
+    expect(() => parseEvent({ eventType: 'OrderCreated', timestamp: 'yesterday', data: { orderId: 'ORD-1' } }))
+      .toThrow('eventId is required; timestamp must be an ISO date string');
+  });
+
+  it('rejects an event type it does not know', () => {
+    expect(isSupportedEventType('InventoryCounted')).toBe(false);
+    expect(() => parseEvent({ ...envelope, eventType: 'InventoryCounted', data: {} })).toThrow('unknown event type InventoryCounted');
+  });
+});
+
+describe('versionEvent', () => {
+  const event: OrderEvent = {
+    ...envelope,
+    eventType: 'OrderCreated',
+    data: { orderId: 'ORD-1', customerId: 'CUST-1', status: 'pending' },
+  };
+
+  it('stamps the current schema version on an outgoing event', () => {
+    expect(versionEvent(event).schemaVersion).toBe(1);
+  });
+
+  it('refuses to publish an event that breaks its contract', () => {
+    const invalid = { ...event, data: { customerId: 'CUST-1' } } as unknown as OrderEvent;
+
+    expect(() => versionEvent(invalid)).toThrow('Invalid OrderCreated: data.orderId is required');
+  });
+});
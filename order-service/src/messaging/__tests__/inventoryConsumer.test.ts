@@ -0,0 +1,132 @@
+import type { BusHandlers, ReceivedBusMessage } from '../../../../shared/bus';
+import { DeadLetterError } from '../../../../shared/bus/errors';
+import * as inboxRepository from '../../domain/inboxRepository';
+import * as orderStateMachine from '../../domain/orderStateMachine';
+import { startInventoryEventsConsumer } from '../inventoryConsumer';
+import { trackEvent } from '../../telemetry';
+
+jest.mock('../../../../shared/bus', () => ({
+  getMessageBus: () => mockBus,
+  DeadLetterError: jest.requireActual('../../../../shared/bus/errors').DeadLetterError,
+}));
+jest.mock('../../domain/inboxRepository', () => ({
+  isMessageProcessed: jest.fn(),
+  markMessageProcessed: jest.fn(),
+}));
+jest.mock('../../domain/orderStateMachine', () => ({
+  transitionOrder: jest.fn(),
+}));
+jest.mock('../../domain/orderRepository', () => ({
+  getOrder: jest.fn(),
+}));
+jest.mock('../../domain/reservationCompensation', () => ({
+  compensateOrphanedReservation: jest.fn(),
+}));
+jest.mock('../../interface/websocket', () => ({
+  broadcastEvent: jest.fn(),
+}));
+jest.mock('../../telemetry', () => ({
+  trackEvent: jest.fn(),
+  trackException: jest.fn(),
+}));
+
+const isMessageProcessed = inboxRepository.isMessageProcessed as jest.MockedFunction<typeof inboxRepository.isMessageProcessed>;
+const transitionOrder = orderStateMachine.transitionOrder as jest.MockedFunction<typeof orderStateMachine.transitionOrder>;
+
+// The consumer's handlers, captured when it subscribes
+let handlers: BusHandlers;
+const mockBus = {
+  subscribe: jest.fn((_entity: string, _subscription: string | null, subscribed: BusHandlers) => {
+    handlers = subscribed;
+    return { close: jest.fn() };
+  }),
+};
+
+function deliver(body: unknown): Promise<void> {
+  const message: ReceivedBusMessage = { body, deliveryCount: 1 };
+  return handlers.processMessage(message);
+}
+
+const envelope = { eventId: 'evt-1', timestamp: '2024-01-01T00:00:00.000Z' };
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await startInventoryEventsConsumer();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  isMessageProcessed.mockResolvedValue(false);
+  transitionOrder.mockResolvedValue({ outcome: 'applied', order: null });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('inventory events consumer', () => {
+  it('handles a version 1 StockReserved as its current version', async () => {
+    await deliver({
+      ...envelope,
+      eventType: 'StockReserved',
+      schemaVersion: 1,
+      data: { orderId: 'ORD-1', reservationId: 'RES-1', productId: 'SKU-001', quantity: 2, remainingStock: 8 },
+    });
+
+    expect(transitionOrder).toHaveBeenCalledWith('ORD-1', 'confirmed', expect.objectContaining({
+      reservationId: 'RES-1',
+      inboxMessage: { consumer: 'inventory-events/order-service-sub', messageId: 'evt-1', eventType: 'StockReserved' },
+    }));
+  });
+
+  it('handles a legacy VerificationComplete as OrderVerified', async () => {
+    await deliver({
+      ...envelope,
+      eventType: 'VerificationComplete',
+      data: { orderId: 'ORD-1', verified: false, reason: 'No reservation found' },
+    });
+
+    expect(transitionOrder).toHaveBeenCalledWith('ORD-1', 'failed', expect.objectContaining({
+      from: ['pending_verification'],
+      reason: 'No reservation found',
+      inboxMessage: expect.objectContaining({ eventType: 'OrderVerified' }),
+    }));
+  });
+
+  it('dead-letters a payload that breaks its contract without processing it', async () => {
+    const delivery = deliver({
+      ...envelope,
+      eventType: 'StockReserved',
+      schemaVersion: 2,
+      data: { orderId: 'ORD-1', items: [] },
+    });
+
+    await expect(delivery).rejects.toThrow(DeadLetterError);
+    await expect(delivery).rejects.toMatchObject({
+      reason: 'ContractViolation',
+      message: 'Invalid StockReserved: data.reservationId is required',
+    });
+    expect(isMessageProcessed).not.toHaveBeenCalled();
+    expect(transitionOrder).not.toHaveBeenCalled();
+    expect(trackEvent).toHaveBeenCalledWith('InvalidMessageDeadLettered', {
+      eventType: 'StockReserved',
+      consumer: 'inventory-events/order-service-sub',
+    });
+  });
+
+  it('dead-letters a version it cannot read', async () => {
+    await expect(deliver({
+      ...envelope,
+      eventType: 'StockReleased',
+      schemaVersion: 3,
+      data: { orderId: 'ORD-1', productId: 'SKU-001', quantity: 1, previousStock: 0, newStock: 1, reason: 'expired' },
+    })).rejects.toThrow(DeadLetterError);
+  });
+
+  it('acknowledges an event type it does not know', async () => {
+    await expect(deliver({ ...envelope, eventType: 'InventoryCounted', data: {} })).resolves.toBeUndefined();
+    expect(isMessageProcessed).not.toHaveBeenCalled();
+  });
+});
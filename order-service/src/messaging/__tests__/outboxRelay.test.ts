@@ -0,0 +1,258 @@
+import type { Pool } from 'pg';
+import type { DomainEvent } from '../../../../shared/contracts';
+import { computeBackoffMs, createOutboxRelay, OutboxRelay, OUTBOX_MAX_RETRIES } from '../../../../shared/outbox';
+
+// Defaults of OUTBOX_POLL_INTERVAL_MS and OUTBOX_CLAIM_LEASE_MS
+const POLL_INTERVAL_MS = 1000;
+const CLAIM_LEASE_MS = 30000;
+
+interface OutboxRow {
+  id: number;
+  event_type: string;
+  event_data: DomainEvent;
+  created_at: Date;
+  processed_at: Date | null;
+  retry_count: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  trace_context: null;
+}
+
+/**
+ * The outbox table as far as the relay uses it, with next_attempt_at kept
+ * in epoch milliseconds of the (fake) clock. Claims honour the retry limit,
+ * batch size and lease the relay passes in.
+ */
+function createFakeDb(rows: Array<Partial<OutboxRow> & { id: number }>) {
+  const outbox: OutboxRow[] = rows.map(row => ({
+    event_type: 'OrderCreated',
+    event_data: { eventType: 'OrderCreated', eventId: `evt-${row.id}`, timestamp: new Date().toISOString(), data: {} } as DomainEvent,
+    created_at: new Date(),
+    processed_at: null,
+    retry_count: 0,
+    next_attempt_at: Date.now(),
+    last_error: null,
+    trace_context: null,
+    ...row,
+  }));
+  const claims: Array<{ sql: string; params: any[] }> = [];
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+
+    if (text.startsWith('UPDATE outbox SET next_attempt_at')) {
+      claims.push({ sql: text, params });
+      const [maxRetries, batchSize, leaseMs] = params;
+      const due = outbox
+        .filter(row => row.processed_at === null && row.retry_count < maxRetries && row.next_attempt_at <= Date.now())
+        .sort((a, b) => a.id - b.id)
+        .slice(0, batchSize);
+      due.forEach(row => {
+        row.next_attempt_at = Date.now() + Number(leaseMs);
+      });
+      return { rows: due.map(row => ({ ...row })) };
+    }
+    if (text.startsWith('UPDATE outbox SET processed_at')) {
+      Object.assign(outbox.find(row => row.id === params[0])!, { processed_at: new Date(), last_error: null });
+      return { rows: [] };
+    }
+    if (text.startsWith('UPDATE outbox SET retry_count')) {
+      const row = outbox.find(candidate => candidate.id === params[0])!;
+      row.retry_count += 1;
+      row.next_attempt_at = Date.now() + Number(params[1]);
+      row.last_error = params[2];
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  });
+
+  return {
+    pool: { query } as unknown as Pool,
+    query,
+    claims,
+    row: (id: number) => outbox.find(row => row.id === id)!,
+  };
+}
+
+const telemetry = {
+  trackEvent: jest.fn(),
+  trackException: jest.fn(),
+  trackMetric: jest.fn(),
+};
+
+let db: ReturnType<typeof createFakeDb>;
+let publish: jest.Mock<Promise<void>, [DomainEvent]>;
+let busEnabled: boolean;
+let relays: OutboxRelay[];
+
+function startRelay(send: (message: DomainEvent) => Promise<void> = publish): OutboxRelay {
+  const relay = createOutboxRelay({
+    getPool: async () => db.pool,
+    isEnabled: () => busEnabled,
+    publish: send,
+    telemetry,
+  });
+  relays.push(relay);
+  relay.start();
+  return relay;
+}
+
+function published(): string[] {
+  return publish.mock.calls.map(([message]) => message.eventId);
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  publish = jest.fn(async (_message: DomainEvent) => undefined);
+  busEnabled = true;
+  relays = [];
+});
+
+afterEach(async () => {
+  await Promise.all(relays.map(relay => relay.stop()));
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('computeBackoffMs', () => {
+  it('doubles from the base backoff with each retry', () => {
+    expect([0, 1, 2, 3, 4].map(computeBackoffMs)).toEqual([1000, 2000, 4000, 8000, 16000]);
+  });
+
+  it('caps the backoff at the maximum', () => {
+    expect(computeBackoffMs(6)).toBe(60000);
+    expect(computeBackoffMs(30)).toBe(60000);
+  });
+});
+
+describe('createOutboxRelay', () => {
+  it('publishes due rows in id order and marks them processed', async () => {
+    db = createFakeDb([{ id: 2 }, { id: 1 }, { id: 3, next_attempt_at: Date.now() + 60000 }]);
+    startRelay();
+
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    expect(published()).toEqual(['evt-1', 'evt-2']);
+    expect(db.row(1).processed_at).not.toBeNull();
+    expect(db.row(2).processed_at).not.toBeNull();
+    expect(db.row(3).processed_at).toBeNull();
+    expect(telemetry.trackMetric).toHaveBeenCalledWith('Outbox.PublishLatency', expect.any(Number));
+  });
+
+  it('claims under a lease with SKIP LOCKED, below the retry limit', async () => {
+    db = createFakeDb([{ id: 1 }]);
+    startRelay();
+
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    const [claim] = db.claims;
+    expect(claim.sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(claim.sql).toContain('retry_count < $1');
+    expect(claim.params).toEqual([OUTBOX_MAX_RETRIES, 50, String(CLAIM_LEASE_MS)]);
+  });
+
+  it('leaves a row claimed by a relay that died to others until the lease runs out', async () => {
+    db = createFakeDb([{ id: 1 }]);
+    let finishStuckSend!: () => void;
+    startRelay(() => new Promise<void>(resolve => {
+      finishStuckSend = resolve;
+    }));
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    startRelay();
+    await jest.advanceTimersByTimeAsync(CLAIM_LEASE_MS - POLL_INTERVAL_MS);
+    expect(published()).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(published()).toEqual(['evt-1']);
+
+    finishStuckSend();
+  });
+
+  it('records a failed send and retries it after the backoff', async () => {
+    db = createFakeDb([{ id: 1, retry_count: 2 }]);
+    publish.mockRejectedValueOnce(new Error('bus down'));
+    startRelay();
+
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(db.row(1)).toMatchObject({ retry_count: 3, last_error: 'bus down', processed_at: null });
+    expect(db.row(1).next_attempt_at).toBe(Date.now() + computeBackoffMs(2));
+
+    await jest.advanceTimersByTimeAsync(computeBackoffMs(2) - POLL_INTERVAL_MS);
+    expect(publish).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(publish).toHaveBeenCalledTimes(2);
+    expect(db.row(1).processed_at).not.toBeNull();
+    expect(db.row(1).last_error).toBeNull();
+  });
+
+  it('gives up on a row once its retries are exhausted', async () => {
+    db = createFakeDb([{ id: 1, retry_count: OUTBOX_MAX_RETRIES - 1 }]);
+    publish.mockRejectedValue(new Error('bus down'));
+    startRelay();
+
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(db.row(1).retry_count).toBe(OUTBOX_MAX_RETRIES);
+    expect(telemetry.trackEvent).toHaveBeenCalledWith('OutboxRetriesExhausted', { eventType: 'OrderCreated', outboxId: '1' });
+
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds rows while the bus is unavailable and sends them once it is back', async () => {
+    db = createFakeDb([{ id: 1 }]);
+    busEnabled = false;
+    startRelay();
+
+    await jest.advanceTimersByTimeAsync(3 * POLL_INTERVAL_MS);
+    expect(db.query).not.toHaveBeenCalled();
+    expect(db.row(1).retry_count).toBe(0);
+
+    busEnabled = true;
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(published()).toEqual(['evt-1']);
+  });
+
+  it('does not start a batch while the last one is still in flight', async () => {
+    db = createFakeDb([{ id: 1 }]);
+    let finishSend!: () => void;
+    publish.mockImplementationOnce(() => new Promise<void>(resolve => {
+      finishSend = resolve;
+    }));
+    startRelay();
+
+    await jest.advanceTimersByTimeAsync(3 * POLL_INTERVAL_MS);
+    expect(db.claims).toHaveLength(1);
+
+    finishSend();
+  });
+
+  it('waits for the batch in flight when stopped', async () => {
+    db = createFakeDb([{ id: 1 }]);
+    let finishSend!: () => void;
+    publish.mockImplementationOnce(() => new Promise<void>(resolve => {
+      finishSend = resolve;
+    }));
+    const relay = startRelay();
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    let stopped = false;
+    const stopping = relay.stop().then(() => {
+      stopped = true;
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+
+    finishSend();
+    await stopping;
+    expect(db.row(1).processed_at).not.toBeNull();
+
+    await jest.advanceTimersByTimeAsync(3 * POLL_INTERVAL_MS);
+    expect(db.claims).toHaveLength(1);
+  });
+});
@@ -1,56 +1,108 @@
-import { ServiceBusClient, ServiceBusReceiver, ProcessErrorArgs, ServiceBusReceivedMessage } from '@azure/service-bus';
+import { getMessageBus, BusSubscription, DeadLetterError, ReceivedBusMessage } from '../../../shared/bus';
+import {
+  parseEvent,
+  isSupportedEventType,
+  DomainEvent,
+  OrderVerifiedEvent,
+  StockAdjustedEvent,
+  StockReleasedEvent,
+  StockReplenishedEvent,
+  StockReservedEvent,
+} from '../../../shared/contracts';
 import * as orderRepository from '../domain/orderRepository';
-import { publishOrderEvent, generateEventId } from './orderPublisher';
+import type { OrderStatus } from '../domain/orderRepository';
+import * as inboxRepository from '../domain/inboxRepository';
+import { transitionOrder, TransitionOptions, TransitionResult } from '../domain/orderStateMachine';
+import { compensateOrphanedReservation } from '../domain/reservationCompensation';
+import { broadcastEvent } from '../interface/websocket';
 import { trackEvent, trackException } from '../telemetry';
-import { broadcastOrderUpdate } from '../interface/websocket';
 
-const connectionString = process.env.AZURE_SERVICE_BUS_CONNECTION_STRING || '';
+export const INVENTORY_EVENTS_TOPIC = 'inventory-events';
+export const INVENTORY_EVENTS_SUBSCRIPTION = 'order-service-sub';
 
-let serviceBusClient: ServiceBusClient | null = null;
-let inventoryEventsReceiver: ServiceBusReceiver | null = null;
+const CONSUMER_NAME = `${INVENTORY_EVENTS_TOPIC}/${INVENTORY_EVENTS_SUBSCRIPTION}`;
+
+let inventoryEventsReceiver: BusSubscription | null = null;
 
 export async function startInventoryEventsConsumer(): Promise<void> {
-  if (!connectionString) {
-    console.log('[ASB] No connection string, consumer disabled');
+  const bus = getMessageBus();
+  if (!bus) {
+    console.log('[ASB] No message bus, consumer disabled');
     return;
   }
   
   try {
-    serviceBusClient = new ServiceBusClient(connectionString);
-    inventoryEventsReceiver = serviceBusClient.createReceiver(
-      'inventory-events',
-      'order-service-sub'
-    );
-    
-    inventoryEventsReceiver.subscribe({
-      processMessage: async (message: ServiceBusReceivedMessage) => {
-        const event = message.body;
-        console.log(`[ASB] Received inventory event: ${event.eventType}`);
+    inventoryEventsReceiver = bus.subscribe(INVENTORY_EVENTS_TOPIC, INVENTORY_EVENTS_SUBSCRIPTION, {
+      processMessage: async (message: ReceivedBusMessage) => {
+        const eventType = message.body?.eventType;
+        console.log(`[ASB] Received inventory event: ${eventType}`);
+        
+        if (!isSupportedEventType(eventType)) {
+          console.log(`[ASB] Unhandled event type: ${eventType}`);
+          return;
+        }
         
+        let event: DomainEvent;
         try {
+          event = parseEvent(message.body);
+        } catch (error) {
+          console.error(`[ASB] Dead-lettering invalid ${eventType}: ${(error as Error).message}`);
+          trackEvent('InvalidMessageDeadLettered', { eventType, consumer: CONSUMER_NAME });
+          throw new DeadLetterError('ContractViolation', (error as Error).message);
+        }
+        
+        const inbox: inboxRepository.InboxMessage = {
+          consumer: CONSUMER_NAME,
+          messageId: event.eventId,
+          eventType: event.eventType,
+        };
+        
+        try {
+          if (await inboxRepository.isMessageProcessed(inbox)) {
+            console.log(`[ASB] Duplicate ${event.eventType} ${event.eventId}, already processed`);
+            trackEvent('DuplicateMessageSkipped', { eventType: event.eventType, messageId: event.eventId });
+            return;
+          }
+          
           switch (event.eventType) {
             case 'StockReserved':
-              await handleStockReserved(event);
+              await handleStockReserved(event, inbox);
               break;
             case 'StockReleased':
-              await handleStockReleased(event);
+              await handleStockReleased(event, inbox);
+              break;
+            case 'StockCommitted':
+              // Order is already marked shipped by the ship endpoint
               break;
             case 'OrderVerified':
-            case 'VerificationComplete':
-              await handleVerificationComplete(event);
+              await handleVerificationComplete(event, inbox);
+              break;
+            case 'ProductCreated':
+            case 'ProductUpdated':
+              // The catalog is read through inventory on demand
+              break;
+            case 'StockReplenished':
+            case 'StockAdjusted':
+              handleStockMovement(event);
+              break;
+            case 'StockTransferred':
+              // Moves stock between locations; the available total is unchanged
               break;
             default:
               console.log(`[ASB] Unhandled event type: ${event.eventType}`);
           }
+          
+          // No-op outcomes are recorded here; state changes already did it
+          await inboxRepository.markMessageProcessed(inbox);
         } catch (error) {
           console.error(`[ASB] Error processing ${event.eventType}:`, error);
           trackException(error as Error, { eventType: event.eventType });
           throw error; // Retry
         }
       },
-      processError: async (args: ProcessErrorArgs) => {
-        console.error('[ASB] Error receiving message:', args.error);
-        trackException(args.error, { source: 'InventoryEventsConsumer' });
+      processError: async (error: Error) => {
+        console.error('[ASB] Error receiving message:', error);
+        trackException(error, { source: 'InventoryEventsConsumer' });
       },
     });
     
@@ -61,122 +113,165 @@ export async function startInventoryEventsConsumer(): Promise<void> {
   }
 }
 
-async function handleStockReserved(event: any): Promise<void> {
-  const { orderId, reservationId } = event.data;
-  
-  console.log(`[ASB] Stock reserved for order ${orderId}, reservation ${reservationId}`);
-  
-  // Update order status to confirmed
-  const order = await orderRepository.updateOrderStatus(
-    orderId,
-    'confirmed',
-    reservationId
-  );
-  
-  if (order) {
-    // Publish order confirmed event
-    await publishOrderEvent({
-      eventType: 'OrderConfirmed',
-      eventId: generateEventId(),
-      timestamp: new Date().toISOString(),
-      data: {
-        orderId,
-        status: 'confirmed',
-        reservationId,
-      },
-    });
-    
-    // Broadcast to WebSocket clients
-    broadcastOrderUpdate({
-      orderId,
-      status: 'confirmed',
-      reservationId,
-    });
-    
+/**
+ * transitionOrder, throwing when it kept losing to concurrent writes so the
+ * message is redelivered instead of being acknowledged with the change lost.
+ */
+async function applyTransition(
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions
+): Promise<TransitionResult> {
+  const result = await transitionOrder(orderId, to, options);
+  
+  if (result.outcome === 'conflict') {
+    throw new Error(`Order ${orderId} was modified concurrently, not moved to ${to}`);
+  }
+  
+  return result;
+}
+
+async function handleStockReserved(event: StockReservedEvent, inbox?: inboxRepository.InboxMessage): Promise<void> {
+  const { orderId, reservationId, backorderId } = event.data;
+  
+  console.log(`[ASB] Stock reserved for order ${orderId}, reservation ${reservationId}${backorderId ? ` (backorder ${backorderId} filled)` : ''}`);
+  
+  // Rejected when the order has already failed, expired or been cancelled
+  const result = await applyTransition(orderId, 'confirmed', {
+    source: CONSUMER_NAME,
+    reservationId,
+    ...(backorderId ? { reason: 'Backorder filled', message: 'Backorder filled - order confirmed' } : {}),
+    inboxMessage: inbox,
+  });
+  
+  if (result.outcome === 'applied') {
     trackEvent('OrderConfirmedViaASB', { orderId });
+  } else if (result.outcome === 'rejected' && result.order) {
+    await compensateOrphanedReservation(result.order, reservationId, {
+      eventType: event.eventType,
+      eventId: event.eventId,
+      source: CONSUMER_NAME,
+    });
   }
 }
 
-async function handleStockReleased(event: any): Promise<void> {
-  const { orderId, reason } = event.data;
+async function handleStockReleased(event: StockReleasedEvent, inbox?: inboxRepository.InboxMessage): Promise<void> {
+  const { orderId, reservationId, productId, quantity, reason } = event.data;
   
-  console.log(`[ASB] Stock released for order ${orderId}, reason: ${reason}`);
+  console.log(`[ASB] Stock released for order ${orderId}: ${quantity} x ${productId}, reason: ${reason}`);
   
-  trackEvent('StockReleasedReceived', { orderId, reason });
+  trackEvent('StockReleasedReceived', { orderId, productId, quantity: String(quantity), reason });
+  
+  if (reason === 'expired') {
+    await handleReservationExpired(orderId, reservationId, inbox);
+  }
 }
 
-async function handleVerificationComplete(event: any): Promise<void> {
-  const { orderId, reservationId, reason, status, recoveredFromCrash } = event.data;
-  // Handle both formats: OrderVerified (status) and VerificationComplete (verified)
-  const verified = event.data.verified ?? (status === 'confirmed');
+/**
+ * Pass warehouse stock movements on to storefront clients so they show the
+ * new available stock without refetching.
+ */
+function handleStockMovement(event: StockReplenishedEvent | StockAdjustedEvent): void {
+  const { productId, quantityChange, newStock, reasonCode } = event.data;
   
-  console.log(`[ASB] Verification complete for order ${orderId}: ${verified ? 'SUCCESS' : 'FAILED'} (recovered: ${recoveredFromCrash || false})`);
+  console.log(`[ASB] ${event.eventType} for ${productId}: ${quantityChange >= 0 ? '+' : ''}${quantityChange}, now ${newStock} available (${reasonCode})`);
   
+  broadcastEvent('stockUpdate', {
+    productId,
+    availableStock: newStock,
+    quantityChange,
+    eventType: event.eventType,
+    reasonCode,
+  });
+}
+
+async function handleReservationExpired(
+  orderId: string,
+  reservationId?: string,
+  inbox?: inboxRepository.InboxMessage
+): Promise<void> {
   const order = await orderRepository.getOrder(orderId);
   
-  if (!order || order.status !== 'pending_verification') {
-    console.log(`[ASB] Order ${orderId} not in pending_verification state, skipping`);
+  if (!order) {
     return;
   }
   
-  if (verified) {
-    // Reservation was found - confirm the order
-    await orderRepository.updateOrderStatus(orderId, 'confirmed', reservationId);
-    
-    await publishOrderEvent({
-      eventType: 'OrderConfirmed',
-      eventId: generateEventId(),
-      timestamp: new Date().toISOString(),
-      data: {
-        orderId,
-        status: 'confirmed',
-        reservationId,
-        reason: 'Verified via Schrödinger recovery',
-      },
+  // A stale reservation expiring must not expire an order that holds another one
+  if (order.reservationId && reservationId && order.reservationId !== reservationId) {
+    console.log(`[ASB] Expired reservation ${reservationId} is not the current one for order ${orderId}, skipping`);
+    return;
+  }
+  
+  const result = await applyTransition(orderId, 'expired', {
+    source: CONSUMER_NAME,
+    reservationId,
+    reason: 'Reservation expired',
+    message: 'Order expired - reservation released',
+    inboxMessage: inbox,
+  });
+  
+  if (result.outcome === 'applied') {
+    trackEvent('OrderExpired', { orderId });
+  }
+}
+
+async function handleVerificationComplete(
+  event: OrderVerifiedEvent,
+  inbox?: inboxRepository.InboxMessage
+): Promise<void> {
+  const { orderId, reservationId, reason, status, recoveredFromCrash } = event.data;
+  // Legacy VerificationComplete events arrive upcast to OrderVerified
+  const verified = status === 'confirmed';
+  
+  console.log(`[ASB] Verification complete for order ${orderId}: ${verified ? 'SUCCESS' : status === 'backordered' ? 'BACKORDERED' : 'FAILED'} (recovered: ${recoveredFromCrash || false})`);
+  
+  let result: TransitionResult;
+  
+  if (status === 'backordered') {
+    // The unanswered reservation call put the order on the waitlist
+    result = await applyTransition(orderId, 'backordered', {
+      source: CONSUMER_NAME,
+      from: ['pending_verification'],
+      reason: reason || 'Backordered',
+      message: 'Order backordered after verification',
+      inboxMessage: inbox,
     });
-    
-    broadcastOrderUpdate({
-      orderId,
-      status: 'confirmed',
+  } else if (verified) {
+    // Reservation was found - confirm the order
+    result = await applyTransition(orderId, 'confirmed', {
+      source: CONSUMER_NAME,
+      from: ['pending_verification'],
       reservationId,
+      reason: 'Verified via Schrödinger recovery',
       message: 'Order confirmed after verification',
+      inboxMessage: inbox,
     });
   } else {
     // No reservation found - fail the order
-    await orderRepository.updateOrderStatus(
-      orderId,
-      'failed',
-      undefined,
-      reason || 'Verification failed - no reservation found'
-    );
-    
-    await publishOrderEvent({
-      eventType: 'OrderFailed',
-      eventId: generateEventId(),
-      timestamp: new Date().toISOString(),
-      data: {
-        orderId,
-        status: 'failed',
-        reason: reason || 'Verification failed - no reservation found',
-      },
-    });
-    
-    broadcastOrderUpdate({
-      orderId,
-      status: 'failed',
+    result = await applyTransition(orderId, 'failed', {
+      source: CONSUMER_NAME,
+      from: ['pending_verification'],
+      reason: reason || 'Verification failed - no reservation found',
       message: 'Order failed after verification',
+      inboxMessage: inbox,
     });
   }
   
-  trackEvent('VerificationProcessed', { orderId, verified: String(verified) });
+  if (result.outcome === 'applied') {
+    trackEvent('VerificationProcessed', { orderId, verified: String(verified) });
+  } else if (verified && reservationId && result.outcome === 'rejected' && result.order) {
+    await compensateOrphanedReservation(result.order, reservationId, {
+      eventType: event.eventType,
+      eventId: event.eventId,
+      source: CONSUMER_NAME,
+    });
+  }
 }
 
 export async function stopInventoryEventsConsumer(): Promise<void> {
   if (inventoryEventsReceiver) {
     await inventoryEventsReceiver.close();
-  }
-  if (serviceBusClient) {
-    await serviceBusClient.close();
+    inventoryEventsReceiver = null;
   }
   console.log('[ASB] Inventory events consumer stopped');
 }
@@ -1,71 +1,38 @@
-import { ServiceBusClient, ServiceBusSender } from '@azure/service-bus';
 import { v4 as uuidv4 } from 'uuid';
+import { initMessageBus, getMessageBus, closeMessageBus } from '../../../shared/bus';
+import { versionEvent, CompensationAppliedEvent, OrderEvent, VerifyOrderMessage } from '../../../shared/contracts';
 import { trackEvent, trackException } from '../telemetry';
 
-const connectionString = process.env.AZURE_SERVICE_BUS_CONNECTION_STRING || '';
-
-let serviceBusClient: ServiceBusClient | null = null;
-let orderEventsSender: ServiceBusSender | null = null;
-let verifyOrdersSender: ServiceBusSender | null = null;
+const ORDER_EVENTS_TOPIC = 'order-events';
+const VERIFY_ORDERS_QUEUE = 'verify-orders';
 
 export async function initServiceBus(): Promise<void> {
-  if (!connectionString) {
-    console.log('[ASB] No connection string, Service Bus disabled');
-    return;
-  }
-  
   try {
-    serviceBusClient = new ServiceBusClient(connectionString);
-    orderEventsSender = serviceBusClient.createSender('order-events');
-    verifyOrdersSender = serviceBusClient.createSender('verify-orders');
-    console.log('[ASB] Service Bus initialized');
+    await initMessageBus();
   } catch (error) {
-    console.error('[ASB] Failed to initialize Service Bus:', error);
+    console.error('[ASB] Failed to initialize message bus:', error);
     trackException(error as Error, { component: 'ServiceBusInit' });
   }
 }
 
-export interface OrderEvent {
-  eventType: 'OrderCreated' | 'OrderConfirmed' | 'OrderFailed' | 'OrderCancelled' | 'OrderPendingVerification';
-  eventId: string;
-  timestamp: string;
-  data: {
-    orderId: string;
-    customerId?: string;
-    productId?: string;
-    quantity?: number;
-    status?: string;
-    reason?: string;
-    reservationId?: string;
-  };
-}
-
-export interface VerifyOrderMessage {
-  eventType: 'VerifyOrder';
-  eventId: string;
-  timestamp: string;
-  data: {
-    orderId: string;
-    productId: string;
-    quantity: number;
-    idempotencyKey: string;
-    originalRequestTime: string;
-  };
+export function isServiceBusEnabled(): boolean {
+  return getMessageBus() !== null;
 }
 
 export function generateEventId(): string {
   return uuidv4();
 }
 
-export async function publishOrderEvent(event: OrderEvent): Promise<void> {
-  if (!orderEventsSender) {
+export async function publishOrderEvent(event: OrderEvent | CompensationAppliedEvent): Promise<void> {
+  const bus = getMessageBus();
+  if (!bus) {
     console.log('[ASB] Order events sender not available');
     return;
   }
   
   try {
-    await orderEventsSender.sendMessages({
-      body: event,
+    await bus.send(ORDER_EVENTS_TOPIC, {
+      body: versionEvent(event),
       contentType: 'application/json',
       subject: event.eventType,
       messageId: event.eventId,
@@ -82,14 +49,15 @@ export async function publishOrderEvent(event: OrderEvent): Promise<void> {
 }
 
 export async function sendVerifyOrderMessage(message: VerifyOrderMessage): Promise<void> {
-  if (!verifyOrdersSender) {
+  const bus = getMessageBus();
+  if (!bus) {
     console.log('[ASB] Verify orders sender not available');
     return;
   }
   
   try {
-    await verifyOrdersSender.sendMessages({
-      body: message,
+    await bus.send(VERIFY_ORDERS_QUEUE, {
+      body: versionEvent(message),
       contentType: 'application/json',
       subject: 'VerifyOrder',
       messageId: message.eventId,
@@ -106,8 +74,5 @@ export async function sendVerifyOrderMessage(message: VerifyOrderMessage): Promi
 }
 
 export async function closeServiceBus(): Promise<void> {
-  if (serviceBusClient) {
-    await serviceBusClient.close();
-    console.log('[ASB] Service Bus connection closed');
-  }
+  await closeMessageBus();
 }
@@ -0,0 +1,35 @@
+import { createOutboxRelay, OutboxStats } from '../../../shared/outbox';
+import { getPool } from '../domain/orderRepository';
+import { publishOrderEvent, sendVerifyOrderMessage, isServiceBusEnabled } from './orderPublisher';
+import type { CompensationAppliedEvent, OrderEvent, VerifyOrderMessage } from '../../../shared/contracts';
+import { trackEvent, trackException, trackMetric } from '../telemetry';
+
+/**
+ * Outbox Relay
+ * Drains the outbox table written by orderRepository: VerifyOrder rows go to
+ * the verify-order queue, everything else to the order-events topic.
+ */
+const relay = createOutboxRelay({
+  getPool,
+  isEnabled: isServiceBusEnabled,
+  publish: async (message) => {
+    if (message.eventType === 'VerifyOrder') {
+      await sendVerifyOrderMessage(message as VerifyOrderMessage);
+    } else {
+      await publishOrderEvent(message as OrderEvent | CompensationAppliedEvent);
+    }
+  },
+  telemetry: { trackEvent, trackException, trackMetric },
+});
+
+export function startOutboxRelay(): void {
+  relay.start();
+}
+
+export function stopOutboxRelay(): Promise<void> {
+  return relay.stop();
+}
+
+export function getOutboxBacklog(): Promise<OutboxStats> {
+  return relay.getBacklog();
+}
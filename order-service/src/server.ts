@@ -2,14 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import http from 'http';
 import { initTelemetry, trackEvent } from './telemetry';
+import { initTracing, shutdownTracing, tracingMiddleware } from '../../shared/tracing';
+import { initMetrics, metricsHandler, metricsMiddleware } from '../../shared/metrics';
 import { initPool } from './domain/orderRepository';
 import { initServiceBus, closeServiceBus } from './messaging/orderPublisher';
 import { startInventoryEventsConsumer, stopInventoryEventsConsumer } from './messaging/inventoryConsumer';
+import { startOutboxRelay, stopOutboxRelay } from './messaging/outboxRelay';
+import { startVerificationReconciler, stopVerificationReconciler } from './jobs/verificationReconciler';
 import { initWebSocket } from './interface/websocket';
 import routes from './interface/routes';
 
 // Initialize telemetry first
 initTelemetry();
+initTracing('order-service');
+initMetrics('order-service');
 
 const app = express();
 const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3001', 10);
@@ -17,6 +23,8 @@ const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3001', 10);
 // Middleware
 app.use(cors());
 app.use(express.json());
+app.use(tracingMiddleware);
+app.use(metricsMiddleware);
 
 // Log all requests
 app.use((req, res, next) => {
@@ -25,6 +33,7 @@ app.use((req, res, next) => {
 });
 
 // Routes
+app.get('/metrics', metricsHandler);
 app.use('/', routes);
 
 // Error handler
@@ -55,6 +64,14 @@ async function main() {
     console.log('[ASB] Starting inventory events consumer...');
     await startInventoryEventsConsumer();
     
+    // Start outbox relay
+    console.log('[Outbox] Starting outbox relay...');
+    startOutboxRelay();
+    
+    // Start pending_verification reconciler
+    console.log('[Reconciler] Starting verification reconciler...');
+    startVerificationReconciler();
+    
     // Create HTTP server
     const server = http.createServer(app);
     
@@ -80,7 +97,10 @@ async function main() {
       trackEvent('ServiceStopping', { service: 'order-service' });
       
       await stopInventoryEventsConsumer();
+      await stopOutboxRelay();
+      await stopVerificationReconciler();
       await closeServiceBus();
+      await shutdownTracing();
       
       server.close(() => {
         console.log('[Shutdown] HTTP server stopped');
@@ -1,4 +1,5 @@
 import * as appInsights from 'applicationinsights';
+import { recordDependency, recordEvent, recordMetric } from '../../shared/metrics';
 
 const connectionString = process.env.APPLICATIONINSIGHTS_CONNECTION_STRING;
 
@@ -24,12 +25,14 @@ export function initTelemetry(): void {
 }
 
 export function trackEvent(name: string, properties?: Record<string, string>): void {
+  recordEvent(name);
   if (telemetryClient) {
     telemetryClient.trackEvent({ name, properties });
   }
 }
 
 export function trackMetric(name: string, value: number): void {
+  recordMetric(name, value);
   if (telemetryClient) {
     telemetryClient.trackMetric({ name, value });
   }
@@ -47,8 +50,10 @@ export function trackDependency(
   dependencyTypeName: string,
   target: string,
   duration: number,
-  success: boolean
+  success: boolean,
+  properties?: Record<string, string>
 ): void {
+  recordDependency(name, dependencyTypeName, duration, success);
   if (telemetryClient) {
     telemetryClient.trackDependency({
       name,
@@ -58,6 +63,7 @@ export function trackDependency(
       resultCode: success ? 200 : 500,
       success,
       data: '',
+      properties,
     });
   }
 }
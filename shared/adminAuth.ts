@@ -0,0 +1,50 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+
+/**
+ * Admin Authentication
+ * Admin calls carry "Authorization: Bearer <ADMIN_API_TOKEN>", as an HTTP
+ * header or gRPC metadata. Without ADMIN_API_TOKEN the admin API is disabled
+ * rather than open.
+ */
+
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN || '';
+
+export type AdminAuthResult = 'ok' | 'disabled' | 'unauthorized';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check an Authorization header value against the admin token.
+ */
+export function authorizeAdmin(authorization: unknown): AdminAuthResult {
+  if (!ADMIN_API_TOKEN) {
+    return 'disabled';
+  }
+
+  const match = typeof authorization === 'string' ? /^Bearer\s+(.+)$/i.exec(authorization) : null;
+
+  // Equal-length digests so the comparison takes the same time for any token
+  return match && timingSafeEqual(digest(match[1].trim()), digest(ADMIN_API_TOKEN)) ? 'ok' : 'unauthorized';
+}
+
+/**
+ * Express middleware for admin routes.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const result = authorizeAdmin(req.headers.authorization);
+
+  if (result === 'disabled') {
+    res.status(503).json({ success: false, error: 'Admin API disabled: ADMIN_API_TOKEN is not set' });
+    return;
+  }
+
+  if (result === 'unauthorized') {
+    res.status(401).json({ success: false, error: 'Missing or invalid admin token' });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,206 @@
+import {
+  ServiceBusAdministrationClient,
+  ServiceBusClient,
+  ServiceBusSender,
+  ServiceBusReceiver,
+  ServiceBusReceivedMessage,
+} from '@azure/service-bus';
+import { DeadLetterError } from './errors';
+import type {
+  BusHandlers,
+  BusMessage,
+  BusSubscription,
+  DeadLetteredMessage,
+  MessageBus,
+  ReceivedBusMessage,
+} from './index';
+
+/**
+ * Azure Service Bus adapter. Senders are created lazily per entity; received
+ * messages are completed when the handler resolves and abandoned when it
+ * throws, so Service Bus applies its own MaxDeliveryCount / dead-lettering.
+ * A DeadLetterError dead-letters the message immediately.
+ *
+ * Dead-lettered messages are addressed by sequence number. Replaying a
+ * subscription's message resends it to the topic, so every subscription
+ * receives it again - consumers are expected to be idempotent.
+ */
+
+// Dead letters settled per replay/purge call are looked up by receiving
+// (and abandoning) at most this many messages
+const DEAD_LETTER_SCAN_LIMIT = 500;
+const DEAD_LETTER_PAGE_SIZE = 50;
+
+export function createAzureBus(connectionString: string): MessageBus {
+  const client = new ServiceBusClient(connectionString);
+  const senders = new Map<string, ServiceBusSender>();
+  const receivers = new Set<ServiceBusReceiver>();
+  let adminClient: ServiceBusAdministrationClient | null = null;
+
+  function getSender(entity: string): ServiceBusSender {
+    let sender = senders.get(entity);
+    if (!sender) {
+      sender = client.createSender(entity);
+      senders.set(entity, sender);
+    }
+    return sender;
+  }
+
+  function createDeadLetterReceiver(entity: string, subscription: string | null): ServiceBusReceiver {
+    return subscription
+      ? client.createReceiver(entity, subscription, { subQueueType: 'deadLetter' })
+      : client.createReceiver(entity, { subQueueType: 'deadLetter' });
+  }
+
+  async function settleDeadLetter(
+    entity: string,
+    subscription: string | null,
+    id: string,
+    replay: boolean
+  ): Promise<boolean> {
+    const receiver = createDeadLetterReceiver(entity, subscription);
+    const skipped: ServiceBusReceivedMessage[] = [];
+
+    try {
+      while (skipped.length < DEAD_LETTER_SCAN_LIMIT) {
+        const batch = await receiver.receiveMessages(DEAD_LETTER_PAGE_SIZE, { maxWaitTimeInMs: 2000 });
+        if (batch.length === 0) {
+          return false;
+        }
+
+        const match = batch.find(message => message.sequenceNumber?.toString() === id);
+        skipped.push(...batch.filter(message => message !== match));
+
+        if (match) {
+          if (replay) {
+            await getSender(entity).sendMessages({
+              body: match.body,
+              messageId: match.messageId,
+              subject: match.subject,
+              correlationId: match.correlationId,
+              contentType: match.contentType,
+              applicationProperties: match.applicationProperties,
+            });
+          }
+          await receiver.completeMessage(match);
+          return true;
+        }
+      }
+      return false;
+    } finally {
+      for (const message of skipped) {
+        await receiver.abandonMessage(message).catch(() => undefined);
+      }
+      await receiver.close();
+    }
+  }
+
+  return {
+    provider: 'azure',
+
+    async send(entity: string, messages: BusMessage | BusMessage[]): Promise<void> {
+      const batch = Array.isArray(messages) ? messages : [messages];
+      await getSender(entity).sendMessages(batch.map(message => ({
+        body: message.body,
+        messageId: message.messageId,
+        subject: message.subject,
+        correlationId: message.correlationId,
+        contentType: message.contentType || 'application/json',
+        applicationProperties: message.applicationProperties,
+      })));
+    },
+
+    subscribe(entity: string, subscription: string | null, handlers: BusHandlers): BusSubscription {
+      const receiver = subscription
+        ? client.createReceiver(entity, subscription)
+        : client.createReceiver(entity);
+      receivers.add(receiver);
+
+      receiver.subscribe({
+        processMessage: async (message: ServiceBusReceivedMessage) => {
+          try {
+            await handlers.processMessage(toReceivedMessage(message));
+          } catch (error) {
+            if (error instanceof DeadLetterError) {
+              await receiver.deadLetterMessage(message, {
+                deadLetterReason: error.reason,
+                deadLetterErrorDescription: error.message,
+              });
+              return;
+            }
+            await receiver.abandonMessage(message);
+            throw error;
+          }
+          await receiver.completeMessage(message);
+        },
+        processError: async (args) => {
+          await handlers.processError(args.error);
+        },
+      }, { autoCompleteMessages: false });
+
+      return {
+        close: async () => {
+          receivers.delete(receiver);
+          await receiver.close();
+        },
+      };
+    },
+
+    async peekDeadLetters(entity: string, subscription: string | null, limit: number): Promise<DeadLetteredMessage[]> {
+      const receiver = createDeadLetterReceiver(entity, subscription);
+      try {
+        const messages = await receiver.peekMessages(limit);
+        return messages.map(message => ({
+          ...toReceivedMessage(message),
+          id: message.sequenceNumber?.toString() || '',
+          deadLetterReason: message.deadLetterReason,
+          deadLetterDescription: message.deadLetterErrorDescription,
+        }));
+      } finally {
+        await receiver.close();
+      }
+    },
+
+    async countDeadLetters(entity: string, subscription: string | null): Promise<number> {
+      // Runtime properties need a Manage claim on the connection string
+      adminClient = adminClient || new ServiceBusAdministrationClient(connectionString);
+      const properties = subscription
+        ? await adminClient.getSubscriptionRuntimeProperties(entity, subscription)
+        : await adminClient.getQueueRuntimeProperties(entity);
+      return properties.deadLetterMessageCount;
+    },
+
+    replayDeadLetter(entity: string, subscription: string | null, id: string): Promise<boolean> {
+      return settleDeadLetter(entity, subscription, id, true);
+    },
+
+    purgeDeadLetter(entity: string, subscription: string | null, id: string): Promise<boolean> {
+      return settleDeadLetter(entity, subscription, id, false);
+    },
+
+    async close(): Promise<void> {
+      for (const receiver of receivers) {
+        await receiver.close();
+      }
+      for (const sender of senders.values()) {
+        await sender.close();
+      }
+      receivers.clear();
+      senders.clear();
+      await client.close();
+    },
+  };
+}
+
+function toReceivedMessage(message: ServiceBusReceivedMessage): ReceivedBusMessage {
+  return {
+    body: message.body,
+    messageId: message.messageId !== undefined ? String(message.messageId) : undefined,
+    subject: message.subject,
+    correlationId: message.correlationId !== undefined ? String(message.correlationId) : undefined,
+    contentType: message.contentType,
+    applicationProperties: message.applicationProperties as ReceivedBusMessage['applicationProperties'],
+    deliveryCount: message.deliveryCount ?? 1,
+    enqueuedAt: message.enqueuedTimeUtc,
+  };
+}
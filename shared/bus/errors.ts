@@ -0,0 +1,10 @@
+/**
+ * Thrown from processMessage to dead-letter a message straight away instead
+ * of retrying it, e.g. when it can never be processed.
+ */
+export class DeadLetterError extends Error {
+  constructor(public readonly reason: string, description: string) {
+    super(description);
+    this.name = 'DeadLetterError';
+  }
+}
@@ -0,0 +1,176 @@
+import { createAzureBus } from './azureBus';
+import { createLocalBus } from './localBus';
+import { extractTraceContext, injectTraceContext, withSpan } from '../tracing';
+import { recordBusMessage } from '../metrics';
+import { DeadLetterError } from './errors';
+
+export { DeadLetterError } from './errors';
+
+/**
+ * Message Bus
+ * Topics, subscriptions and queues behind one interface so services can run
+ * against Azure Service Bus or the PostgreSQL-backed local broker.
+ *
+ * MESSAGE_BUS selects the adapter: 'azure', 'local' or 'none'. When unset,
+ * Azure is used if AZURE_SERVICE_BUS_CONNECTION_STRING is set, the local
+ * broker if BUS_DB_HOST is set, and otherwise messaging is disabled.
+ *
+ * Whichever adapter is used, sent messages carry the W3C trace context in
+ * their application properties and are processed inside a span continuing it,
+ * and published / consumed messages are counted for /metrics.
+ */
+
+export type BusProvider = 'azure' | 'local';
+
+export interface BusMessage {
+  body: any;
+  messageId?: string;
+  subject?: string;
+  correlationId?: string;
+  contentType?: string;
+  applicationProperties?: Record<string, string | number | boolean>;
+}
+
+export interface ReceivedBusMessage extends BusMessage {
+  deliveryCount: number;
+  enqueuedAt?: Date;
+}
+
+export interface DeadLetteredMessage extends ReceivedBusMessage {
+  // Broker handle used to replay or purge: row id locally, sequence number on Azure
+  id: string;
+  deadLetterReason?: string;
+  deadLetterDescription?: string;
+}
+
+export interface BusHandlers {
+  // Throwing abandons the message; it is redelivered until MaxDeliveryCount
+  // and then dead-lettered. Throwing DeadLetterError dead-letters it at once.
+  processMessage: (message: ReceivedBusMessage) => Promise<void>;
+  processError: (error: Error) => Promise<void>;
+}
+
+export interface BusSubscription {
+  close(): Promise<void>;
+}
+
+export interface MessageBus {
+  provider: BusProvider;
+  // entity is a topic or a queue name
+  send(entity: string, messages: BusMessage | BusMessage[]): Promise<void>;
+  // subscription is null for queues
+  subscribe(entity: string, subscription: string | null, handlers: BusHandlers): BusSubscription;
+  // Dead-letter sub-queue of a subscription (or of a queue when subscription is null)
+  peekDeadLetters(entity: string, subscription: string | null, limit: number): Promise<DeadLetteredMessage[]>;
+  countDeadLetters(entity: string, subscription: string | null): Promise<number>;
+  // Both resolve false when the message is no longer dead-lettered
+  replayDeadLetter(entity: string, subscription: string | null, id: string): Promise<boolean>;
+  purgeDeadLetter(entity: string, subscription: string | null, id: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+let messageBus: MessageBus | null = null;
+
+// Largest bigint / Long
+const MAX_DEAD_LETTER_ID = BigInt('9223372036854775807');
+
+/**
+ * Dead-lettered message ids are numeric on both brokers (row id locally,
+ * sequence number on Azure).
+ */
+export function isDeadLetterId(id: string): boolean {
+  return /^\d{1,19}$/.test(id) && BigInt(id) <= MAX_DEAD_LETTER_ID;
+}
+
+function resolveProvider(): BusProvider | 'none' {
+  const configured = (process.env.MESSAGE_BUS || '').toLowerCase();
+  if (configured === 'azure' || configured === 'local' || configured === 'none') {
+    return configured;
+  }
+
+  const connectionString = process.env.AZURE_SERVICE_BUS_CONNECTION_STRING || '';
+  if (connectionString && !connectionString.includes('your-namespace')) {
+    return 'azure';
+  }
+
+  return process.env.BUS_DB_HOST ? 'local' : 'none';
+}
+
+function instrument(bus: MessageBus): MessageBus {
+  return {
+    ...bus,
+
+    async send(entity: string, messages: BusMessage | BusMessage[]): Promise<void> {
+      const batch = Array.isArray(messages) ? messages : [messages];
+      try {
+        await withSpan(`${entity} send`, () => bus.send(entity, batch.map(message => ({
+          ...message,
+          applicationProperties: { ...message.applicationProperties, ...injectTraceContext() },
+        }))), {
+          kind: 'producer',
+          attributes: { 'messaging.destination.name': entity, 'messaging.batch.message_count': batch.length },
+        });
+        recordBusMessage('published', entity, 'sent', batch.length);
+      } catch (error) {
+        recordBusMessage('published', entity, 'failed', batch.length);
+        throw error;
+      }
+    },
+
+    subscribe(entity: string, subscription: string | null, handlers: BusHandlers): BusSubscription {
+      return bus.subscribe(entity, subscription, {
+        ...handlers,
+        processMessage: async (message) => {
+          try {
+            await withSpan(`${entity} process`, () => handlers.processMessage(message), {
+              kind: 'consumer',
+              parent: extractTraceContext(message.applicationProperties),
+              attributes: {
+                'messaging.destination.name': entity,
+                'messaging.destination.subscription.name': subscription || '',
+                'messaging.message.id': message.messageId || '',
+                'messaging.message.subject': message.subject || '',
+              },
+            });
+            recordBusMessage('consumed', entity, 'completed');
+          } catch (error) {
+            recordBusMessage('consumed', entity, error instanceof DeadLetterError ? 'dead_lettered' : 'failed');
+            throw error;
+          }
+        },
+      });
+    },
+  };
+}
+
+export async function initMessageBus(): Promise<MessageBus | null> {
+  if (messageBus) {
+    return messageBus;
+  }
+
+  const provider = resolveProvider();
+
+  if (provider === 'azure') {
+    messageBus = instrument(createAzureBus(process.env.AZURE_SERVICE_BUS_CONNECTION_STRING || ''));
+  } else if (provider === 'local') {
+    messageBus = instrument(await createLocalBus());
+  } else {
+    console.log('[Bus] No message bus configured, messaging disabled');
+    return null;
+  }
+
+  console.log(`[Bus] Using ${provider} message bus`);
+  return messageBus;
+}
+
+export function getMessageBus(): MessageBus | null {
+  return messageBus;
+}
+
+export async function closeMessageBus(): Promise<void> {
+  if (messageBus) {
+    await messageBus.close();
+    messageBus = null;
+    console.log('[Bus] Message bus closed');
+  }
+}
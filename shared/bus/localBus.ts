@@ -0,0 +1,258 @@
+import { Pool } from 'pg';
+import type {
+  BusHandlers,
+  BusMessage,
+  BusSubscription,
+  DeadLetteredMessage,
+  MessageBus,
+  ReceivedBusMessage,
+} from './index';
+import { DeadLetterError } from './errors';
+
+/**
+ * Local (PostgreSQL-backed) broker adapter. Sending to an entity fans the
+ * message out to one row per registered subscription (queues have the single
+ * '$queue' subscription). Receivers poll, take a lease on each row, delete it
+ * once handled, and dead-letter it after BUS_MAX_DELIVERY_COUNT failures -
+ * the same peek-lock semantics as Service Bus. A failed delivery is retried
+ * with exponential backoff (BUS_RETRY_BASE_MS, BUS_RETRY_MAX_MS).
+ */
+
+export const QUEUE_SUBSCRIPTION = '$queue';
+
+const POLL_INTERVAL_MS = parseInt(process.env.BUS_POLL_INTERVAL_MS || '250', 10);
+const PREFETCH = parseInt(process.env.BUS_PREFETCH || '10', 10);
+const LOCK_DURATION_MS = parseInt(process.env.BUS_LOCK_DURATION_MS || '30000', 10);
+const MAX_DELIVERY_COUNT = parseInt(process.env.BUS_MAX_DELIVERY_COUNT || '10', 10);
+// An abandoned message waits RETRY_BASE_MS, doubling per delivery up to RETRY_MAX_MS
+const RETRY_BASE_MS = parseInt(process.env.BUS_RETRY_BASE_MS || '1000', 10);
+const RETRY_MAX_MS = parseInt(process.env.BUS_RETRY_MAX_MS || '60000', 10);
+
+function retryDelayMs(deliveryCount: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(deliveryCount - 1, 0), RETRY_MAX_MS);
+}
+
+export async function createLocalBus(): Promise<MessageBus> {
+  const pool = new Pool({
+    host: process.env.BUS_DB_HOST || 'bus-db',
+    port: parseInt(process.env.BUS_DB_PORT || '5432', 10),
+    database: process.env.BUS_DB_NAME || 'bus_db',
+    user: process.env.BUS_DB_USER || 'bus_admin',
+    password: process.env.BUS_DB_PASSWORD || 'bus_secret',
+    max: 5,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 5000,
+  });
+
+  // Fail fast if the broker database is unreachable
+  await pool.query('SELECT 1');
+
+  const subscriptions = new Set<BusSubscription>();
+
+  async function send(entity: string, messages: BusMessage | BusMessage[]): Promise<void> {
+    const batch = Array.isArray(messages) ? messages : [messages];
+
+    for (const message of batch) {
+      await pool.query(
+        `INSERT INTO bus_messages
+           (entity, subscription, message_id, subject, correlation_id, content_type, body, application_properties)
+         SELECT $1, subscription, $2, $3, $4, $5, $6, $7
+         FROM bus_subscriptions
+         WHERE entity = $1`,
+        [
+          entity,
+          message.messageId || null,
+          message.subject || null,
+          message.correlationId || null,
+          message.contentType || 'application/json',
+          JSON.stringify(message.body),
+          message.applicationProperties ? JSON.stringify(message.applicationProperties) : null,
+        ]
+      );
+    }
+  }
+
+  function subscribe(entity: string, subscription: string | null, handlers: BusHandlers): BusSubscription {
+    const name = subscription || QUEUE_SUBSCRIPTION;
+    const registered = pool.query(
+      `INSERT INTO bus_subscriptions (entity, subscription)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [entity, name]
+    );
+
+    let stopped = false;
+    let draining: Promise<void> | null = null;
+
+    const timer = setInterval(() => {
+      if (draining || stopped) {
+        return;
+      }
+      draining = drain()
+        .catch((error) => handlers.processError(error as Error))
+        .catch(() => undefined)
+        .finally(() => {
+          draining = null;
+        });
+    }, POLL_INTERVAL_MS);
+
+    async function drain(): Promise<void> {
+      await registered;
+
+      const claimed = await pool.query(
+        `UPDATE bus_messages
+         SET locked_until = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval,
+             delivery_count = delivery_count + 1
+         WHERE id IN (
+           SELECT id FROM bus_messages
+           WHERE entity = $1
+             AND subscription = $2
+             AND dead_lettered_at IS NULL
+             AND (locked_until IS NULL OR locked_until < CURRENT_TIMESTAMP)
+           ORDER BY id
+           LIMIT $4
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [entity, name, String(LOCK_DURATION_MS), PREFETCH]
+      );
+
+      const rows = claimed.rows.sort((a, b) => Number(a.id) - Number(b.id));
+
+      for (const row of rows) {
+        if (stopped) {
+          // Hand the rest back for the next receiver
+          await pool.query('UPDATE bus_messages SET locked_until = NULL WHERE id = $1', [row.id]);
+          continue;
+        }
+
+        try {
+          await handlers.processMessage(toReceivedMessage(row));
+          await pool.query('DELETE FROM bus_messages WHERE id = $1', [row.id]);
+        } catch (error) {
+          const deadLetter = error instanceof DeadLetterError;
+          if (!deadLetter) {
+            await handlers.processError(error as Error).catch(() => undefined);
+          }
+
+          if (deadLetter || row.delivery_count >= MAX_DELIVERY_COUNT) {
+            await pool.query(
+              `UPDATE bus_messages
+               SET dead_lettered_at = CURRENT_TIMESTAMP,
+                   dead_letter_reason = $2,
+                   dead_letter_description = $3,
+                   locked_until = NULL
+               WHERE id = $1`,
+              [row.id, deadLetter ? error.reason : 'MaxDeliveryCountExceeded', (error as Error).message]
+            );
+            console.warn(`[Bus] Dead-lettered message ${row.message_id} on ${entity}/${name} after ${row.delivery_count} deliveries`);
+          } else {
+            // Abandon: redeliver after a backoff so a failing message is not retried in a tight loop
+            await pool.query(
+              `UPDATE bus_messages
+               SET locked_until = CURRENT_TIMESTAMP + ($2 || ' milliseconds')::interval
+               WHERE id = $1`,
+              [row.id, String(retryDelayMs(row.delivery_count))]
+            );
+          }
+        }
+      }
+    }
+
+    const handle: BusSubscription = {
+      close: async () => {
+        stopped = true;
+        clearInterval(timer);
+        await draining;
+        subscriptions.delete(handle);
+      },
+    };
+
+    subscriptions.add(handle);
+    return handle;
+  }
+
+  async function peekDeadLetters(entity: string, subscription: string | null, limit: number): Promise<DeadLetteredMessage[]> {
+    const result = await pool.query(
+      `SELECT * FROM bus_messages
+       WHERE entity = $1 AND subscription = $2 AND dead_lettered_at IS NOT NULL
+       ORDER BY id
+       LIMIT $3`,
+      [entity, subscription || QUEUE_SUBSCRIPTION, limit]
+    );
+    return result.rows.map(toDeadLetteredMessage);
+  }
+
+  async function countDeadLetters(entity: string, subscription: string | null): Promise<number> {
+    const result = await pool.query(
+      `SELECT COUNT(*) AS depth FROM bus_messages
+       WHERE entity = $1 AND subscription = $2 AND dead_lettered_at IS NOT NULL`,
+      [entity, subscription || QUEUE_SUBSCRIPTION]
+    );
+    return parseInt(result.rows[0].depth, 10);
+  }
+
+  async function replayDeadLetter(entity: string, subscription: string | null, id: string): Promise<boolean> {
+    // Back onto the same subscription with a fresh delivery count
+    const result = await pool.query(
+      `UPDATE bus_messages
+       SET dead_lettered_at = NULL,
+           dead_letter_reason = NULL,
+           dead_letter_description = NULL,
+           delivery_count = 0,
+           locked_until = NULL
+       WHERE id = $1 AND entity = $2 AND subscription = $3 AND dead_lettered_at IS NOT NULL`,
+      [id, entity, subscription || QUEUE_SUBSCRIPTION]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async function purgeDeadLetter(entity: string, subscription: string | null, id: string): Promise<boolean> {
+    const result = await pool.query(
+      `DELETE FROM bus_messages
+       WHERE id = $1 AND entity = $2 AND subscription = $3 AND dead_lettered_at IS NOT NULL`,
+      [id, entity, subscription || QUEUE_SUBSCRIPTION]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async function close(): Promise<void> {
+    for (const subscription of Array.from(subscriptions)) {
+      await subscription.close();
+    }
+    await pool.end();
+  }
+
+  return {
+    provider: 'local',
+    send,
+    subscribe,
+    peekDeadLetters,
+    countDeadLetters,
+    replayDeadLetter,
+    purgeDeadLetter,
+    close,
+  };
+}
+
+function toReceivedMessage(row: any): ReceivedBusMessage {
+  return {
+    body: row.body,
+    messageId: row.message_id || undefined,
+    subject: row.subject || undefined,
+    correlationId: row.correlation_id || undefined,
+    contentType: row.content_type || undefined,
+    applicationProperties: row.application_properties || undefined,
+    deliveryCount: row.delivery_count,
+    enqueuedAt: row.enqueued_at,
+  };
+}
+
+function toDeadLetteredMessage(row: any): DeadLetteredMessage {
+  return {
+    ...toReceivedMessage(row),
+    id: String(row.id),
+    deadLetterReason: row.dead_letter_reason || undefined,
+    deadLetterDescription: row.dead_letter_description || undefined,
+  };
+}
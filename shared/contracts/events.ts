@@ -0,0 +1,475 @@
+import type { ObjectSpec } from './schema';
+
+/**
+ * Event contracts shared by order-service, inventory-service and dashboard.
+ * Each event type has a current schema version; older versions still in
+ * flight are brought up to date by the upcasters below before validation.
+ */
+
+export interface EventEnvelope<T extends string, D> {
+  eventType: T;
+  eventId: string;
+  timestamp: string;
+  // Stamped on publish; messages without it are version 1
+  schemaVersion?: number;
+  data: D;
+}
+
+export interface OrderLine {
+  productId: string;
+  quantity: number;
+}
+
+// A line drawn from several locations has one item per location
+export interface ReservedItem {
+  productId: string;
+  quantity: number;
+  remainingStock: number;
+  reservationId: string;
+  locationId?: string;
+}
+
+// order-events topic
+
+export type OrderEventType =
+  | 'OrderCreated'
+  | 'OrderConfirmed'
+  | 'OrderFailed'
+  | 'OrderCancelled'
+  | 'OrderPendingVerification'
+  | 'OrderBackordered'
+  | 'OrderExpired'
+  | 'OrderShipped';
+
+export type OrderEvent = EventEnvelope<OrderEventType, {
+  orderId: string;
+  customerId?: string;
+  items?: OrderLine[];
+  status?: string;
+  reason?: string;
+  reservationId?: string;
+}>;
+
+// A reservation confirmed after its order gave up on it was released
+export type CompensationAppliedEvent = EventEnvelope<'CompensationApplied', {
+  orderId: string;
+  reservationId: string;
+  orderStatus: string;
+  reason: string;
+  triggerEventType: string;
+  triggerEventId: string;
+}>;
+
+// verify-orders queue
+
+export type VerifyOrderMessage = EventEnvelope<'VerifyOrder', {
+  orderId: string;
+  items: OrderLine[];
+  idempotencyKey: string;
+  originalRequestTime: string;
+}>;
+
+// inventory-events topic
+
+export type StockReservedEvent = EventEnvelope<'StockReserved', {
+  orderId: string;
+  reservationId: string;
+  items: ReservedItem[];
+  // Set when the reservation filled a backorder
+  backorderId?: string;
+}>;
+
+export type StockReleasedEvent = EventEnvelope<'StockReleased', {
+  orderId: string;
+  // Missing on events upcast from version 1
+  reservationId?: string;
+  productId: string;
+  quantity: number;
+  previousStock: number;
+  newStock: number;
+  reason: string;
+}>;
+
+export type StockCommittedEvent = EventEnvelope<'StockCommitted', {
+  orderId: string;
+  reservationId: string;
+  items: OrderLine[];
+}>;
+
+export type LowStockAlertEvent = EventEnvelope<'LowStockAlert', {
+  productId: string;
+  currentStock: number;
+  threshold: number;
+}>;
+
+export type LowStockClearedEvent = EventEnvelope<'LowStockCleared', {
+  productId: string;
+  currentStock: number;
+  threshold: number;
+}>;
+
+export type OrderVerifiedEvent = EventEnvelope<'OrderVerified', {
+  orderId: string;
+  items: OrderLine[];
+  status: 'confirmed' | 'not_found' | 'backordered';
+  recoveredFromCrash: boolean;
+  reservationId?: string;
+  reason?: string;
+}>;
+
+export interface ProductDetails {
+  productId: string;
+  name: string;
+  description: string;
+  price: number;
+  lowStockThreshold: number;
+  // Missing on events from before backorders
+  backorderLimit?: number;
+  archived: boolean;
+}
+
+export type ProductCreatedEvent = EventEnvelope<'ProductCreated', ProductDetails & {
+  stock: number;
+}>;
+
+// Every catalog change after creation, archiving and unarchiving included;
+// carries the product as it is now
+export type ProductUpdatedEvent = EventEnvelope<'ProductUpdated', ProductDetails>;
+
+// Stock counted into or out of the warehouse by staff rather than by orders.
+// previousStock/newStock are available stock, as on StockReleased.
+export interface StockMovement {
+  productId: string;
+  quantityChange: number;
+  previousStock: number;
+  newStock: number;
+  reasonCode: string;
+  actorId: string;
+  note?: string;
+  locationId?: string;
+}
+
+// A restock was received
+export type StockReplenishedEvent = EventEnvelope<'StockReplenished', StockMovement>;
+
+// Units written off, or stock set to a cycle count
+export type StockAdjustedEvent = EventEnvelope<'StockAdjusted', StockMovement & {
+  adjustment: 'write_off' | 'count';
+}>;
+
+// Available stock moved between locations; the product's total is unchanged
+export type StockTransferredEvent = EventEnvelope<'StockTransferred', {
+  productId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  actorId: string;
+  note?: string;
+}>;
+
+// system-metrics topic
+
+export type ResponseTimeEvent = EventEnvelope<'ResponseTime', {
+  service: string;
+  operation: string;
+  durationMs: number;
+  success: boolean;
+}>;
+
+export type HealthStatusEvent = EventEnvelope<'HealthStatus', {
+  service: string;
+  healthy: boolean;
+}>;
+
+export type InventoryEvent =
+  | StockReservedEvent
+  | StockReleasedEvent
+  | StockCommittedEvent
+  | LowStockAlertEvent
+  | LowStockClearedEvent
+  | OrderVerifiedEvent
+  | ProductCreatedEvent
+  | ProductUpdatedEvent
+  | StockReplenishedEvent
+  | StockAdjustedEvent
+  | StockTransferredEvent;
+
+export type MetricEvent = ResponseTimeEvent | HealthStatusEvent;
+
+export type DomainEvent = OrderEvent | CompensationAppliedEvent | VerifyOrderMessage | InventoryEvent | MetricEvent;
+
+export type EventType = DomainEvent['eventType'];
+
+export interface Contract {
+  version: number;
+  schema: ObjectSpec;
+}
+
+const ORDER_LINE: ObjectSpec = {
+  productId: { type: 'string' },
+  quantity: { type: 'number' },
+};
+
+const ORDER_EVENT: Contract = {
+  version: 1,
+  schema: {
+    orderId: { type: 'string' },
+    customerId: { type: 'string', optional: true },
+    items: { type: 'array', items: ORDER_LINE, optional: true },
+    status: { type: 'string', optional: true },
+    reason: { type: 'string', optional: true },
+    reservationId: { type: 'string', optional: true },
+  },
+};
+
+const STOCK_THRESHOLD_EVENT: Contract = {
+  version: 1,
+  schema: {
+    productId: { type: 'string' },
+    currentStock: { type: 'number' },
+    threshold: { type: 'number' },
+  },
+};
+
+const PRODUCT_DETAILS: ObjectSpec = {
+  productId: { type: 'string' },
+  name: { type: 'string' },
+  description: { type: 'string' },
+  price: { type: 'number' },
+  lowStockThreshold: { type: 'number' },
+  backorderLimit: { type: 'number', optional: true },
+  archived: { type: 'boolean' },
+};
+
+const STOCK_MOVEMENT: ObjectSpec = {
+  productId: { type: 'string' },
+  quantityChange: { type: 'number' },
+  previousStock: { type: 'number' },
+  newStock: { type: 'number' },
+  reasonCode: { type: 'string' },
+  actorId: { type: 'string' },
+  note: { type: 'string', optional: true },
+  locationId: { type: 'string', optional: true },
+};
+
+export const CONTRACTS: Record<EventType, Contract> = {
+  OrderCreated: ORDER_EVENT,
+  OrderConfirmed: ORDER_EVENT,
+  OrderFailed: ORDER_EVENT,
+  OrderCancelled: ORDER_EVENT,
+  OrderPendingVerification: ORDER_EVENT,
+  OrderBackordered: ORDER_EVENT,
+  OrderExpired: ORDER_EVENT,
+  OrderShipped: ORDER_EVENT,
+  CompensationApplied: {
+    version: 1,
+    schema: {
+      orderId: { type: 'string' },
+      reservationId: { type: 'string' },
+      orderStatus: { type: 'string' },
+      reason: { type: 'string' },
+      triggerEventType: { type: 'string' },
+      triggerEventId: { type: 'string' },
+    },
+  },
+  VerifyOrder: {
+    version: 2,
+    schema: {
+      orderId: { type: 'string' },
+      items: { type: 'array', items: ORDER_LINE },
+      idempotencyKey: { type: 'string' },
+      originalRequestTime: { type: 'string' },
+    },
+  },
+  StockReserved: {
+    version: 2,
+    schema: {
+      orderId: { type: 'string' },
+      reservationId: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          ...ORDER_LINE,
+          remainingStock: { type: 'number' },
+          reservationId: { type: 'string' },
+          locationId: { type: 'string', optional: true },
+        },
+      },
+      backorderId: { type: 'string', optional: true },
+    },
+  },
+  StockReleased: {
+    version: 2,
+    schema: {
+      orderId: { type: 'string' },
+      reservationId: { type: 'string', optional: true },
+      productId: { type: 'string' },
+      quantity: { type: 'number' },
+      previousStock: { type: 'number' },
+      newStock: { type: 'number' },
+      reason: { type: 'string' },
+    },
+  },
+  StockCommitted: {
+    version: 1,
+    schema: {
+      orderId: { type: 'string' },
+      reservationId: { type: 'string' },
+      items: { type: 'array', items: ORDER_LINE },
+    },
+  },
+  LowStockAlert: STOCK_THRESHOLD_EVENT,
+  LowStockCleared: STOCK_THRESHOLD_EVENT,
+  OrderVerified: {
+    version: 2,
+    schema: {
+      orderId: { type: 'string' },
+      items: { type: 'array', items: ORDER_LINE },
+      status: { type: 'string', enum: ['confirmed', 'not_found', 'backordered'] },
+      recoveredFromCrash: { type: 'boolean' },
+      reservationId: { type: 'string', optional: true },
+      reason: { type: 'string', optional: true },
+    },
+  },
+  ProductCreated: {
+    version: 1,
+    schema: {
+      ...PRODUCT_DETAILS,
+      stock: { type: 'number' },
+    },
+  },
+  ProductUpdated: {
+    version: 1,
+    schema: PRODUCT_DETAILS,
+  },
+  StockReplenished: {
+    version: 1,
+    schema: STOCK_MOVEMENT,
+  },
+  StockAdjusted: {
+    version: 1,
+    schema: {
+      ...STOCK_MOVEMENT,
+      adjustment: { type: 'string', enum: ['write_off', 'count'] },
+    },
+  },
+  StockTransferred: {
+    version: 1,
+    schema: {
+      productId: { type: 'string' },
+      fromLocationId: { type: 'string' },
+      toLocationId: { type: 'string' },
+      quantity: { type: 'number' },
+      actorId: { type: 'string' },
+      note: { type: 'string', optional: true },
+    },
+  },
+  ResponseTime: {
+    version: 1,
+    schema: {
+      service: { type: 'string' },
+      operation: { type: 'string' },
+      durationMs: { type: 'number' },
+      success: { type: 'boolean' },
+    },
+  },
+  HealthStatus: {
+    version: 1,
+    schema: {
+      service: { type: 'string' },
+      healthy: { type: 'boolean' },
+    },
+  },
+};
+
+export interface RawEvent {
+  eventType: string;
+  eventId: string;
+  timestamp: string;
+  schemaVersion: number;
+  data: any;
+}
+
+export interface Upcaster {
+  eventType: string;
+  fromVersion: number;
+  upcast(event: RawEvent): RawEvent;
+}
+
+/**
+ * Version 1 is every message published before schemaVersion existed. Some of
+ * those already carry the version 2 shape, so the upcasters leave such
+ * payloads as they are.
+ */
+export const UPCASTERS: Upcaster[] = [
+  {
+    // Single-line orders
+    eventType: 'VerifyOrder',
+    fromVersion: 1,
+    upcast: ({ data, ...event }) => {
+      const { productId, quantity, ...rest } = data;
+      return {
+        ...event,
+        schemaVersion: 2,
+        data: data.items ? data : { ...rest, items: [{ productId, quantity }] },
+      };
+    },
+  },
+  {
+    eventType: 'StockReserved',
+    fromVersion: 1,
+    upcast: ({ data, ...event }) => {
+      const { productId, quantity, remainingStock, ...rest } = data;
+      return {
+        ...event,
+        schemaVersion: 2,
+        data: data.items
+          ? data
+          : { ...rest, items: [{ productId, quantity, remainingStock, reservationId: data.reservationId }] },
+      };
+    },
+  },
+  {
+    // Version 1 had neither the reservation nor the stock level before release
+    eventType: 'StockReleased',
+    fromVersion: 1,
+    upcast: ({ data, ...event }) => ({
+      ...event,
+      schemaVersion: 2,
+      data: {
+        ...data,
+        previousStock: data.previousStock ?? data.newStock - data.quantity,
+      },
+    }),
+  },
+  {
+    eventType: 'OrderVerified',
+    fromVersion: 1,
+    upcast: ({ data, ...event }) => {
+      const { productId, quantity, ...rest } = data;
+      return {
+        ...event,
+        schemaVersion: 2,
+        data: data.items ? data : { ...rest, items: [{ productId, quantity }] },
+      };
+    },
+  },
+  {
+    // Legacy verification result, replaced by OrderVerified
+    eventType: 'VerificationComplete',
+    fromVersion: 1,
+    upcast: ({ data, ...event }) => ({
+      ...event,
+      eventType: 'OrderVerified',
+      schemaVersion: 2,
+      data: {
+        orderId: data.orderId,
+        items: data.items || [],
+        status: data.verified ? 'confirmed' : 'not_found',
+        recoveredFromCrash: data.recoveredFromCrash ?? false,
+        reservationId: data.reservationId,
+        reason: data.reason,
+      },
+    }),
+  },
+];
@@ -0,0 +1,104 @@
+import { CONTRACTS, DomainEvent, EventType, RawEvent, UPCASTERS } from './events';
+import { validateObject } from './schema';
+
+export * from './events';
+
+/**
+ * Event Contracts
+ * Versioned event schemas validated on publish (versionEvent) and on consume
+ * (parseEvent). One module shared by every service, like the bus.
+ */
+
+export class ContractViolationError extends Error {
+  constructor(public readonly eventType: string, public readonly violations: string[]) {
+    super(`Invalid ${eventType || 'event'}: ${violations.join('; ')}`);
+    this.name = 'ContractViolationError';
+  }
+}
+
+function isKnownEventType(eventType: unknown): eventType is EventType {
+  return typeof eventType === 'string' && Object.prototype.hasOwnProperty.call(CONTRACTS, eventType);
+}
+
+/**
+ * True for current event types and legacy ones that upcast to one. Consumers
+ * use it to ignore event types added after they were deployed.
+ */
+export function isSupportedEventType(eventType: unknown): boolean {
+  return isKnownEventType(eventType) || UPCASTERS.some(upcaster => upcaster.eventType === eventType);
+}
+
+function findUpcaster(event: RawEvent) {
+  return UPCASTERS.find(upcaster =>
+    upcaster.eventType === event.eventType && upcaster.fromVersion === event.schemaVersion
+  );
+}
+
+function validateEnvelope(event: RawEvent): string[] {
+  const violations: string[] = [];
+
+  if (!isKnownEventType(event.eventType)) {
+    return [`unknown event type ${event.eventType}`];
+  }
+  if (typeof event.eventId !== 'string' || !event.eventId) {
+    violations.push('eventId is required');
+  }
+  if (typeof event.timestamp !== 'string' || Number.isNaN(Date.parse(event.timestamp))) {
+    violations.push('timestamp must be an ISO date string');
+  }
+
+  const contract = CONTRACTS[event.eventType];
+  if (event.schemaVersion !== contract.version) {
+    violations.push(`schemaVersion ${event.schemaVersion} is not supported (current ${contract.version})`);
+    return violations;
+  }
+
+  return violations.concat(validateObject(event.data, contract.schema, 'data'));
+}
+
+/**
+ * Stamp the current schema version on an outgoing event and validate it.
+ * Throws ContractViolationError - publishing an invalid event is a bug.
+ */
+export function versionEvent<E extends DomainEvent>(event: E): E {
+  const versioned = { ...event, schemaVersion: event.schemaVersion ?? CONTRACTS[event.eventType].version };
+  const violations = validateEnvelope(versioned as RawEvent);
+
+  if (violations.length > 0) {
+    throw new ContractViolationError(event.eventType, violations);
+  }
+  return versioned;
+}
+
+/**
+ * Upcast a received message body to the current version of its event type
+ * and validate it. Throws ContractViolationError when it cannot be.
+ */
+export function parseEvent(body: unknown): DomainEvent {
+  if (typeof body !== 'object' || body === null) {
+    throw new ContractViolationError('', ['message body must be an object']);
+  }
+
+  let event = { ...(body as RawEvent) };
+  event.schemaVersion = event.schemaVersion ?? 1;
+
+  if (!isSupportedEventType(event.eventType)) {
+    throw new ContractViolationError(event.eventType, [`unknown event type ${event.eventType}`]);
+  }
+
+  if (typeof event.data !== 'object' || event.data === null) {
+    throw new ContractViolationError(event.eventType, ['data must be an object']);
+  }
+
+  let upcaster = findUpcaster(event);
+  while (upcaster) {
+    event = upcaster.upcast(event);
+    upcaster = findUpcaster(event);
+  }
+
+  const violations = validateEnvelope(event);
+  if (violations.length > 0) {
+    throw new ContractViolationError(event.eventType, violations);
+  }
+  return event as DomainEvent;
+}
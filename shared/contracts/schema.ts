@@ -0,0 +1,55 @@
+/**
+ * Minimal runtime schema for event payloads: required/optional primitive
+ * fields, string enums and arrays of objects. Unknown fields are allowed so
+ * producers can add optional data without breaking older consumers.
+ */
+
+export type FieldSpec =
+  | { type: 'string'; optional?: boolean; enum?: readonly string[] }
+  | { type: 'number' | 'boolean'; optional?: boolean }
+  | { type: 'array'; optional?: boolean; items: ObjectSpec };
+
+export type ObjectSpec = Record<string, FieldSpec>;
+
+export function validateObject(value: unknown, spec: ObjectSpec, path: string): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${path} must be an object`];
+  }
+
+  const record = value as Record<string, unknown>;
+  const violations: string[] = [];
+
+  for (const [field, fieldSpec] of Object.entries(spec)) {
+    const fieldValue = record[field];
+    const fieldPath = `${path}.${field}`;
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!fieldSpec.optional) {
+        violations.push(`${fieldPath} is required`);
+      }
+      continue;
+    }
+
+    if (fieldSpec.type === 'array') {
+      if (!Array.isArray(fieldValue)) {
+        violations.push(`${fieldPath} must be an array`);
+        continue;
+      }
+      fieldValue.forEach((item, i) => {
+        violations.push(...validateObject(item, fieldSpec.items, `${fieldPath}[${i}]`));
+      });
+      continue;
+    }
+
+    if (typeof fieldValue !== fieldSpec.type) {
+      violations.push(`${fieldPath} must be a ${fieldSpec.type}`);
+      continue;
+    }
+
+    if (fieldSpec.type === 'string' && fieldSpec.enum && !fieldSpec.enum.includes(fieldValue as string)) {
+      violations.push(`${fieldPath} must be one of ${fieldSpec.enum.join(', ')}`);
+    }
+  }
+
+  return violations;
+}
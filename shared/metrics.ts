@@ -0,0 +1,150 @@
+import { collectDefaultMetrics, register, Counter, Gauge, Histogram } from 'prom-client';
+import type { NextFunction, Request, Response } from 'express';
+import type { Pool } from 'pg';
+
+/**
+ * Prometheus Metrics
+ * Served in text format on GET /metrics. The telemetry.ts functions feed the
+ * generic series below, so metrics are available with or without Application
+ * Insights; services register their own counters on the same default registry.
+ */
+
+// Seconds; covers fast DB reads up to gremlin-delayed gRPC calls
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+let initialized = false;
+
+/**
+ * Label every series with the service name (OTEL_SERVICE_NAME, when set,
+ * overrides it) and start collecting process metrics.
+ */
+export function initMetrics(defaultServiceName: string): void {
+  if (initialized) {
+    return;
+  }
+
+  initialized = true;
+  register.setDefaultLabels({ service: process.env.OTEL_SERVICE_NAME || defaultServiceName });
+  collectDefaultMetrics();
+}
+
+const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by route',
+  labelNames: ['method', 'route', 'status_code'],
+  buckets: DURATION_BUCKETS,
+});
+
+const rpcDuration = new Histogram({
+  name: 'rpc_duration_seconds',
+  help: 'gRPC call latency by method, from the caller (client) or the callee (server)',
+  labelNames: ['side', 'method', 'success'],
+  buckets: DURATION_BUCKETS,
+});
+
+const dependencyDuration = new Histogram({
+  name: 'dependency_duration_seconds',
+  help: 'Latency of tracked dependency calls other than gRPC',
+  labelNames: ['type', 'name', 'success'],
+  buckets: DURATION_BUCKETS,
+});
+
+const operationDuration = new Histogram({
+  name: 'operation_duration_seconds',
+  help: 'Durations reported through trackMetric (names ending in Duration or Latency)',
+  labelNames: ['operation'],
+  buckets: DURATION_BUCKETS,
+});
+
+const metricValue = new Gauge({
+  name: 'telemetry_metric',
+  help: 'Last value reported through trackMetric',
+  labelNames: ['name'],
+});
+
+const eventsTotal = new Counter({
+  name: 'telemetry_events_total',
+  help: 'Events reported through trackEvent',
+  labelNames: ['event'],
+});
+
+const busMessagesTotal = new Counter({
+  name: 'bus_messages_total',
+  help: 'Messages published to or consumed from the message bus',
+  labelNames: ['direction', 'entity', 'outcome'],
+});
+
+export function recordEvent(name: string): void {
+  eventsTotal.inc({ event: name });
+}
+
+/**
+ * trackMetric values named *.Duration or *Latency are milliseconds and are
+ * observed as a histogram; anything else is kept as a gauge.
+ */
+export function recordMetric(name: string, value: number): void {
+  if (name.endsWith('.Duration') || name.endsWith('Latency')) {
+    operationDuration.observe({ operation: name }, value / 1000);
+  } else {
+    metricValue.set({ name }, value);
+  }
+}
+
+export function recordDependency(name: string, type: string, durationMs: number, success: boolean): void {
+  if (type === 'gRPC') {
+    rpcDuration.observe({ side: 'client', method: name, success: String(success) }, durationMs / 1000);
+  } else {
+    dependencyDuration.observe({ type, name, success: String(success) }, durationMs / 1000);
+  }
+}
+
+export function recordRpcServerCall(method: string, durationMs: number, success: boolean): void {
+  rpcDuration.observe({ side: 'server', method, success: String(success) }, durationMs / 1000);
+}
+
+export function recordBusMessage(direction: 'published' | 'consumed', entity: string, outcome: string, count = 1): void {
+  busMessagesTotal.inc({ direction, entity, outcome }, count);
+}
+
+const pools = new Map<string, () => Pool | undefined>();
+
+new Gauge({
+  name: 'db_pool_connections',
+  help: 'Connections in each database pool by state',
+  labelNames: ['pool', 'state'],
+  collect() {
+    for (const [name, getPool] of pools) {
+      const pool = getPool();
+      this.set({ pool: name, state: 'total' }, pool?.totalCount ?? 0);
+      this.set({ pool: name, state: 'idle' }, pool?.idleCount ?? 0);
+      this.set({ pool: name, state: 'waiting' }, pool?.waitingCount ?? 0);
+    }
+  },
+});
+
+/**
+ * Report a pg pool's connection counts, sampled on every scrape.
+ */
+export function registerPoolMetrics(name: string, getPool: () => Pool | undefined): void {
+  pools.set(name, getPool);
+}
+
+/**
+ * Express middleware: observe each request's latency under its route pattern
+ * (e.g. /api/orders/:id) so the label set stays bounded.
+ */
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const stopTimer = httpRequestDuration.startTimer({ method: req.method });
+
+  res.on('finish', () => {
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    stopTimer({ route, status_code: String(res.statusCode) });
+  });
+
+  next();
+}
+
+export async function metricsHandler(req: Request, res: Response): Promise<void> {
+  res.set('Content-Type', register.contentType);
+  res.send(await register.metrics());
+}
@@ -0,0 +1,239 @@
+import type { Pool, PoolClient } from 'pg';
+import { versionEvent, DomainEvent } from './contracts';
+import { extractTraceContext, injectTraceContext, traced, withSpan } from './tracing';
+
+/**
+ * Transactional Outbox
+ * A service writes the events a change produces to its outbox table in the
+ * same transaction as the change (insertOutboxMessages), and a relay from
+ * createOutboxRelay publishes them, retrying failed sends with exponential
+ * backoff. Rows are claimed under a short lease and published outside any
+ * transaction, so a slow broker never holds a database connection. A relay
+ * that dies mid-batch leaves its rows to be published again once the lease
+ * runs out; consumers deduplicate by message id.
+ */
+
+const POLL_INTERVAL_MS = parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10);
+const BATCH_SIZE = parseInt(process.env.OUTBOX_BATCH_SIZE || '50', 10);
+export const OUTBOX_MAX_RETRIES = parseInt(process.env.OUTBOX_MAX_RETRIES || '10', 10);
+const BASE_BACKOFF_MS = parseInt(process.env.OUTBOX_BASE_BACKOFF_MS || '1000', 10);
+const MAX_BACKOFF_MS = parseInt(process.env.OUTBOX_MAX_BACKOFF_MS || '60000', 10);
+// How long a claimed row is hidden from other relays while it is published
+const CLAIM_LEASE_MS = parseInt(process.env.OUTBOX_CLAIM_LEASE_MS || '30000', 10);
+
+export interface OutboxEntry {
+  id: number;
+  eventType: string;
+  message: DomainEvent;
+  retryCount: number;
+  createdAt: Date;
+  traceContext?: Record<string, string>;
+}
+
+export interface OutboxStats {
+  pending: number;
+  exhausted: number;
+  oldestPendingAt?: Date;
+}
+
+// The service's telemetry.ts functions
+export interface OutboxTelemetry {
+  trackEvent(name: string, properties?: Record<string, string>): void;
+  trackException(error: Error, properties?: Record<string, string>): void;
+  trackMetric(name: string, value: number): void;
+}
+
+export interface OutboxRelayOptions {
+  getPool: () => Promise<Pool>;
+  // False while the bus is unavailable; rows are then held, not dropped
+  isEnabled: () => boolean;
+  // Must throw when the message was not sent
+  publish: (message: DomainEvent) => Promise<void>;
+  telemetry: OutboxTelemetry;
+}
+
+export interface OutboxRelay {
+  start(): void;
+  // Stops polling and waits for a batch in flight, so the bus is not closed under it
+  stop(): Promise<void>;
+  getBacklog(): Promise<OutboxStats>;
+}
+
+/**
+ * Insert outbox rows using the caller's client so they commit (or roll back)
+ * together with the change that produced them. Messages are validated
+ * against their contract here, so an invalid one fails the whole change.
+ * The current trace context is stored so the relay can continue the trace.
+ */
+export const insertOutboxMessages = traced('outbox.insertOutboxMessages', async (
+  client: PoolClient,
+  messages: DomainEvent[]
+): Promise<void> => {
+  for (const message of messages) {
+    await client.query(
+      `INSERT INTO outbox (event_type, event_data, trace_context)
+       VALUES ($1, $2, $3)`,
+      [message.eventType, JSON.stringify(versionEvent(message)), JSON.stringify(injectTraceContext())]
+    );
+  }
+});
+
+export function computeBackoffMs(retryCount: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, retryCount), MAX_BACKOFF_MS);
+}
+
+export function createOutboxRelay(options: OutboxRelayOptions): OutboxRelay {
+  const { getPool, isEnabled, publish, telemetry } = options;
+
+  let relayTimer: NodeJS.Timeout | null = null;
+  let draining: Promise<void> | null = null;
+  let offlineLogged = false;
+
+  /**
+   * Claim a batch of due rows by pushing their next_attempt_at out by the
+   * lease, in one short statement. SKIP LOCKED keeps concurrent relays off
+   * the same rows.
+   */
+  const claimDueEntries = traced('outbox.claimDueEntries', async (): Promise<OutboxEntry[]> => {
+    const result = await (await getPool()).query(
+      `UPDATE outbox
+       SET next_attempt_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+       WHERE id IN (
+         SELECT id FROM outbox
+         WHERE processed_at IS NULL
+           AND retry_count < $1
+           AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY id ASC
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [OUTBOX_MAX_RETRIES, BATCH_SIZE, String(CLAIM_LEASE_MS)]
+    );
+    return result.rows.map(mapRowToOutboxEntry).sort((a, b) => a.id - b.id);
+  });
+
+  const markProcessed = traced('outbox.markProcessed', async (id: number): Promise<void> => {
+    await (await getPool()).query(
+      'UPDATE outbox SET processed_at = CURRENT_TIMESTAMP, last_error = NULL WHERE id = $1',
+      [id]
+    );
+  });
+
+  const markFailed = traced('outbox.markFailed', async (
+    id: number,
+    backoffMs: number,
+    errorMessage: string
+  ): Promise<void> => {
+    await (await getPool()).query(
+      `UPDATE outbox
+       SET retry_count = retry_count + 1,
+           next_attempt_at = CURRENT_TIMESTAMP + ($2 || ' milliseconds')::interval,
+           last_error = $3
+       WHERE id = $1`,
+      [id, String(backoffMs), errorMessage]
+    );
+  });
+
+  async function publishEntry(entry: OutboxEntry): Promise<void> {
+    // Continue the trace of the request that wrote the row
+    await withSpan(`outbox relay ${entry.eventType}`, () => publish(entry.message), {
+      parent: extractTraceContext(entry.traceContext),
+      attributes: { 'outbox.id': entry.id },
+    });
+  }
+
+  async function drain(): Promise<void> {
+    if (!isEnabled()) {
+      if (!offlineLogged) {
+        console.log('[Outbox] Message bus unavailable, holding outbox messages');
+        offlineLogged = true;
+      }
+      return;
+    }
+    offlineLogged = false;
+
+    for (const entry of await claimDueEntries()) {
+      try {
+        await publishEntry(entry);
+      } catch (error) {
+        const backoffMs = computeBackoffMs(entry.retryCount);
+        await markFailed(entry.id, backoffMs, (error as Error).message);
+
+        if (entry.retryCount + 1 >= OUTBOX_MAX_RETRIES) {
+          console.error(`[Outbox] Giving up on ${entry.eventType} (outbox id ${entry.id}) after ${OUTBOX_MAX_RETRIES} attempts`);
+          telemetry.trackEvent('OutboxRetriesExhausted', { eventType: entry.eventType, outboxId: String(entry.id) });
+        } else {
+          console.warn(`[Outbox] Failed to publish ${entry.eventType} (outbox id ${entry.id}), retrying in ${backoffMs}ms`);
+        }
+        continue;
+      }
+
+      await markProcessed(entry.id);
+      telemetry.trackMetric('Outbox.PublishLatency', Date.now() - new Date(entry.createdAt).getTime());
+    }
+  }
+
+  function start(): void {
+    if (relayTimer) {
+      return;
+    }
+
+    relayTimer = setInterval(() => {
+      if (draining) {
+        return;
+      }
+      draining = drain()
+        .catch((error) => {
+          console.error('[Outbox] Relay iteration failed:', error);
+          telemetry.trackException(error as Error, { component: 'OutboxRelay' });
+        })
+        .finally(() => {
+          draining = null;
+        });
+    }, POLL_INTERVAL_MS);
+
+    console.log(`[Outbox] Relay started (interval ${POLL_INTERVAL_MS}ms, batch ${BATCH_SIZE})`);
+  }
+
+  async function stop(): Promise<void> {
+    if (relayTimer) {
+      clearInterval(relayTimer);
+      relayTimer = null;
+    }
+    await draining;
+    console.log('[Outbox] Relay stopped');
+  }
+
+  const getBacklog = traced('outbox.getBacklog', async (): Promise<OutboxStats> => {
+    const result = await (await getPool()).query(
+      `SELECT
+         COUNT(*) FILTER (WHERE retry_count < $1) AS pending,
+         COUNT(*) FILTER (WHERE retry_count >= $1) AS exhausted,
+         MIN(created_at) FILTER (WHERE retry_count < $1) AS oldest_pending_at
+       FROM outbox
+       WHERE processed_at IS NULL`,
+      [OUTBOX_MAX_RETRIES]
+    );
+
+    const row = result.rows[0];
+    return {
+      pending: parseInt(row.pending, 10),
+      exhausted: parseInt(row.exhausted, 10),
+      oldestPendingAt: row.oldest_pending_at || undefined,
+    };
+  });
+
+  return { start, stop, getBacklog };
+}
+
+function mapRowToOutboxEntry(row: any): OutboxEntry {
+  return {
+    id: row.id,
+    eventType: row.event_type,
+    message: row.event_data,
+    retryCount: row.retry_count,
+    createdAt: row.created_at,
+    traceContext: row.trace_context || undefined,
+  };
+}
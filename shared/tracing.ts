@@ -0,0 +1,149 @@
+import {
+  context,
+  propagation,
+  trace,
+  Attributes,
+  Context,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+} from '@opentelemetry/api';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import type { NextFunction, Request, Response } from 'express';
+
+/**
+ * Distributed Tracing
+ * W3C trace context travels in HTTP headers, gRPC metadata, message
+ * application properties and WebSocket payloads, so one order's path across
+ * services forms a single trace. Spans are exported to an OpenTelemetry
+ * collector when OTEL_EXPORTER_OTLP_ENDPOINT is set (e.g. http://otel-collector:4318);
+ * without it context is still propagated.
+ */
+
+const OTLP_ENDPOINT = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+
+export type SpanKindName = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+export interface SpanOptions {
+  kind?: SpanKindName;
+  attributes?: Attributes;
+  // Context to continue, e.g. from extractTraceContext; defaults to the active one
+  parent?: Context;
+}
+
+const SPAN_KINDS: Record<SpanKindName, SpanKind> = {
+  internal: SpanKind.INTERNAL,
+  server: SpanKind.SERVER,
+  client: SpanKind.CLIENT,
+  producer: SpanKind.PRODUCER,
+  consumer: SpanKind.CONSUMER,
+};
+
+let provider: NodeTracerProvider | null = null;
+let serviceName = process.env.OTEL_SERVICE_NAME || 'unknown-service';
+
+/**
+ * Start the tracer provider. OTEL_SERVICE_NAME, when set, overrides the
+ * service's own name.
+ */
+export function initTracing(defaultServiceName: string): void {
+  if (provider) {
+    return;
+  }
+
+  serviceName = process.env.OTEL_SERVICE_NAME || defaultServiceName;
+  provider = new NodeTracerProvider({
+    resource: new Resource({ [ATTR_SERVICE_NAME]: serviceName }),
+    spanProcessors: OTLP_ENDPOINT
+      ? [new BatchSpanProcessor(new OTLPTraceExporter({ url: `${OTLP_ENDPOINT.replace(/\/$/, '')}/v1/traces` }))]
+      : [],
+  });
+  // Installs the W3C trace-context propagator and the async context manager
+  provider.register();
+
+  if (OTLP_ENDPOINT) {
+    console.log(`[Tracing] Exporting spans to ${OTLP_ENDPOINT}`);
+  } else {
+    console.log('[Tracing] No OTLP endpoint, spans are not exported');
+  }
+}
+
+export async function shutdownTracing(): Promise<void> {
+  if (provider) {
+    await provider.shutdown();
+    provider = null;
+  }
+}
+
+/**
+ * Run fn inside a new active span. A throw marks the span as failed and is
+ * rethrown.
+ */
+export function withSpan<T>(name: string, fn: (span: Span) => Promise<T>, options: SpanOptions = {}): Promise<T> {
+  const tracer = trace.getTracer(serviceName);
+  const spanOptions = { kind: SPAN_KINDS[options.kind || 'internal'], attributes: options.attributes };
+
+  return tracer.startActiveSpan(name, spanOptions, options.parent || context.active(), async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Wrap an async function so every call runs in its own span.
+ */
+export function traced<A extends unknown[], R>(name: string, fn: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return (...args: A) => withSpan(name, () => fn(...args));
+}
+
+/**
+ * Write the active trace context (traceparent / tracestate) into carrier.
+ */
+export function injectTraceContext(carrier: Record<string, string> = {}): Record<string, string> {
+  propagation.inject(context.active(), carrier);
+  return carrier;
+}
+
+export function extractTraceContext(carrier: Record<string, unknown> | null | undefined): Context {
+  return propagation.extract(ROOT_CONTEXT, carrier || {});
+}
+
+export function getTraceParent(): string | undefined {
+  return injectTraceContext().traceparent;
+}
+
+/**
+ * Express middleware: one server span per request, continuing the caller's
+ * traceparent header when there is one.
+ */
+export function tracingMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const tracer = trace.getTracer(serviceName);
+  const span = tracer.startSpan(`${req.method} ${req.path}`, {
+    kind: SpanKind.SERVER,
+    attributes: { 'http.request.method': req.method, 'url.path': req.originalUrl },
+  }, extractTraceContext(req.headers));
+
+  res.on('finish', () => {
+    if (req.route?.path) {
+      span.updateName(`${req.method} ${req.baseUrl}${req.route.path}`);
+    }
+    span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(context.active(), span), next);
+}